@@ -0,0 +1,173 @@
+import React, { useState } from 'react';
+import { StyleSheet, View, Text, KeyboardAvoidingView, Platform, ScrollView, Alert } from 'react-native';
+import { Button, TextInput } from 'react-native-paper';
+import { router } from 'expo-router';
+import { StatusBar } from 'expo-status-bar';
+import { useLanguage } from '../../hooks/useLanguage';
+import { useTheme } from '../../hooks/useTheme';
+import { useAuth } from '../../hooks/useAuth';
+import { getAuthErrorMessageKey } from '../../services/authErrors';
+
+// Same rule as on signup
+const MIN_PASSWORD_LENGTH = 8;
+
+export default function ChangePasswordScreen() {
+  const { t } = useLanguage();
+  const { theme, isDarkTheme } = useTheme();
+  const { changePassword } = useAuth();
+
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [showPassword, setShowPassword] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const goBack = () => {
+    try {
+      if (router.canGoBack()) {
+        router.back();
+      } else {
+        router.replace('/(tabs)/settings');
+      }
+    } catch (error) {
+      console.error('Navigation error:', error);
+    }
+  };
+
+  const handleChangePassword = async () => {
+    if (newPassword.length < MIN_PASSWORD_LENGTH) {
+      setError(t('passwordTooShort'));
+      return;
+    }
+    if (newPassword !== confirmPassword) {
+      setError(t('passwordsDoNotMatch'));
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      await changePassword(currentPassword, newPassword);
+      Alert.alert(t('changePassword'), t('passwordChanged'), [{ text: 'OK', onPress: goBack }]);
+    } catch (error) {
+      console.error('Password change failed:', error);
+      setError(t(getAuthErrorMessageKey(error)));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const passwordInputProps = {
+    mode: 'outlined' as const,
+    secureTextEntry: !showPassword,
+    style: styles.input,
+    outlineColor: theme.colors.primary,
+    activeOutlineColor: theme.colors.primary,
+  };
+
+  return (
+    <KeyboardAvoidingView
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      style={[styles.container, { backgroundColor: theme.colors.background }]}
+    >
+      <StatusBar style={isDarkTheme ? 'light' : 'dark'} />
+      <ScrollView contentContainerStyle={styles.scrollContent}>
+        <View style={styles.formContainer}>
+          <Text style={[styles.screenTitle, { color: theme.colors.text }]}>{t('changePassword')}</Text>
+
+          {error && (
+            <Text style={styles.errorText}>
+              {error}
+            </Text>
+          )}
+
+          <TextInput
+            {...passwordInputProps}
+            label={t('currentPassword')}
+            value={currentPassword}
+            onChangeText={setCurrentPassword}
+            right={
+              <TextInput.Icon
+                icon={showPassword ? 'eye-off' : 'eye'}
+                onPress={() => setShowPassword(!showPassword)}
+              />
+            }
+          />
+
+          <TextInput
+            {...passwordInputProps}
+            label={t('newPassword')}
+            value={newPassword}
+            onChangeText={setNewPassword}
+          />
+
+          <TextInput
+            {...passwordInputProps}
+            label={t('confirmNewPassword')}
+            value={confirmPassword}
+            onChangeText={setConfirmPassword}
+          />
+
+          <Button
+            mode="contained"
+            onPress={handleChangePassword}
+            style={styles.button}
+            contentStyle={styles.buttonContent}
+            labelStyle={styles.buttonLabel}
+            loading={isLoading}
+            disabled={isLoading || !currentPassword || !newPassword || !confirmPassword}
+          >
+            {t('changePassword')}
+          </Button>
+
+          <Button
+            mode="text"
+            onPress={goBack}
+            style={styles.button}
+          >
+            {t('cancel')}
+          </Button>
+        </View>
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollContent: {
+    flexGrow: 1,
+    padding: 20,
+  },
+  formContainer: {
+    flex: 1,
+    justifyContent: 'center',
+  },
+  screenTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    marginBottom: 20,
+  },
+  input: {
+    marginBottom: 16,
+  },
+  button: {
+    marginTop: 10,
+  },
+  buttonContent: {
+    paddingVertical: 8,
+  },
+  buttonLabel: {
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  errorText: {
+    color: 'red',
+    marginBottom: 16,
+    textAlign: 'center',
+  },
+});
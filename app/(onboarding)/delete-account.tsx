@@ -0,0 +1,190 @@
+import React, { useState } from 'react';
+import { StyleSheet, View, Text, KeyboardAvoidingView, Platform, ScrollView, Alert } from 'react-native';
+import { Button, TextInput } from 'react-native-paper';
+import { router } from 'expo-router';
+import { StatusBar } from 'expo-status-bar';
+import { useLanguage } from '../../hooks/useLanguage';
+import { useTheme } from '../../hooks/useTheme';
+import { useAuth } from '../../hooks/useAuth';
+import { getAuthErrorMessageKey } from '../../services/authErrors';
+import type { AccountDeletionStep } from '../../services/accountDeletion';
+import type { TranslationKey } from '../../contexts/LanguageContext';
+
+// Progress message shown while each deletion step runs
+const STEP_LABELS: Record<AccountDeletionStep, TranslationKey> = {
+  localScans: 'deletionStepLocalScans',
+  scanHistory: 'deletionStepScanHistory',
+  images: 'deletionStepImages',
+  localData: 'deletionStepLocalData',
+  authUser: 'deletionStepAuthUser',
+};
+
+export default function DeleteAccountScreen() {
+  const { t } = useLanguage();
+  const { theme, isDarkTheme } = useTheme();
+  const { deleteAccount, isGuest } = useAuth();
+
+  const [password, setPassword] = useState('');
+  const [showPassword, setShowPassword] = useState(false);
+  const [step, setStep] = useState<AccountDeletionStep | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const goBack = () => {
+    try {
+      if (router.canGoBack()) {
+        router.back();
+      } else {
+        router.replace('/(tabs)/settings');
+      }
+    } catch (error) {
+      console.error('Navigation error:', error);
+    }
+  };
+
+  const navigateToLogin = () => {
+    try {
+      router.replace('/(onboarding)/login');
+    } catch (error) {
+      console.error('Navigation error:', error);
+    }
+  };
+
+  const runDeletion = async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      await deleteAccount(password, setStep);
+      Alert.alert(t('deleteAccount'), t('accountDeleted'), [{ text: 'OK', onPress: navigateToLogin }]);
+    } catch (error) {
+      console.error('Account deletion failed:', error);
+      // Firestore and Storage errors have no dedicated message
+      const key = getAuthErrorMessageKey(error);
+      setError(t(key === 'authErrorUnknown' ? 'accountDeletionFailed' : key));
+    } finally {
+      setIsLoading(false);
+      setStep(null);
+    }
+  };
+
+  const handleDelete = () => {
+    Alert.alert(t('deleteAccount'), t('deleteAccountConfirm'), [
+      { text: t('cancel'), style: 'cancel' },
+      { text: t('deleteAccount'), style: 'destructive', onPress: runDeletion },
+    ]);
+  };
+
+  return (
+    <KeyboardAvoidingView
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      style={[styles.container, { backgroundColor: theme.colors.background }]}
+    >
+      <StatusBar style={isDarkTheme ? 'light' : 'dark'} />
+      <ScrollView contentContainerStyle={styles.scrollContent}>
+        <View style={styles.formContainer}>
+          <Text style={[styles.screenTitle, { color: theme.colors.text }]}>{t('deleteAccount')}</Text>
+
+          <Text style={[styles.message, { color: theme.colors.text }]}>
+            {t('deleteAccountHint')}
+          </Text>
+
+          {error && (
+            <Text style={styles.errorText}>
+              {error}
+            </Text>
+          )}
+
+          {step && (
+            <Text style={[styles.message, { color: theme.colors.text, fontStyle: 'italic' }]}>
+              {t(STEP_LABELS[step])}
+            </Text>
+          )}
+
+          {!isGuest && (
+            <TextInput
+              label={t('currentPassword')}
+              value={password}
+              onChangeText={setPassword}
+              mode="outlined"
+              secureTextEntry={!showPassword}
+              style={styles.input}
+              outlineColor={theme.colors.primary}
+              activeOutlineColor={theme.colors.primary}
+              editable={!isLoading}
+              right={
+                <TextInput.Icon
+                  icon={showPassword ? 'eye-off' : 'eye'}
+                  onPress={() => setShowPassword(!showPassword)}
+                />
+              }
+            />
+          )}
+
+          <Button
+            mode="contained"
+            onPress={handleDelete}
+            style={styles.button}
+            contentStyle={styles.buttonContent}
+            labelStyle={styles.buttonLabel}
+            buttonColor={theme.colors.error}
+            loading={isLoading}
+            disabled={isLoading || (!isGuest && !password)}
+          >
+            {t('deleteAccount')}
+          </Button>
+
+          <Button
+            mode="text"
+            onPress={goBack}
+            style={styles.button}
+            disabled={isLoading}
+          >
+            {t('cancel')}
+          </Button>
+        </View>
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollContent: {
+    flexGrow: 1,
+    padding: 20,
+  },
+  formContainer: {
+    flex: 1,
+    justifyContent: 'center',
+  },
+  screenTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    marginBottom: 20,
+  },
+  message: {
+    fontSize: 16,
+    marginBottom: 20,
+  },
+  input: {
+    marginBottom: 16,
+  },
+  button: {
+    marginTop: 10,
+  },
+  buttonContent: {
+    paddingVertical: 8,
+  },
+  buttonLabel: {
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  errorText: {
+    color: 'red',
+    marginBottom: 16,
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,170 @@
+import React, { useState } from 'react';
+import { StyleSheet, View, Text, TouchableOpacity, KeyboardAvoidingView, Platform, ScrollView } from 'react-native';
+import { Button, TextInput } from 'react-native-paper';
+import { router, useLocalSearchParams } from 'expo-router';
+import { StatusBar } from 'expo-status-bar';
+import { useLanguage } from '../../hooks/useLanguage';
+import { useTheme } from '../../hooks/useTheme';
+import { useAuth } from '../../hooks/useAuth';
+import { getAuthErrorMessageKey } from '../../services/authErrors';
+
+export default function ForgotPasswordScreen() {
+  const { t } = useLanguage();
+  const { theme, isDarkTheme } = useTheme();
+  const { sendPasswordReset } = useAuth();
+  // Pre-filled with what was typed on the login screen
+  const params = useLocalSearchParams<{ email?: string }>();
+
+  const [email, setEmail] = useState(params.email || '');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [sentTo, setSentTo] = useState<string | null>(null);
+
+  const handleSendReset = async () => {
+    const trimmed = email.trim();
+    if (!trimmed) {
+      setError(t('authErrorMissingEmail'));
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      await sendPasswordReset(trimmed);
+      setSentTo(trimmed);
+    } catch (error) {
+      console.error('Password reset failed:', error);
+      setError(t(getAuthErrorMessageKey(error)));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const navigateToLogin = () => {
+    try {
+      router.replace('/(onboarding)/login');
+    } catch (error) {
+      console.error('Navigation error:', error);
+    }
+  };
+
+  return (
+    <KeyboardAvoidingView
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      style={[styles.container, { backgroundColor: theme.colors.background }]}
+    >
+      <StatusBar style={isDarkTheme ? 'light' : 'dark'} />
+      <ScrollView contentContainerStyle={styles.scrollContent}>
+        <View style={styles.header}>
+          <Text style={[styles.title, { color: theme.colors.primary }]}>ScanRappel</Text>
+        </View>
+
+        <View style={styles.formContainer}>
+          <Text style={[styles.screenTitle, { color: theme.colors.text }]}>{t('resetPassword')}</Text>
+
+          {sentTo ? (
+            <Text style={[styles.message, { color: theme.colors.text }]}>
+              {t('passwordResetSent').replace('{email}', sentTo)}
+            </Text>
+          ) : (
+            <>
+              <Text style={[styles.message, { color: theme.colors.text }]}>
+                {t('resetPasswordHint')}
+              </Text>
+
+              {error && (
+                <Text style={styles.errorText}>
+                  {error}
+                </Text>
+              )}
+
+              <TextInput
+                label={t('email')}
+                value={email}
+                onChangeText={setEmail}
+                mode="outlined"
+                keyboardType="email-address"
+                autoCapitalize="none"
+                style={styles.input}
+                outlineColor={theme.colors.primary}
+                activeOutlineColor={theme.colors.primary}
+              />
+
+              <Button
+                mode="contained"
+                onPress={handleSendReset}
+                style={styles.button}
+                contentStyle={styles.buttonContent}
+                labelStyle={styles.buttonLabel}
+                loading={isLoading}
+                disabled={isLoading || !email}
+              >
+                {t('sendResetLink')}
+              </Button>
+            </>
+          )}
+
+          <TouchableOpacity onPress={navigateToLogin} style={styles.backContainer}>
+            <Text style={{ color: theme.colors.primary, fontWeight: 'bold' }}>
+              {t('backToLogin')}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollContent: {
+    flexGrow: 1,
+    padding: 20,
+  },
+  header: {
+    alignItems: 'center',
+    marginVertical: 40,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+  },
+  formContainer: {
+    flex: 1,
+    justifyContent: 'center',
+  },
+  screenTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    marginBottom: 20,
+  },
+  message: {
+    fontSize: 16,
+    marginBottom: 20,
+  },
+  input: {
+    marginBottom: 16,
+  },
+  button: {
+    marginTop: 10,
+  },
+  buttonContent: {
+    paddingVertical: 8,
+  },
+  buttonLabel: {
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  backContainer: {
+    alignItems: 'center',
+    marginTop: 20,
+  },
+  errorText: {
+    color: 'red',
+    marginBottom: 16,
+    textAlign: 'center',
+  },
+});
@@ -6,36 +6,18 @@ import { StatusBar } from 'expo-status-bar';
 import { useLanguage } from '../../hooks/useLanguage';
 import { useTheme } from '../../hooks/useTheme';
 import { useAuth } from '../../hooks/useAuth';
-import { FirebaseError } from 'firebase/app';
+import { getAuthErrorMessageKey } from '../../services/authErrors';
 
 export default function LoginScreen() {
   const { t } = useLanguage();
   const { theme, isDarkTheme } = useTheme();
-  const { login, error: authError, setError: setAuthError, user } = useAuth();
+  const { login, error: authError, setError: setAuthError } = useAuth();
   
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [showPassword, setShowPassword] = useState(false);
 
-  // Helper function to get a user-friendly error message
-  const getErrorMessage = (error: FirebaseError) => {
-    switch (error.code) {
-      case 'auth/invalid-credential':
-        return 'Invalid email or password. Please check your credentials and try again.';
-      case 'auth/user-not-found':
-        return 'No account found with this email. Please sign up first.';
-      case 'auth/wrong-password':
-        return 'Invalid password. Please try again.';
-      case 'auth/too-many-requests':
-        return 'Too many failed login attempts. Please try again later or reset your password.';
-      case 'auth/network-request-failed':
-        return 'Network error. Please check your internet connection.';
-      default:
-        return `Login error: ${error.message}`;
-    }
-  };
-
   // Function to force navigation to tabs
   const forceNavigateToTabs = () => {
     try {
@@ -87,18 +69,20 @@ export default function LoginScreen() {
       }, 500);
     } catch (error) {
       console.error('Login failed:', error);
-      if (error instanceof FirebaseError) {
-        const message = getErrorMessage(error);
-        setAuthError(message);
-        console.log('Firebase auth error code:', error.code);
-      } else {
-        setAuthError('An unknown error occurred. Please try again.');
-      }
+      setAuthError(t(getAuthErrorMessageKey(error)));
     } finally {
       setIsLoading(false);
     }
   };
 
+  const navigateToForgotPassword = () => {
+    try {
+      router.push({ pathname: '/(onboarding)/forgot-password', params: { email: email.trim() } });
+    } catch (error) {
+      console.error('Navigation error:', error);
+    }
+  };
+
   const navigateToSignup = () => {
     try {
       router.push('/(onboarding)/signup');
@@ -156,6 +140,12 @@ export default function LoginScreen() {
             }
           />
 
+          <TouchableOpacity onPress={navigateToForgotPassword} style={styles.forgotPassword}>
+            <Text style={{ color: theme.colors.primary }}>
+              {t('forgotPassword')}
+            </Text>
+          </TouchableOpacity>
+
           <Button
             mode="contained"
             onPress={handleLogin}
@@ -212,6 +202,10 @@ const styles = StyleSheet.create({
   input: {
     marginBottom: 16,
   },
+  forgotPassword: {
+    alignSelf: 'flex-end',
+    marginBottom: 10,
+  },
   button: {
     marginTop: 10,
   },
@@ -6,12 +6,12 @@ import { StatusBar } from 'expo-status-bar';
 import { useLanguage } from '../../hooks/useLanguage';
 import { useTheme } from '../../hooks/useTheme';
 import { useAuth } from '../../hooks/useAuth';
-import { FirebaseError } from 'firebase/app';
+import { getAuthErrorMessageKey } from '../../services/authErrors';
 
 export default function SignupScreen() {
   const { t } = useLanguage();
   const { theme, isDarkTheme } = useTheme();
-  const { signup, error: authError, setError: setAuthError } = useAuth();
+  const { signup, isGuest, upgradeGuestAccount, error: authError, setError: setAuthError } = useAuth();
 
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
@@ -20,40 +20,24 @@ export default function SignupScreen() {
   const [showPassword, setShowPassword] = useState(false);
   const [passwordError, setPasswordError] = useState('');
 
-  // Helper function to get a user-friendly error message
-  const getErrorMessage = (error: FirebaseError) => {
-    switch (error.code) {
-      case 'auth/email-already-in-use':
-        return 'This email is already in use. Please try a different email or log in.';
-      case 'auth/invalid-email':
-        return 'The email address is not valid. Please check and try again.';
-      case 'auth/weak-password':
-        return 'Password is too weak. Please use a stronger password.';
-      case 'auth/network-request-failed':
-        return 'Network error. Please check your internet connection.';
-      default:
-        return `Signup error: ${error.message}`;
-    }
-  };
-
   const validatePassword = (value: string) => {
     if (value.length < 8) {
-      setPasswordError('Password must be at least 8 characters long');
+      setPasswordError(t('passwordTooShort'));
       return false;
     }
     setPasswordError('');
     return true;
   };
 
-  // Function to force navigation to tabs
-  const forceNavigateToTabs = () => {
+  // New accounts are asked to verify their email before going to the tabs
+  const forceNavigateToVerifyEmail = () => {
     try {
-      console.log('🚀 Forcing navigation to tabs from signup screen');
+      console.log('🚀 Forcing navigation to email verification from signup screen');
       
       if (Platform.OS === 'web') {
-        window.location.href = '/(tabs)';
+        window.location.href = '/(onboarding)/verify-email?sent=1';
       } else {
-        router.replace('/(tabs)');
+        router.replace({ pathname: '/(onboarding)/verify-email', params: { sent: '1' } });
       }
     } catch (error) {
       console.error('💥 Navigation error:', error);
@@ -61,12 +45,12 @@ export default function SignupScreen() {
       // Extreme fallback - try one more method
       setTimeout(() => {
         try {
-          router.navigate('/(tabs)');
+          router.navigate({ pathname: '/(onboarding)/verify-email', params: { sent: '1' } });
         } catch (e) {
           console.error('💥 Final navigation attempt failed:', e);
           Alert.alert(
             'Navigation Error',
-            'Unable to navigate to home screen. Please restart the app.',
+            'Unable to navigate to the next screen. Please restart the app.',
             [{ text: 'OK' }]
           );
         }
@@ -90,7 +74,7 @@ export default function SignupScreen() {
     }
 
     if (password !== confirmPassword) {
-      setAuthError('Passwords do not match');
+      setAuthError(t('passwordsDoNotMatch'));
       return;
     }
 
@@ -103,24 +87,21 @@ export default function SignupScreen() {
 
     try {
       console.log(`Creating new account for: ${email.trim()}`);
-      const result = await signup(email.trim(), password);
-      console.log('Signup successful, navigating to tabs...');
+      // A guest keeps their scan history by linking the new credentials to their account
+      const result = isGuest
+        ? await upgradeGuestAccount(email.trim(), password)
+        : await signup(email.trim(), password);
+      console.log('Signup successful, navigating to email verification...');
       
       // Use a timeout to ensure auth state has updated
       setTimeout(() => {
         if (result && result.user) {
-          forceNavigateToTabs();
+          forceNavigateToVerifyEmail();
         }
       }, 500);
     } catch (error) {
       console.error('Signup failed:', error);
-      if (error instanceof FirebaseError) {
-        const message = getErrorMessage(error);
-        setAuthError(message);
-        console.log('Firebase auth error code:', error.code);
-      } else {
-        setAuthError('An unknown error occurred. Please try again.');
-      }
+      setAuthError(t(getAuthErrorMessageKey(error)));
     } finally {
       setIsLoading(false);
     }
@@ -139,6 +120,12 @@ export default function SignupScreen() {
 
         <View style={styles.formContainer}>
           <Text style={[styles.signupText, { color: theme.colors.text }]}>{t('signup')}</Text>
+
+          {isGuest && (
+            <Text style={[styles.guestHint, { color: theme.colors.text }]}>
+              {t('upgradeGuestHint')}
+            </Text>
+          )}
           
           {authError && (
             <Text style={styles.errorText}>
@@ -261,6 +248,10 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '500',
   },
+  guestHint: {
+    fontSize: 16,
+    marginBottom: 20,
+  },
   loginContainer: {
     flexDirection: 'row',
     justifyContent: 'center',
@@ -0,0 +1,185 @@
+import React, { useState, useEffect } from 'react';
+import { StyleSheet, View, Text, ScrollView } from 'react-native';
+import { Button } from 'react-native-paper';
+import { router, useLocalSearchParams } from 'expo-router';
+import { StatusBar } from 'expo-status-bar';
+import { MaterialIcons } from '@expo/vector-icons';
+import { useLanguage } from '../../hooks/useLanguage';
+import { useTheme } from '../../hooks/useTheme';
+import { useAuth } from '../../hooks/useAuth';
+import { getAuthErrorMessageKey } from '../../services/authErrors';
+
+// Time to wait before the verification email can be sent again
+const RESEND_COOLDOWN_SECONDS = 60;
+
+export default function VerifyEmailScreen() {
+  const { t } = useLanguage();
+  const { theme, isDarkTheme } = useTheme();
+  const { user, isEmailVerified, sendVerificationEmail, refreshUser } = useAuth();
+  // Set when signup just sent the verification email
+  const { sent } = useLocalSearchParams<{ sent?: string }>();
+
+  const [isChecking, setIsChecking] = useState(false);
+  const [isSending, setIsSending] = useState(false);
+  const [cooldown, setCooldown] = useState(sent ? RESEND_COOLDOWN_SECONDS : 0);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (cooldown <= 0) return;
+    const timer = setTimeout(() => setCooldown(cooldown - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [cooldown]);
+
+  const goToTabs = () => {
+    try {
+      router.replace('/(tabs)');
+    } catch (error) {
+      console.error('Navigation error:', error);
+    }
+  };
+
+  useEffect(() => {
+    if (isEmailVerified) {
+      goToTabs();
+    }
+  }, [isEmailVerified]);
+
+  const handleCheck = async () => {
+    setIsChecking(true);
+    setError(null);
+    setMessage(null);
+
+    try {
+      // Navigation happens in the effect above once the email is verified
+      if (!(await refreshUser())) {
+        setMessage(t('emailNotVerifiedYet'));
+      }
+    } catch (error) {
+      console.error('Could not check email verification:', error);
+      setError(t(getAuthErrorMessageKey(error)));
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const handleResend = async () => {
+    setIsSending(true);
+    setError(null);
+    setMessage(null);
+
+    try {
+      await sendVerificationEmail();
+      setMessage(t('verificationEmailSent'));
+      setCooldown(RESEND_COOLDOWN_SECONDS);
+    } catch (error) {
+      console.error('Could not resend the verification email:', error);
+      setError(t(getAuthErrorMessageKey(error)));
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <View style={[styles.container, { backgroundColor: theme.colors.background }]}>
+      <StatusBar style={isDarkTheme ? 'light' : 'dark'} />
+      <ScrollView contentContainerStyle={styles.scrollContent}>
+        <View style={styles.header}>
+          <MaterialIcons name="mark-email-unread" size={64} color={theme.colors.primary} />
+        </View>
+
+        <Text style={[styles.screenTitle, { color: theme.colors.text }]}>{t('verifyEmail')}</Text>
+        <Text style={[styles.text, { color: theme.colors.text }]}>
+          {t('verifyEmailHint').replace('{email}', user?.email || '')}
+        </Text>
+
+        {message && (
+          <Text style={[styles.text, { color: theme.colors.text, fontStyle: 'italic' }]}>
+            {message}
+          </Text>
+        )}
+
+        {error && (
+          <Text style={styles.errorText}>
+            {error}
+          </Text>
+        )}
+
+        <Button
+          mode="contained"
+          onPress={handleCheck}
+          style={styles.button}
+          contentStyle={styles.buttonContent}
+          labelStyle={styles.buttonLabel}
+          loading={isChecking}
+          disabled={isChecking || !user}
+        >
+          {t('iVerifiedMyEmail')}
+        </Button>
+
+        <Button
+          mode="outlined"
+          onPress={handleResend}
+          style={styles.button}
+          contentStyle={styles.buttonContent}
+          labelStyle={styles.buttonLabel}
+          loading={isSending}
+          disabled={isSending || cooldown > 0 || !user}
+        >
+          {cooldown > 0
+            ? t('resendEmailIn').replace('{seconds}', String(cooldown))
+            : t('resendEmail')}
+        </Button>
+
+        <Button
+          mode="text"
+          onPress={goToTabs}
+          style={styles.button}
+        >
+          {t('verifyLater')}
+        </Button>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollContent: {
+    flexGrow: 1,
+    justifyContent: 'center',
+    padding: 20,
+  },
+  header: {
+    alignItems: 'center',
+    marginBottom: 20,
+  },
+  screenTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    textAlign: 'center',
+    marginBottom: 20,
+  },
+  text: {
+    fontSize: 16,
+    textAlign: 'center',
+    marginBottom: 20,
+  },
+  button: {
+    marginTop: 10,
+  },
+  buttonContent: {
+    paddingVertical: 8,
+  },
+  buttonLabel: {
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  errorText: {
+    color: 'red',
+    marginBottom: 16,
+    textAlign: 'center',
+  },
+});
@@ -1,15 +1,33 @@
-import React from 'react';
-import { StyleSheet, View, Image, Text } from 'react-native';
+import React, { useState } from 'react';
+import { StyleSheet, View, Image, Text, Alert } from 'react-native';
 import { Button } from 'react-native-paper';
 import { useRouter } from 'expo-router';
 import { useLanguage } from '../../hooks/useLanguage';
 import { useTheme } from '../../hooks/useTheme';
 import { StatusBar } from 'expo-status-bar';
+import { useAuth } from '../../hooks/useAuth';
+import { getAuthErrorMessageKey } from '../../services/authErrors';
 
 export default function WelcomeScreen() {
   const { t } = useLanguage();
   const { theme, isDarkTheme } = useTheme();
   const router = useRouter();
+  const { continueAsGuest } = useAuth();
+  const [isStartingGuest, setIsStartingGuest] = useState(false);
+
+  // Scanning and history work without an account; one can be created later from Settings
+  const handleContinueAsGuest = async () => {
+    setIsStartingGuest(true);
+    try {
+      await continueAsGuest();
+      router.replace('/(tabs)');
+    } catch (error) {
+      console.error('Guest sign-in failed:', error);
+      Alert.alert(t('error'), t(getAuthErrorMessageKey(error)));
+    } finally {
+      setIsStartingGuest(false);
+    }
+  };
 
   return (
     <View style={[styles.container, { backgroundColor: theme.colors.background }]}>
@@ -55,6 +73,17 @@ export default function WelcomeScreen() {
         >
           {t('signup')}
         </Button>
+        <Button
+          mode="text"
+          style={styles.button}
+          labelStyle={styles.buttonLabel}
+          textColor={theme.colors.primary}
+          loading={isStartingGuest}
+          disabled={isStartingGuest}
+          onPress={handleContinueAsGuest}
+        >
+          {t('continueAsGuest')}
+        </Button>
       </View>
     </View>
   );
@@ -1,11 +1,55 @@
+import { useEffect } from 'react';
 import { Tabs } from 'expo-router';
 import { MaterialIcons } from '@expo/vector-icons';
 import { useTheme } from '../../hooks/useTheme';
 import { useLanguage } from '../../hooks/useLanguage';
+import { useAuth } from '../../hooks/useAuth';
+import { syncRecallStoreIfStale } from '../../services/recallStore';
+import { areRecallAlertsEnabled, checkScanHistoryForRecalls, enableRecallAlerts } from '../../services/recallAlerts';
+import { startScanSync } from '../../services/scanSync';
+import { migrateScanHistoryNutrition } from '../../services/productService';
 
 export default function TabsLayout() {
   const { theme } = useTheme();
   const { t } = useLanguage();
+  const { user } = useAuth();
+
+  // Keep the offline recall database up to date in the background
+  useEffect(() => {
+    syncRecallStoreIfStale().catch(error => {
+      console.error('Background recall sync failed:', error);
+    });
+  }, []);
+
+  // Upload scans saved while offline, now and whenever the app returns to the foreground
+  useEffect(() => {
+    if (!user) return;
+    return startScanSync(user.uid);
+  }, [user]);
+
+  // Convert scans saved with the old nutrition strings
+  useEffect(() => {
+    if (!user) return;
+    migrateScanHistoryNutrition(user.uid).catch(error => {
+      console.error('Scan history nutrition migration failed:', error);
+    });
+  }, [user]);
+
+  // Register recall alerts and re-check scanned products when the app opens
+  useEffect(() => {
+    if (!user) return;
+
+    const checkForRecalls = async () => {
+      if (!(await areRecallAlertsEnabled())) return;
+      if (await enableRecallAlerts()) {
+        await checkScanHistoryForRecalls(user.uid);
+      }
+    };
+
+    checkForRecalls().catch(error => {
+      console.error('Recall alert check failed:', error);
+    });
+  }, [user]);
   
   return (
     <Tabs
@@ -34,6 +78,16 @@ export default function TabsLayout() {
           ),
         }}
       />
+      <Tabs.Screen
+        name="search"
+        options={{
+          title: t('search'),
+          tabBarLabel: t('search'),
+          tabBarIcon: ({ color, size }) => (
+            <MaterialIcons name="search" size={size} color={color} />
+          ),
+        }}
+      />
       <Tabs.Screen
         name="scan-history"
         options={{
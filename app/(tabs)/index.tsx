@@ -1,8 +1,8 @@
-import React, { useState, useEffect } from 'react';
-import { StyleSheet, View, Text, ScrollView, Image, TouchableOpacity, ActivityIndicator, Alert, Linking } from 'react-native';
-import { Button, Card, Divider } from 'react-native-paper';
+import React, { useState, useEffect, useRef } from 'react';
+import { StyleSheet, View, Text, ScrollView, ActivityIndicator, Alert, Linking } from 'react-native';
+import { Button } from 'react-native-paper';
 import * as ImagePicker from 'expo-image-picker';
-import { MaterialIcons } from '@expo/vector-icons';
+import { CameraView, useCameraPermissions, type BarcodeScanningResult } from 'expo-camera';
 import { StatusBar } from 'expo-status-bar';
 import { useLanguage } from '../../hooks/useLanguage';
 import { useTheme } from '../../hooks/useTheme';
@@ -14,7 +14,15 @@ import {
   type NutritionalInfo,
   type ProductDetails
 } from '../../services/productService';
-import { analyzeProductImage } from '../../services/openai';
+import { analyzeProductImage, getCachedProductByGtin, type AnalysisProgress } from '../../services/openai';
+import { ProductAnalysisValidationError } from '../../services/productAnalysis';
+import { VisionProviderError } from '../../services/visionProvider';
+import { RequestCancelledError, RequestDeadlineError } from '../../services/requestPolicy';
+import { extractGtin } from '../../services/barcode';
+import { findAllergenWarnings, getAllergenProfile, type AllergenWarning } from '../../services/allergens';
+import type { NutriScoreResult } from '../../services/nutriScore';
+import { lookupProductByGtin } from '../../services/openFoodFacts';
+import ProductResultCard, { type ProductFactsSource } from '../../components/ProductResultCard';
 
 export default function HomeScreen() {
   const { t } = useLanguage();
@@ -22,14 +30,97 @@ export default function HomeScreen() {
   const { user } = useAuth();
 
   const [imageUri, setImageUri] = useState<string | null>(null);
+  const [scannedGtin, setScannedGtin] = useState<string | null>(null);
+  const [isScanning, setIsScanning] = useState(false);
+  const [invalidBarcode, setInvalidBarcode] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
+  const [progressMessage, setProgressMessage] = useState<string | null>(null);
   const [productName, setProductName] = useState('');
   const [recallInfo, setRecallInfo] = useState<RecallInfo | null>(null);
   const [nutritionalInfo, setNutritionalInfo] = useState<NutritionalInfo | null>(null);
   const [description, setDescription] = useState<string | null>(null);
+  const [ingredients, setIngredients] = useState<string | null>(null);
+  const [nutriScore, setNutriScore] = useState<NutriScoreResult | null>(null);
+  // Where the product facts come from; null when the barcode matched no known product
+  const [productSource, setProductSource] = useState<ProductFactsSource | null>(null);
+  const [allergenWarnings, setAllergenWarnings] = useState<AllergenWarning[]>([]);
   const [error, setError] = useState<string | null>(null);
   const [showedFirebaseWarning, setShowedFirebaseWarning] = useState(false);
   const [firebaseErrorDetails, setFirebaseErrorDetails] = useState<string | null>(null);
+  const [cameraPermission, requestCameraPermission] = useCameraPermissions();
+
+  // Barcode events keep firing while the camera is open, so only handle the first valid one
+  const barcodeHandledRef = useRef(false);
+
+  // Scan saved for a barcode no source knew; identifying it from a photo completes that scan
+  const unknownBarcodeScanIdRef = useRef<string | null>(null);
+
+  // Lets "scan another" cancel the analysis and lookups still in flight
+  const requestControllerRef = useRef<AbortController | null>(null);
+
+  const beginRequest = (): AbortController => {
+    requestControllerRef.current?.abort();
+    const controller = new AbortController();
+    requestControllerRef.current = controller;
+    return controller;
+  };
+
+  const endRequest = (controller: AbortController) => {
+    // A newer scan may have started since
+    if (requestControllerRef.current === controller) {
+      requestControllerRef.current = null;
+      setIsLoading(false);
+      setProgressMessage(null);
+    }
+  };
+
+  const describeProgress = (progress: AnalysisProgress): string => {
+    switch (progress.stage) {
+      case 'preparing':
+        return t('preparingImage');
+      case 'uploading':
+        return t('uploadingImage');
+      case 'retrying':
+        return t('retryingIn').replace('{seconds}', String(Math.ceil((progress.retryInMs || 0) / 1000)));
+      default:
+        return t('analyzingProduct');
+    }
+  };
+
+  const startBarcodeScan = async () => {
+    try {
+      const permission = cameraPermission?.granted ? cameraPermission : await requestCameraPermission();
+      
+      if (!permission.granted) {
+        setError('Camera permission is required to scan barcodes');
+        return;
+      }
+
+      barcodeHandledRef.current = false;
+      setInvalidBarcode(false);
+      setError(null);
+      setIsScanning(true);
+    } catch (error) {
+      console.error('Error starting barcode scanner:', error);
+      setError('Failed to start the barcode scanner');
+    }
+  };
+
+  const handleBarcodeScanned = ({ data }: BarcodeScanningResult) => {
+    if (barcodeHandledRef.current) return;
+
+    // Reject misreads before any lookup; the scanner keeps running until a valid code is read
+    const gtin = extractGtin(data);
+    if (!gtin) {
+      setInvalidBarcode(true);
+      return;
+    }
+
+    barcodeHandledRef.current = true;
+    setIsScanning(false);
+    setScannedGtin(gtin);
+    processBarcode(gtin);
+  };
 
   const takePhoto = async () => {
     try {
@@ -85,42 +176,171 @@ export default function HomeScreen() {
     }
   };
 
+  const processBarcode = async (gtin: string) => {
+    const controller = beginRequest();
+    const { signal } = controller;
+    setIsLoading(true);
+    setProgressMessage(t('checkingRecalls'));
+    setError(null);
+    setRecallInfo(null);
+    setNutritionalInfo(null);
+    setDescription(null);
+    setIngredients(null);
+    setNutriScore(null);
+    setProductSource(null);
+    setAllergenWarnings([]);
+    setProductName(gtin);
+    unknownBarcodeScanIdRef.current = null;
+
+    try {
+      // The barcode identifies the product, so no vision call is needed
+      let recall: RecallInfo;
+      try {
+        console.log('Checking if barcode is recalled:', gtin);
+        recall = await verifyProductRecall(gtin, { signal });
+      } catch (recallError) {
+        if (recallError instanceof RequestCancelledError) throw recallError;
+        console.error('Error verifying recall status:', recallError);
+        recall = {
+          isRecalled: false,
+          productName: gtin,
+          manufacturer: '',
+          lotNumber: '',
+          recallDate: '',
+          recallReason: 'Unable to verify recall status at this time',
+        };
+      }
+      setProductName(recall.productName || gtin);
+
+      // Open Food Facts has the label data; otherwise reuse what an earlier photo of this product told us
+      setProgressMessage(t('lookingUpProduct'));
+      const knownProduct = await lookupProductByGtin(gtin, { signal });
+      const cachedProduct = knownProduct ? null : await getCachedProductByGtin(gtin);
+      if (signal.aborted) return;
+      const product = knownProduct || cachedProduct;
+      if (product) {
+        if (!recall.isRecalled) {
+          recall = { ...recall, productName: product.productName };
+          setProductName(product.productName);
+        }
+        setDescription(product.description);
+        setNutritionalInfo(product.nutritionalInfo);
+        setIngredients(product.ingredients);
+        setNutriScore(product.nutriScore);
+      }
+      if (knownProduct) {
+        setImageUri(knownProduct.imageUrl);
+        setProductSource({ type: 'openFoodFacts', url: knownProduct.url });
+      } else if (cachedProduct) {
+        setProductSource({ type: 'imageAnalysis' });
+      }
+      setRecallInfo(recall);
+      setAllergenWarnings(findAllergenWarnings(await getAllergenProfile(), {
+        allergens: product?.allergens,
+        mayContainAllergens: product?.mayContainAllergens,
+        ingredients: product?.ingredients,
+        recallReason: recall.isRecalled ? recall.recallReason : null,
+      }));
+
+      if (user) {
+        try {
+          const productDetails: ProductDetails = {
+            recallInfo: { ...recall, gtin },
+            nutritionalInfo: product?.nutritionalInfo || undefined,
+            nutriScore: product?.nutriScore || undefined,
+            description: product?.description || undefined,
+            imageUri: knownProduct?.imageUrl || undefined,
+            isFood: knownProduct ? true : cachedProduct?.isFood,
+            ingredients: product?.ingredients || undefined,
+            allergens: product?.allergens,
+            mayContainAllergens: product?.mayContainAllergens,
+            scanDate: new Date(),
+          };
+          
+          const scanId = await saveScanHistory(user.uid, productDetails);
+          if (!product) unknownBarcodeScanIdRef.current = scanId;
+          console.log('Scan history saved successfully');
+        } catch (saveError) {
+          console.error('Error saving scan history:', saveError);
+        }
+      }
+    } catch (error) {
+      if (error instanceof RequestCancelledError) return;
+      console.error('Error processing barcode:', error);
+      setError('Failed to process the barcode. Please try again.');
+    } finally {
+      endRequest(controller);
+    }
+  };
+
   const processImage = async (uri: string) => {
+    const controller = beginRequest();
+    const { signal } = controller;
     setIsLoading(true);
+    setProgressMessage(t('preparingImage'));
     setError(null);
     setRecallInfo(null);
     setNutritionalInfo(null);
     setDescription(null);
+    setIngredients(null);
+    setNutriScore(null);
+    setProductSource(null);
+    setAllergenWarnings([]);
 
     try {
       // Step 1: Analyze the image to identify the product and get nutritional info
       console.log('Analyzing image to identify product...');
       try {
-        const productAnalysis = await analyzeProductImage(uri);
-        
-        // Set the product name based on the analysis
-        setProductName(productAnalysis.productName);
+        const productAnalysis = await analyzeProductImage(uri, {
+          signal,
+          onProgress: progress => {
+            if (!signal.aborted) setProgressMessage(describeProgress(progress));
+          },
+        });
+        if (signal.aborted) return;
         
-        // Set the description from the analysis
-        setDescription(productAnalysis.description);
+        // Step 2: Prefer the label data from Open Food Facts over the model's reading when the barcode is known
+        // (the model's barcode, or the scanned one when this photo identifies an unknown barcode)
+        const detectedGtin = (productAnalysis.gtin ? extractGtin(productAnalysis.gtin) : null) || scannedGtin;
+        if (detectedGtin) setProgressMessage(t('lookingUpProduct'));
+        const knownProduct = detectedGtin ? await lookupProductByGtin(detectedGtin, { signal }) : null;
+        if (signal.aborted) return;
+        const product = knownProduct || productAnalysis;
+        setProductSource(knownProduct ? { type: 'openFoodFacts', url: knownProduct.url } : { type: 'imageAnalysis' });
         
-        // Set nutritional info if available
-        if (productAnalysis.nutritionalInfo) {
-          setNutritionalInfo(productAnalysis.nutritionalInfo);
+        // Set the product name, description and nutritional info
+        setProductName(product.productName);
+        setDescription(product.description);
+        if (product.nutritionalInfo) {
+          setNutritionalInfo(product.nutritionalInfo);
         }
+        setIngredients(product.ingredients);
+        setNutriScore(product.nutriScore);
         
-        // Step 2: Use the detected product name for recall verification
+        // Step 3: Use the barcode if there is one, otherwise the product name
         let recall: RecallInfo;
         try {
           console.log('Checking if product is recalled...');
-          recall = await verifyProductRecall(productAnalysis.productName);
+          setProgressMessage(t('checkingRecalls'));
+          recall = await verifyProductRecall({
+            name: productAnalysis.name,
+            brand: productAnalysis.brand,
+            gtin: detectedGtin,
+            lotNumber: productAnalysis.lotNumber,
+            expiryDate: productAnalysis.expiryDate,
+          }, { signal });
+          if (!recall.isRecalled) {
+            // Keep the identified name rather than the barcode used for the lookup
+            recall = { ...recall, productName: product.productName, gtin: detectedGtin || undefined };
+          }
           setRecallInfo(recall);
         } catch (recallError) {
+          if (recallError instanceof RequestCancelledError) throw recallError;
           console.error('Error verifying recall status:', recallError);
           // Set a neutral recall status to avoid blocking the flow
           recall = {
             isRecalled: false,
-            productName: productAnalysis.productName,
+            productName: product.productName,
             manufacturer: '',
             lotNumber: '',
             recallDate: '',
@@ -128,19 +348,36 @@ export default function HomeScreen() {
           };
           setRecallInfo(recall);
         }
+
+        // Warn about the user's allergens, from the label or from the recall reason
+        setAllergenWarnings(findAllergenWarnings(await getAllergenProfile(), {
+          allergens: product.allergens,
+          mayContainAllergens: product.mayContainAllergens,
+          ingredients: product.ingredients,
+          recallReason: recall.isRecalled ? recall.recallReason : null,
+        }));
         
-        // Step 3: Save the scan to history if user is logged in
+        // Step 4: Save the scan to history if user is logged in
         if (user) {
           try {
             const productDetails: ProductDetails = {
+              // Replaces the scan of the unknown barcode this photo identifies, instead of adding a second one
+              id: unknownBarcodeScanIdRef.current || undefined,
               recallInfo: recall,
-              nutritionalInfo: productAnalysis.nutritionalInfo || undefined,
-              description: productAnalysis.description || 'No description available',
+              nutritionalInfo: product.nutritionalInfo || undefined,
+              nutriScore: product.nutriScore || undefined,
+              description: product.description || 'No description available',
               imageUri: uri,
+              imagePath: productAnalysis.imagePath || undefined,
+              isFood: knownProduct ? true : productAnalysis.isFood,
+              ingredients: product.ingredients || undefined,
+              allergens: product.allergens,
+              mayContainAllergens: product.mayContainAllergens,
               scanDate: new Date(),
             };
             
             await saveScanHistory(user.uid, productDetails);
+            unknownBarcodeScanIdRef.current = null;
             console.log('Scan history saved successfully');
           } catch (saveError) {
             console.error('Error saving scan history:', saveError);
@@ -148,23 +385,45 @@ export default function HomeScreen() {
           }
         }
       } catch (analysisError) {
+        if (analysisError instanceof RequestCancelledError) return;
         console.error('Error analyzing image:', analysisError);
-        setError('Could not analyze the image. Please try again with a clearer picture of the product.');
+        setError(
+          analysisError instanceof ProductAnalysisValidationError
+            ? 'The product could not be identified reliably from this picture. Please try again with a clearer picture of the packaging.'
+            : analysisError instanceof VisionProviderError && analysisError.status === 429
+              ? 'You have reached your daily limit of image analyses. You can still scan barcodes or search for products.'
+              : analysisError instanceof RequestDeadlineError
+                ? 'The analysis is taking too long. Please check your connection and try again.'
+                : 'Could not analyze the image. Please try again with a clearer picture of the product.'
+        );
       }
     } catch (error) {
       console.error('Error processing image:', error);
       setError('Failed to process the image. Please try again.');
     } finally {
-      setIsLoading(false);
+      endRequest(controller);
     }
   };
 
   const resetScan = () => {
+    // Stop any analysis or lookup still running for the previous scan
+    requestControllerRef.current?.abort();
+    requestControllerRef.current = null;
+    setIsLoading(false);
+    setProgressMessage(null);
     setImageUri(null);
+    setScannedGtin(null);
+    unknownBarcodeScanIdRef.current = null;
+    setIsScanning(false);
+    setInvalidBarcode(false);
     setProductName('');
     setRecallInfo(null);
     setNutritionalInfo(null);
     setDescription(null);
+    setIngredients(null);
+    setNutriScore(null);
+    setProductSource(null);
+    setAllergenWarnings([]);
     setError(null);
   };
 
@@ -214,18 +473,60 @@ export default function HomeScreen() {
     };
   }, []);
 
+  if (isScanning) {
+    return (
+      <View style={[styles.container, { backgroundColor: 'black' }]}>
+        <StatusBar style="light" />
+        <CameraView
+          style={styles.camera}
+          facing="back"
+          barcodeScannerSettings={{ barcodeTypes: ['ean13', 'ean8', 'upc_a', 'qr'] }}
+          onBarcodeScanned={handleBarcodeScanned}
+        />
+        <View style={styles.scannerOverlay}>
+          <Text style={styles.scannerHint}>
+            {invalidBarcode ? t('invalidBarcode') : t('pointAtBarcode')}
+          </Text>
+          <Button
+            mode="contained"
+            onPress={() => setIsScanning(false)}
+            style={styles.button}
+            icon="close"
+          >
+            {t('cancel')}
+          </Button>
+        </View>
+      </View>
+    );
+  }
+
   return (
     <View style={[styles.container, { backgroundColor: theme.colors.background }]}>
       <StatusBar style={isDarkTheme ? 'light' : 'dark'} />
       
       <ScrollView contentContainerStyle={styles.scrollContent}>
-        {!imageUri ? (
+        {!imageUri && !scannedGtin ? (
           <View style={styles.scanContainer}>
             <Text style={[styles.title, { color: theme.colors.text }]}>
               {t('scanProduct')}
             </Text>
             
+            {error && (
+              <Text style={styles.errorText}>{error}</Text>
+            )}
+            
             <View style={styles.buttonContainer}>
+              <Button
+                mode="contained"
+                onPress={startBarcodeScan}
+                style={styles.button}
+                contentStyle={styles.buttonContent}
+                labelStyle={styles.buttonLabel}
+                icon="barcode-scan"
+              >
+                {t('scanBarcode')}
+              </Button>
+              
               <Button
                 mode="contained"
                 onPress={takePhoto}
@@ -255,135 +556,48 @@ export default function HomeScreen() {
               <View style={styles.loadingContainer}>
                 <ActivityIndicator size="large" color={theme.colors.primary} />
                 <Text style={{ color: theme.colors.text, marginTop: 20 }}>
-                  Analyzing product...
+                  {progressMessage || t('analyzingProduct')}
                 </Text>
+                <Button
+                  mode="text"
+                  onPress={resetScan}
+                  style={styles.button}
+                  icon="close"
+                >
+                  {t('cancel')}
+                </Button>
               </View>
             ) : (
               <>
-                <Card style={styles.card}>
-                  <Card.Cover source={{ uri: imageUri }} style={styles.productImage} />
-                  
-                  <Card.Title
-                    title={productName}
-                    titleStyle={{ fontWeight: 'bold', fontSize: 20 }}
-                  />
-                  
-                  <Card.Content>
-                    {error ? (
-                      <Text style={styles.errorText}>{error}</Text>
-                    ) : (
-                      <>
-                        {recallInfo && (
-                          <View style={styles.recallContainer}>
-                            <View style={[
-                              styles.recallBadge,
-                              { backgroundColor: recallInfo.isRecalled ? '#FF3B30' : '#34C759' }
-                            ]}>
-                              <Text style={styles.recallText}>
-                                {recallInfo.isRecalled ? t('recalled') : t('notRecalled')}
-                              </Text>
-                            </View>
-                            
-                            {recallInfo.isRecalled && (
-                              <View style={styles.recallDetails}>
-                                <Text style={{ color: theme.colors.text, fontWeight: 'bold' }}>
-                                  {t('recallReason')}:
-                                </Text>
-                                <Text style={{ color: theme.colors.text }}>
-                                  {recallInfo.recallReason}
-                                </Text>
-                                
-                                <Text style={{ color: theme.colors.text, fontWeight: 'bold', marginTop: 10 }}>
-                                  {t('manufacturer')}:
-                                </Text>
-                                <Text style={{ color: theme.colors.text }}>
-                                  {recallInfo.manufacturer}
-                                </Text>
-                                
-                                <Text style={{ color: theme.colors.text, fontWeight: 'bold', marginTop: 10 }}>
-                                  {t('lotNumber')}:
-                                </Text>
-                                <Text style={{ color: theme.colors.text }}>
-                                  {recallInfo.lotNumber}
-                                </Text>
-                                
-                                <Text style={{ color: theme.colors.text, fontWeight: 'bold', marginTop: 10 }}>
-                                  {t('recallDate')}:
-                                </Text>
-                                <Text style={{ color: theme.colors.text }}>
-                                  {recallInfo.recallDate}
-                                </Text>
-                              </View>
-                            )}
-                          </View>
-                        )}
-                        
-                        {description && (
-                          <View style={styles.section}>
-                            <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>
-                              {t('productDetails')}
-                            </Text>
-                            <Text style={{ color: theme.colors.text }}>
-                              {description}
-                            </Text>
-                          </View>
-                        )}
-                        
-                        {nutritionalInfo && (
-                          <View style={styles.section}>
-                            <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>
-                              {t('nutritionalInfo')}
-                            </Text>
-                            
-                            <View style={styles.nutritionTable}>
-                              <View style={styles.nutritionRow}>
-                                <Text style={[styles.nutritionLabel, { color: theme.colors.text }]}>
-                                  {t('calories')}:
-                                </Text>
-                                <Text style={[styles.nutritionValue, { color: theme.colors.text }]}>
-                                  {nutritionalInfo.calories}
-                                </Text>
-                              </View>
-                              
-                              <Divider style={styles.divider} />
-                              
-                              <View style={styles.nutritionRow}>
-                                <Text style={[styles.nutritionLabel, { color: theme.colors.text }]}>
-                                  {t('fats')}:
-                                </Text>
-                                <Text style={[styles.nutritionValue, { color: theme.colors.text }]}>
-                                  {nutritionalInfo.fats}
-                                </Text>
-                              </View>
-                              
-                              <Divider style={styles.divider} />
-                              
-                              <View style={styles.nutritionRow}>
-                                <Text style={[styles.nutritionLabel, { color: theme.colors.text }]}>
-                                  {t('carbs')}:
-                                </Text>
-                                <Text style={[styles.nutritionValue, { color: theme.colors.text }]}>
-                                  {nutritionalInfo.carbs}
-                                </Text>
-                              </View>
-                              
-                              <Divider style={styles.divider} />
-                              
-                              <View style={styles.nutritionRow}>
-                                <Text style={[styles.nutritionLabel, { color: theme.colors.text }]}>
-                                  {t('proteins')}:
-                                </Text>
-                                <Text style={[styles.nutritionValue, { color: theme.colors.text }]}>
-                                  {nutritionalInfo.proteins}
-                                </Text>
-                              </View>
-                            </View>
-                          </View>
-                        )}
-                      </>
-                    )}
-                  </Card.Content>
-                </Card>
+                <ProductResultCard
+                  productName={productName}
+                  subtitle={scannedGtin ? `${t('barcode')}: ${scannedGtin}` : undefined}
+                  imageUri={imageUri}
+                  recallInfo={recallInfo}
+                  description={description}
+                  nutritionalInfo={nutritionalInfo}
+                  nutriScore={nutriScore}
+                  ingredients={ingredients}
+                  allergenWarnings={allergenWarnings}
+                  source={productSource}
+                  error={error}
+                />
+                
+                {scannedGtin && !productSource && !error && (
+                  <View style={styles.unknownProduct}>
+                    <Text style={[styles.unknownProductText, { color: theme.colors.text }]}>
+                      {t('productNotFound')}
+                    </Text>
+                    <Button
+                      mode="outlined"
+                      onPress={takePhoto}
+                      style={styles.button}
+                      icon="camera"
+                    >
+                      {t('identifyFromPhoto')}
+                    </Button>
+                  </View>
+                )}
                 
                 <Button
                   mode="contained"
@@ -447,54 +661,29 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     padding: 20,
   },
-  card: {
+  unknownProduct: {
     marginBottom: 20,
   },
-  productImage: {
-    height: 200,
+  unknownProductText: {
+    fontSize: 16,
+    textAlign: 'center',
   },
-  recallContainer: {
-    marginVertical: 15,
+  camera: {
+    flex: 1,
   },
-  recallBadge: {
-    alignSelf: 'flex-start',
-    paddingHorizontal: 15,
-    paddingVertical: 5,
-    borderRadius: 20,
-    marginBottom: 10,
+  scannerOverlay: {
+    position: 'absolute',
+    left: 20,
+    right: 20,
+    bottom: 40,
+    alignItems: 'center',
   },
-  recallText: {
+  scannerHint: {
     color: 'white',
-    fontWeight: 'bold',
-  },
-  recallDetails: {
-    marginTop: 10,
-  },
-  section: {
-    marginTop: 20,
-  },
-  sectionTitle: {
-    fontSize: 18,
-    fontWeight: 'bold',
+    fontSize: 16,
+    textAlign: 'center',
     marginBottom: 10,
   },
-  nutritionTable: {
-    marginTop: 10,
-  },
-  nutritionRow: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-    paddingVertical: 8,
-  },
-  nutritionLabel: {
-    fontWeight: 'bold',
-  },
-  nutritionValue: {
-    textAlign: 'right',
-  },
-  divider: {
-    height: 1,
-  },
   errorText: {
     color: 'red',
     textAlign: 'center',
@@ -1,26 +1,95 @@
-import React, { useState, useEffect } from 'react';
-import { StyleSheet, View, Text, FlatList, ActivityIndicator } from 'react-native';
-import { Card, Chip, Divider } from 'react-native-paper';
+import React, { useState, useEffect, useMemo, useRef, useCallback } from 'react';
+import { StyleSheet, View, Text, SectionList, ScrollView, ActivityIndicator, Alert, TouchableOpacity } from 'react-native';
+import { Button, Card, Chip, Divider, IconButton, Menu, Modal, Portal, Searchbar, TextInput } from 'react-native-paper';
+import Swipeable from 'react-native-gesture-handler/Swipeable';
+import { MaterialIcons } from '@expo/vector-icons';
 import { StatusBar } from 'expo-status-bar';
 import { useLanguage } from '../../hooks/useLanguage';
 import { useTheme } from '../../hooks/useTheme';
 import { useAuth } from '../../hooks/useAuth';
-import { getScanHistory, type ProductDetails } from '../../services/productService';
+import {
+  getScanHistoryPage,
+  queryScanHistory,
+  subscribeToNewScans,
+  updateScan,
+  deleteScan,
+  filterScanHistory,
+  groupScanHistoryByDay,
+  type ProductDetails,
+  type ScanHistoryCursor,
+  type ScanHistorySort
+} from '../../services/productService';
+import NutritionTable from '../../components/NutritionTable';
+import NutriScoreBadge from '../../components/NutriScoreBadge';
+
+type DateRange = 'all' | 'today' | 'last7Days' | 'last30Days';
+
+const SORT_OPTIONS: { value: ScanHistorySort; label: 'sortNewest' | 'sortOldest' | 'sortName' | 'sortRecalledFirst' }[] = [
+  { value: 'newest', label: 'sortNewest' },
+  { value: 'oldest', label: 'sortOldest' },
+  { value: 'name', label: 'sortName' },
+  { value: 'recalledFirst', label: 'sortRecalledFirst' },
+];
+
+/**
+ * Start of the selected date range, or null for all time
+ */
+const getRangeStart = (range: DateRange): Date | null => {
+  if (range === 'all') return null;
+  const start = new Date();
+  start.setHours(0, 0, 0, 0);
+  if (range === 'last7Days') start.setDate(start.getDate() - 6);
+  if (range === 'last30Days') start.setDate(start.getDate() - 29);
+  return start;
+};
 
 export default function ScanHistoryScreen() {
   const { t } = useLanguage();
   const { theme, isDarkTheme } = useTheme();
   const { user } = useAuth();
 
-  const [scanHistory, setScanHistory] = useState<ProductDetails[]>([]);
+  const [pagedScans, setPagedScans] = useState<ProductDetails[]>([]);
+  // Whole history, loaded once a filter or another sort needs every scan
+  const [fullHistory, setFullHistory] = useState<ProductDetails[] | null>(null);
+  const [isLoadingFull, setIsLoadingFull] = useState(false);
+  const loadingFullRef = useRef(false);
+  const [newScans, setNewScans] = useState<ProductDetails[]>([]);
+  const [cursor, setCursor] = useState<ScanHistoryCursor | null>(null);
+  // Scans newer than this are followed live; undefined when live updates are off
+  const [liveSince, setLiveSince] = useState<Date | null | undefined>(undefined);
   const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const loadingMoreRef = useRef(false);
   const [error, setError] = useState<string | null>(null);
+  const [search, setSearch] = useState('');
+  const [recalledOnly, setRecalledOnly] = useState(false);
+  const [foodOnly, setFoodOnly] = useState(false);
+  const [dateRange, setDateRange] = useState<DateRange>('all');
+  const [sort, setSort] = useState<ScanHistorySort>('newest');
+  const [sortMenuVisible, setSortMenuVisible] = useState(false);
+  // Scan being edited in the edit sheet, with the edited values
+  const [editingScan, setEditingScan] = useState<ProductDetails | null>(null);
+  const [editForm, setEditForm] = useState({ productName: '', manufacturer: '', description: '' });
+  const [isSaving, setIsSaving] = useState(false);
+  const swipeableRefs = useRef<Record<string, Swipeable | null>>({});
 
-  useEffect(() => {
-    loadScanHistory();
-  }, [user]);
+  // Pages only hold the newest scans: searching, filtering or sorting them differently
+  // would miss older ones
+  const isQueryActive = !!search.trim() || recalledOnly || foodOnly || dateRange !== 'all' || sort !== 'newest';
+  const loadedScans = isQueryActive && fullHistory ? fullHistory : pagedScans;
 
-  const loadScanHistory = async () => {
+  // Live scans first, then loaded pages (or the whole history), without duplicates
+  const scanHistory = useMemo(() => {
+    const seen = new Set<string>();
+    return [...newScans, ...loadedScans].filter(item => {
+      const key = item.id || `${item.recallInfo.productName}-${item.scanDate.getTime()}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  }, [newScans, loadedScans]);
+
+  const loadScanHistory = useCallback(async () => {
     if (!user) {
       setIsLoading(false);
       return;
@@ -29,14 +98,141 @@ export default function ScanHistoryScreen() {
     try {
       setIsLoading(true);
       setError(null);
-      const history = await getScanHistory(user.uid);
-      setScanHistory(history);
+      const page = await getScanHistoryPage(user.uid);
+      setPagedScans(page.items);
+      setFullHistory(null);
+      setNewScans([]);
+      setCursor(page.cursor);
+      // Scans waiting to be uploaded are not in Firestore yet, so they cannot anchor the listener
+      setLiveSince(page.source === 'firestore'
+        ? page.items.find(item => !item.pendingSync)?.scanDate ?? null
+        : undefined);
     } catch (error) {
       console.error('Error loading scan history:', error);
       setError('Failed to load scan history');
     } finally {
       setIsLoading(false);
     }
+  }, [user]);
+
+  useEffect(() => {
+    loadScanHistory();
+  }, [loadScanHistory]);
+
+  useEffect(() => {
+    if (!user || !isQueryActive || fullHistory || loadingFullRef.current) return;
+
+    loadingFullRef.current = true;
+    setIsLoadingFull(true);
+    queryScanHistory(user.uid)
+      .then(setFullHistory)
+      .catch(error => console.error('Error loading the full scan history:', error))
+      .finally(() => {
+        loadingFullRef.current = false;
+        setIsLoadingFull(false);
+      });
+  }, [user, isQueryActive, fullHistory]);
+
+  // Show scans saved after the first page was loaded (e.g. from another device)
+  useEffect(() => {
+    if (!user || liveSince === undefined) return;
+    return subscribeToNewScans(user.uid, liveSince, setNewScans);
+  }, [user, liveSince]);
+
+  const loadMore = async () => {
+    // The whole history is already shown while a query is active
+    if (!user || !cursor || isQueryActive || loadingMoreRef.current) return;
+
+    try {
+      loadingMoreRef.current = true;
+      setIsLoadingMore(true);
+      const page = await getScanHistoryPage(user.uid, cursor);
+      setPagedScans(previous => [...previous, ...page.items]);
+      setCursor(page.cursor);
+    } catch (error) {
+      console.error('Error loading more scan history:', error);
+    } finally {
+      loadingMoreRef.current = false;
+      setIsLoadingMore(false);
+    }
+  };
+
+  // Apply a change to a scan wherever it is shown
+  const replaceScan = (scanId: string, update: (scan: ProductDetails) => ProductDetails | null) => {
+    const apply = (scans: ProductDetails[]) => scans.flatMap(scan => {
+      if (scan.id !== scanId) return [scan];
+      const updated = update(scan);
+      return updated ? [updated] : [];
+    });
+    setPagedScans(apply);
+    setFullHistory(scans => scans && apply(scans));
+    setNewScans(apply);
+  };
+
+  const confirmDelete = (item: ProductDetails) => {
+    if (!user || !item.id) return;
+    const scanId = item.id;
+
+    Alert.alert(
+      t('deleteScanTitle'),
+      t('deleteScanConfirm'),
+      [
+        { text: t('cancel'), style: 'cancel', onPress: () => swipeableRefs.current[scanId]?.close() },
+        {
+          text: t('delete'),
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteScan(user.uid, scanId);
+              replaceScan(scanId, () => null);
+            } catch (error) {
+              console.error('Error deleting scan:', error);
+              swipeableRefs.current[scanId]?.close();
+              Alert.alert(t('error'), t('deleteFailed'));
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const openEditSheet = (item: ProductDetails) => {
+    setEditingScan(item);
+    setEditForm({
+      productName: item.recallInfo.productName || '',
+      manufacturer: item.recallInfo.manufacturer || '',
+      description: item.description || '',
+    });
+  };
+
+  const saveEdit = async () => {
+    if (!user || !editingScan?.id) return;
+    const scanId = editingScan.id;
+    const changes = {
+      productName: editForm.productName.trim(),
+      manufacturer: editForm.manufacturer.trim(),
+      description: editForm.description.trim(),
+    };
+
+    try {
+      setIsSaving(true);
+      await updateScan(user.uid, scanId, changes);
+      replaceScan(scanId, scan => ({
+        ...scan,
+        description: changes.description,
+        recallInfo: {
+          ...scan.recallInfo,
+          productName: changes.productName,
+          manufacturer: changes.manufacturer,
+        },
+      }));
+      setEditingScan(null);
+    } catch (error) {
+      console.error('Error updating scan:', error);
+      Alert.alert(t('error'), t('updateFailed'));
+    } finally {
+      setIsSaving(false);
+    }
   };
 
   const formatDate = (date: Date) => {
@@ -49,8 +245,39 @@ export default function ScanHistoryScreen() {
     });
   };
 
+  const formatDay = useCallback((date: Date) => {
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    const days = Math.round((today.getTime() - date.getTime()) / (24 * 60 * 60 * 1000));
+    if (days === 0) return t('today');
+    if (days === 1) return t('yesterday');
+    return date.toLocaleDateString(undefined, {
+      weekday: 'long',
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+    });
+  }, [t]);
+
+  // Date sorts are grouped by day, other sorts are shown as a single list
+  const sections = useMemo(() => {
+    const visible = filterScanHistory(scanHistory, {
+      search,
+      recalledOnly,
+      foodOnly,
+      from: getRangeStart(dateRange),
+      sort,
+    });
+    if (sort !== 'newest' && sort !== 'oldest') {
+      return visible.length > 0 ? [{ title: '', data: visible }] : [];
+    }
+    return groupScanHistoryByDay(visible).map(group => ({ title: formatDay(group.date), data: group.items }));
+  }, [scanHistory, search, recalledOnly, foodOnly, dateRange, sort, formatDay]);
+
   const renderItem = ({ item }: { item: ProductDetails }) => {
-    return (
+    const isPossibleMatch = item.recallInfo.isRecalled && item.recallInfo.matchLevel === 'possible';
+
+    const card = (
       <Card style={styles.card}>
         {item.imageUri && (
           <Card.Cover source={{ uri: item.imageUri }} style={styles.productImage} />
@@ -60,6 +287,9 @@ export default function ScanHistoryScreen() {
           title={item.recallInfo.productName}
           subtitle={formatDate(item.scanDate)}
           titleStyle={{ fontWeight: 'bold' }}
+          right={props => item.id ? (
+            <IconButton {...props} icon="pencil" onPress={() => openEditSheet(item)} accessibilityLabel={t('edit')} />
+          ) : null}
         />
         
         <Card.Content>
@@ -67,15 +297,32 @@ export default function ScanHistoryScreen() {
             style={[
               styles.recallChip,
               {
-                backgroundColor: item.recallInfo.isRecalled
-                  ? '#FF3B30'
-                  : '#34C759',
+                backgroundColor: !item.recallInfo.isRecalled
+                  ? '#34C759'
+                  : isPossibleMatch
+                    ? '#FF9500'
+                    : '#FF3B30',
               },
             ]}
             textStyle={{ color: 'white', fontWeight: 'bold' }}
           >
-            {item.recallInfo.isRecalled ? t('recalled') : t('notRecalled')}
+            {!item.recallInfo.isRecalled ? t('notRecalled') : isPossibleMatch ? t('possibleRecall') : t('recalled')}
           </Chip>
+
+          {item.pendingSync && (
+            <View style={styles.pendingSync}>
+              <MaterialIcons name="cloud-upload" size={16} color={theme.colors.text} />
+              <Text style={[styles.pendingSyncText, { color: theme.colors.text }]}>
+                {t('pendingSync')}
+              </Text>
+            </View>
+          )}
+
+          {item.nutriScore && (
+            <View style={styles.nutriScore}>
+              <NutriScoreBadge nutriScore={item.nutriScore} compact />
+            </View>
+          )}
           
           {item.recallInfo.isRecalled && (
             <View style={styles.recallDetails}>
@@ -103,28 +350,31 @@ export default function ScanHistoryScreen() {
                 {t('nutritionalInfo')}
               </Text>
               
-              <View style={styles.nutritionRow}>
-                <Text style={[styles.nutritionLabel, { color: theme.colors.text }]}>
-                  {t('calories')}:
-                </Text>
-                <Text style={{ color: theme.colors.text }}>
-                  {item.nutritionalInfo.calories}
-                </Text>
-              </View>
-              
-              <View style={styles.nutritionRow}>
-                <Text style={[styles.nutritionLabel, { color: theme.colors.text }]}>
-                  {t('proteins')}:
-                </Text>
-                <Text style={{ color: theme.colors.text }}>
-                  {item.nutritionalInfo.proteins}
-                </Text>
-              </View>
+              <NutritionTable nutritionalInfo={item.nutritionalInfo} />
             </View>
           )}
         </Card.Content>
       </Card>
     );
+
+    // Scans without an id cannot be deleted
+    if (!item.id) return card;
+    const scanId = item.id;
+
+    return (
+      <Swipeable
+        ref={ref => { swipeableRefs.current[scanId] = ref; }}
+        renderRightActions={() => (
+          <TouchableOpacity style={styles.deleteAction} onPress={() => confirmDelete(item)}>
+            <MaterialIcons name="delete" size={28} color="white" />
+            <Text style={styles.deleteActionText}>{t('delete')}</Text>
+          </TouchableOpacity>
+        )}
+        overshootRight={false}
+      >
+        {card}
+      </Swipeable>
+    );
   };
 
   if (isLoading) {
@@ -167,15 +417,143 @@ export default function ScanHistoryScreen() {
     );
   }
 
+  const dateRanges: Exclude<DateRange, 'all'>[] = ['today', 'last7Days', 'last30Days'];
+  const sortLabel = SORT_OPTIONS.find(option => option.value === sort)?.label || 'sortNewest';
+
   return (
     <View style={[styles.container, { backgroundColor: theme.colors.background }]}>
       <StatusBar style={isDarkTheme ? 'light' : 'dark'} />
-      <FlatList
-        data={scanHistory}
+
+      <Searchbar
+        placeholder={t('searchHistory')}
+        value={search}
+        onChangeText={setSearch}
+        autoCapitalize="none"
+        style={styles.searchbar}
+      />
+
+      <View style={styles.filterRow}>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chips}>
+          <Chip
+            selected={recalledOnly}
+            showSelectedCheck
+            onPress={() => setRecalledOnly(!recalledOnly)}
+            style={styles.filterChip}
+          >
+            {t('recalledOnly')}
+          </Chip>
+          <Chip
+            selected={foodOnly}
+            showSelectedCheck
+            onPress={() => setFoodOnly(!foodOnly)}
+            style={styles.filterChip}
+          >
+            {t('foodOnly')}
+          </Chip>
+          {dateRanges.map(range => (
+            <Chip
+              key={range}
+              selected={dateRange === range}
+              showSelectedCheck
+              onPress={() => setDateRange(dateRange === range ? 'all' : range)}
+              style={styles.filterChip}
+            >
+              {t(range)}
+            </Chip>
+          ))}
+        </ScrollView>
+
+        <Menu
+          visible={sortMenuVisible}
+          onDismiss={() => setSortMenuVisible(false)}
+          anchor={
+            <Button compact icon="sort" onPress={() => setSortMenuVisible(true)}>
+              {t(sortLabel)}
+            </Button>
+          }
+        >
+          {SORT_OPTIONS.map(option => (
+            <Menu.Item
+              key={option.value}
+              title={t(option.label)}
+              leadingIcon={option.value === sort ? 'check' : undefined}
+              onPress={() => {
+                setSort(option.value);
+                setSortMenuVisible(false);
+              }}
+            />
+          ))}
+        </Menu>
+      </View>
+
+      <SectionList
+        sections={sections}
         renderItem={renderItem}
-        keyExtractor={(item, index) => `${item.recallInfo.productName}-${index}`}
+        renderSectionHeader={({ section }) => section.title ? (
+          <Text style={[styles.sectionHeader, { color: theme.colors.text, backgroundColor: theme.colors.background }]}>
+            {section.title}
+          </Text>
+        ) : null}
+        keyExtractor={(item, index) => item.id || `${item.recallInfo.productName}-${item.scanDate.getTime()}-${index}`}
         contentContainerStyle={styles.listContent}
+        onEndReached={loadMore}
+        onEndReachedThreshold={0.5}
+        ListFooterComponent={isLoadingMore || isLoadingFull ? (
+          <ActivityIndicator style={styles.footerLoader} color={theme.colors.primary} />
+        ) : null}
+        ListEmptyComponent={
+          <Text style={{ color: theme.colors.text, textAlign: 'center', marginTop: 40 }}>
+            {t('noMatchingScans')}
+          </Text>
+        }
+        keyboardShouldPersistTaps="handled"
       />
+
+      <Portal>
+        <Modal
+          visible={editingScan !== null}
+          onDismiss={() => !isSaving && setEditingScan(null)}
+          contentContainerStyle={[styles.editSheet, { backgroundColor: theme.colors.surface }]}
+          style={styles.editSheetContainer}
+        >
+          <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>{t('editScan')}</Text>
+          <TextInput
+            mode="outlined"
+            label={t('productNameLabel')}
+            value={editForm.productName}
+            onChangeText={productName => setEditForm(form => ({ ...form, productName }))}
+            style={styles.editInput}
+          />
+          <TextInput
+            mode="outlined"
+            label={t('manufacturer')}
+            value={editForm.manufacturer}
+            onChangeText={manufacturer => setEditForm(form => ({ ...form, manufacturer }))}
+            style={styles.editInput}
+          />
+          <TextInput
+            mode="outlined"
+            label={t('description')}
+            value={editForm.description}
+            onChangeText={description => setEditForm(form => ({ ...form, description }))}
+            multiline
+            style={styles.editInput}
+          />
+          <View style={styles.editActions}>
+            <Button onPress={() => setEditingScan(null)} disabled={isSaving}>
+              {t('cancel')}
+            </Button>
+            <Button
+              mode="contained"
+              onPress={saveEdit}
+              loading={isSaving}
+              disabled={isSaving || !editForm.productName.trim()}
+            >
+              {t('save')}
+            </Button>
+          </View>
+        </Modal>
+      </Portal>
     </View>
   );
 }
@@ -191,6 +569,30 @@ const styles = StyleSheet.create({
   },
   listContent: {
     padding: 16,
+    paddingTop: 0,
+  },
+  searchbar: {
+    marginHorizontal: 16,
+    marginTop: 16,
+  },
+  filterRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  chips: {
+    paddingHorizontal: 16,
+  },
+  filterChip: {
+    marginRight: 8,
+  },
+  footerLoader: {
+    marginVertical: 16,
+  },
+  sectionHeader: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    paddingVertical: 8,
   },
   card: {
     marginBottom: 16,
@@ -202,6 +604,18 @@ const styles = StyleSheet.create({
     alignSelf: 'flex-start',
     marginVertical: 10,
   },
+  pendingSync: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  pendingSyncText: {
+    marginLeft: 6,
+    fontSize: 12,
+    opacity: 0.7,
+  },
+  nutriScore: {
+    marginBottom: 10,
+  },
   recallDetails: {
     marginTop: 15,
   },
@@ -220,12 +634,34 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     marginBottom: 10,
   },
-  nutritionRow: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-    marginBottom: 5,
+  deleteAction: {
+    backgroundColor: '#FF3B30',
+    justifyContent: 'center',
+    alignItems: 'center',
+    width: 96,
+    marginBottom: 16,
+    borderRadius: 12,
+    marginLeft: 8,
   },
-  nutritionLabel: {
+  deleteActionText: {
+    color: 'white',
     fontWeight: 'bold',
+    marginTop: 4,
+  },
+  editSheetContainer: {
+    justifyContent: 'flex-end',
+  },
+  editSheet: {
+    padding: 20,
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+  },
+  editInput: {
+    marginBottom: 12,
+  },
+  editActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 8,
   },
 }); 
\ No newline at end of file
@@ -0,0 +1,207 @@
+import React, { useState } from 'react';
+import { StyleSheet, View, Text, FlatList, ScrollView, ActivityIndicator, Alert } from 'react-native';
+import { Button, List, Searchbar } from 'react-native-paper';
+import { StatusBar } from 'expo-status-bar';
+import { useLanguage } from '../../hooks/useLanguage';
+import { useTheme } from '../../hooks/useTheme';
+import { useAuth } from '../../hooks/useAuth';
+import {
+  searchRecalls,
+  saveScanHistory,
+  type RecallInfo,
+  type ProductDetails
+} from '../../services/productService';
+import { findAllergenWarnings, getAllergenProfile, type AllergenWarning } from '../../services/allergens';
+import ProductResultCard from '../../components/ProductResultCard';
+
+export default function SearchScreen() {
+  const { t } = useLanguage();
+  const { theme, isDarkTheme } = useTheme();
+  const { user } = useAuth();
+
+  const [searchText, setSearchText] = useState('');
+  const [results, setResults] = useState<RecallInfo[]>([]);
+  const [hasSearched, setHasSearched] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<RecallInfo | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isSaved, setIsSaved] = useState(false);
+  const [allergenWarnings, setAllergenWarnings] = useState<AllergenWarning[]>([]);
+
+  const runSearch = async () => {
+    const trimmed = searchText.trim();
+    if (!trimmed) return;
+
+    try {
+      setIsLoading(true);
+      setError(null);
+      setSelected(null);
+      const found = await searchRecalls(trimmed);
+      setResults(found);
+      setHasSearched(true);
+    } catch (error) {
+      console.error('Error searching products:', error);
+      setError(t('error'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const selectResult = async (item: RecallInfo) => {
+    setSelected(item);
+    setIsSaved(false);
+    // Many recalls are for undeclared allergens
+    setAllergenWarnings([]);
+    setAllergenWarnings(findAllergenWarnings(await getAllergenProfile(), { recallReason: item.recallReason }));
+  };
+
+  const saveSelected = async () => {
+    if (!user || !selected) return;
+
+    try {
+      setIsSaving(true);
+      const productDetails: ProductDetails = {
+        recallInfo: selected,
+        scanDate: new Date(),
+      };
+
+      await saveScanHistory(user.uid, productDetails);
+      setIsSaved(true);
+      console.log('Search result saved to scan history');
+    } catch (error) {
+      console.error('Error saving search result:', error);
+      Alert.alert(t('error'), 'Failed to save this product to your history.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (selected) {
+    return (
+      <View style={[styles.container, { backgroundColor: theme.colors.background }]}>
+        <StatusBar style={isDarkTheme ? 'light' : 'dark'} />
+        <ScrollView contentContainerStyle={styles.detailContent}>
+          <ProductResultCard
+            productName={selected.productName}
+            subtitle={selected.gtin ? `${t('barcode')}: ${selected.gtin}` : undefined}
+            recallInfo={selected}
+            allergenWarnings={allergenWarnings}
+          />
+
+          {user && (
+            <Button
+              mode="contained"
+              onPress={saveSelected}
+              style={styles.button}
+              contentStyle={styles.buttonContent}
+              labelStyle={styles.buttonLabel}
+              loading={isSaving}
+              disabled={isSaving || isSaved}
+              icon={isSaved ? 'check' : 'content-save'}
+            >
+              {isSaved ? t('savedToHistory') : t('saveToHistory')}
+            </Button>
+          )}
+
+          <Button
+            mode="outlined"
+            onPress={() => setSelected(null)}
+            style={styles.button}
+            contentStyle={styles.buttonContent}
+            labelStyle={styles.buttonLabel}
+            icon="arrow-left"
+          >
+            {t('backToResults')}
+          </Button>
+        </ScrollView>
+      </View>
+    );
+  }
+
+  return (
+    <View style={[styles.container, { backgroundColor: theme.colors.background }]}>
+      <StatusBar style={isDarkTheme ? 'light' : 'dark'} />
+
+      <Searchbar
+        placeholder={t('searchPlaceholder')}
+        value={searchText}
+        onChangeText={setSearchText}
+        onSubmitEditing={runSearch}
+        onIconPress={runSearch}
+        returnKeyType="search"
+        autoCapitalize="none"
+        style={styles.searchbar}
+      />
+
+      {isLoading ? (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={theme.colors.primary} />
+        </View>
+      ) : error ? (
+        <View style={styles.centered}>
+          <Text style={{ color: theme.colors.error, textAlign: 'center' }}>{error}</Text>
+          <Button mode="text" onPress={runSearch}>
+            {t('retry')}
+          </Button>
+        </View>
+      ) : hasSearched && results.length === 0 ? (
+        <View style={styles.centered}>
+          <Text style={{ color: theme.colors.text, textAlign: 'center' }}>
+            {t('noResults')}
+          </Text>
+        </View>
+      ) : (
+        <FlatList
+          data={results}
+          keyExtractor={(item, index) => item.recallId || `${item.productName}-${index}`}
+          contentContainerStyle={styles.listContent}
+          renderItem={({ item }) => (
+            <List.Item
+              title={item.productName}
+              titleStyle={{ color: theme.colors.text, fontWeight: 'bold' }}
+              description={[item.manufacturer, item.recallDate].filter(Boolean).join(' · ')}
+              descriptionStyle={{ color: theme.colors.text }}
+              left={props => <List.Icon {...props} icon="alert-circle" color="#FF3B30" />}
+              right={props => <List.Icon {...props} icon="chevron-right" color={theme.colors.text} />}
+              onPress={() => selectResult(item)}
+            />
+          )}
+        />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  searchbar: {
+    margin: 16,
+  },
+  listContent: {
+    paddingHorizontal: 8,
+    paddingBottom: 16,
+  },
+  detailContent: {
+    flexGrow: 1,
+    padding: 20,
+  },
+  button: {
+    marginVertical: 8,
+  },
+  buttonContent: {
+    paddingVertical: 8,
+  },
+  buttonLabel: {
+    fontSize: 16,
+    fontWeight: '500',
+  },
+});
@@ -1,6 +1,6 @@
-import React from 'react';
+import React, { useState, useEffect } from 'react';
 import { StyleSheet, View, Text, ScrollView, Alert, Platform } from 'react-native';
-import { List, Switch, Divider, Button } from 'react-native-paper';
+import { List, Switch, Divider, Button, Chip } from 'react-native-paper';
 import { StatusBar } from 'expo-status-bar';
 import { router } from 'expo-router';
 import { useLanguage } from '../../hooks/useLanguage';
@@ -8,11 +8,156 @@ import { useTheme } from '../../hooks/useTheme';
 import { useAuth } from '../../hooks/useAuth';
 import { Language } from '../../contexts/LanguageContext';
 import { ThemeType } from '../../contexts/ThemeContext';
+import { getRecallSyncStatus, syncRecallStore, type RecallSyncStatus } from '../../services/recallStore';
+import { areRecallAlertsEnabled, disableRecallAlerts, enableRecallAlerts } from '../../services/recallAlerts';
+import { clearAnalysisCache, getAnalysisCacheStats, type AnalysisCacheStats } from '../../services/analysisCache';
+import { ALLERGEN_LABELS, getAllergenProfile, saveAllergenProfile } from '../../services/allergens';
+import { EU_ALLERGENS, type AllergenId } from '../../services/productAnalysis';
+import { getPendingAccountDeletion } from '../../services/accountDeletion';
+import { exportUserData } from '../../services/dataExport';
+import { ScanArchiveError, importScanArchive, pickScanArchive, type ParsedScanArchive } from '../../services/dataImport';
 
 export default function SettingsScreen() {
   const { language, setLanguage, t } = useLanguage();
   const { themeType, setThemeType, isDarkTheme, theme } = useTheme();
-  const { user, logout } = useAuth();
+  const { user, logout, isEmailVerified, isGuest } = useAuth();
+
+  const [syncStatus, setSyncStatus] = useState<RecallSyncStatus | null>(null);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [alertsEnabled, setAlertsEnabled] = useState(false);
+  const [cacheStats, setCacheStats] = useState<AnalysisCacheStats | null>(null);
+  const [allergenProfile, setAllergenProfile] = useState<AllergenId[]>([]);
+  const [deletionPending, setDeletionPending] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+
+  useEffect(() => {
+    getRecallSyncStatus().then(setSyncStatus);
+    areRecallAlertsEnabled().then(setAlertsEnabled);
+    getAnalysisCacheStats().then(setCacheStats);
+    getAllergenProfile().then(setAllergenProfile);
+  }, []);
+
+  // A deletion that failed halfway is offered again until it completes
+  useEffect(() => {
+    if (!user) return;
+    getPendingAccountDeletion(user.uid).then(state => setDeletionPending(!!state));
+  }, [user]);
+
+  const toggleAllergen = async (allergen: AllergenId) => {
+    const profile = allergenProfile.includes(allergen)
+      ? allergenProfile.filter(item => item !== allergen)
+      : EU_ALLERGENS.filter(item => item === allergen || allergenProfile.includes(item));
+    setAllergenProfile(profile);
+    try {
+      await saveAllergenProfile(profile);
+    } catch (error) {
+      console.error('❌ Saving allergen profile failed:', error);
+      Alert.alert(t('error'));
+    }
+  };
+
+  const handleClearCache = () => {
+    Alert.alert(t('clearCache'), t('clearCacheConfirm'), [
+      { text: t('cancel'), style: 'cancel' },
+      {
+        text: t('clearCache'),
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await clearAnalysisCache();
+            setCacheStats(await getAnalysisCacheStats());
+            Alert.alert(t('cacheCleared'));
+          } catch (error) {
+            console.error('❌ Clearing analysis cache failed:', error);
+            Alert.alert(t('error'));
+          }
+        },
+      },
+    ]);
+  };
+
+  const runExport = async () => {
+    if (!user) return;
+    try {
+      setIsExporting(true);
+      await exportUserData(user);
+    } catch (error) {
+      console.error('❌ Data export failed:', error);
+      Alert.alert(t('error'), t('exportFailed'));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleExport = () => {
+    Alert.alert(t('exportData'), t('exportDataHint'), [
+      { text: t('cancel'), style: 'cancel' },
+      { text: t('exportAction'), onPress: runExport },
+    ]);
+  };
+
+  const runImport = async (archive: ParsedScanArchive) => {
+    if (!user) return;
+    try {
+      setIsImporting(true);
+      const result = await importScanArchive(user.uid, archive);
+      Alert.alert(t('importData'), t('importResult')
+        .replace('{imported}', String(result.imported))
+        .replace('{duplicates}', String(result.duplicates))
+        .replace('{invalid}', String(result.invalid)));
+    } catch (error) {
+      console.error('❌ Data import failed:', error);
+      Alert.alert(t('error'), t('importFailed'));
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleImport = async () => {
+    let archive: ParsedScanArchive | null;
+    try {
+      archive = await pickScanArchive();
+    } catch (error) {
+      console.error('❌ Reading the archive failed:', error);
+      const reason = error instanceof ScanArchiveError ? error.reason : null;
+      Alert.alert(t('error'), t(reason === 'unsupportedVersion' ? 'importUnsupportedVersion' : 'importInvalidArchive'));
+      return;
+    }
+    if (!archive) return;
+
+    if (archive.scans.length === 0) {
+      Alert.alert(t('importData'), t('importNothing'));
+      return;
+    }
+
+    Alert.alert(t('importData'), t('importDataConfirm').replace('{count}', String(archive.scans.length)), [
+      { text: t('cancel'), style: 'cancel' },
+      { text: t('importData'), onPress: () => runImport(archive) },
+    ]);
+  };
+
+  const handleAlertsChange = async (enabled: boolean) => {
+    if (enabled) {
+      setAlertsEnabled(await enableRecallAlerts());
+    } else {
+      await disableRecallAlerts();
+      setAlertsEnabled(false);
+    }
+  };
+
+  const handleSync = async () => {
+    try {
+      setIsSyncing(true);
+      const status = await syncRecallStore();
+      setSyncStatus(status);
+    } catch (error) {
+      console.error('❌ Recall sync failed:', error);
+      Alert.alert(t('error'), t('syncFailed'));
+    } finally {
+      setIsSyncing(false);
+    }
+  };
 
   // Function to force navigation to login screen
   const navigateToLogin = () => {
@@ -48,7 +193,7 @@ export default function SettingsScreen() {
     }
   };
 
-  const handleLogout = async () => {
+  const signOut = async () => {
     try {
       console.log('🚪 Logging out user');
       await logout();
@@ -62,6 +207,18 @@ export default function SettingsScreen() {
     }
   };
 
+  // A guest cannot sign back in: their scan history would be lost
+  const handleLogout = () => {
+    if (!isGuest) {
+      signOut();
+      return;
+    }
+    Alert.alert(t('logout'), t('guestLogoutWarning'), [
+      { text: t('cancel'), style: 'cancel' },
+      { text: t('logout'), style: 'destructive', onPress: signOut },
+    ]);
+  };
+
   const handleLanguageChange = (newLanguage: Language) => {
     setLanguage(newLanguage);
   };
@@ -141,16 +298,173 @@ export default function SettingsScreen() {
 
         <Divider />
 
+        <List.Section>
+          <List.Subheader style={{ color: theme.colors.text }}>{t('recallDatabase')}</List.Subheader>
+          <List.Item
+            title={t('lastSync')}
+            titleStyle={{ color: theme.colors.text }}
+            description={syncStatus?.lastSyncAt ? new Date(syncStatus.lastSyncAt).toLocaleString() : t('never')}
+            descriptionStyle={{ color: theme.colors.text }}
+            left={props => <List.Icon {...props} icon="database-sync" color={theme.colors.primary} />}
+          />
+          <List.Item
+            title={t('recordCount')}
+            titleStyle={{ color: theme.colors.text }}
+            description={String(syncStatus?.recordCount ?? 0)}
+            descriptionStyle={{ color: theme.colors.text }}
+            left={props => <List.Icon {...props} icon="database" color={theme.colors.primary} />}
+          />
+          <View style={styles.buttonContainer}>
+            <Button
+              mode="outlined"
+              onPress={handleSync}
+              style={styles.button}
+              contentStyle={styles.buttonContent}
+              labelStyle={styles.buttonLabel}
+              loading={isSyncing}
+              disabled={isSyncing}
+              icon="sync"
+            >
+              {t('syncNow')}
+            </Button>
+          </View>
+        </List.Section>
+
+        <Divider />
+
+        <List.Section>
+          <List.Subheader style={{ color: theme.colors.text }}>{t('recallAlerts')}</List.Subheader>
+          <List.Item
+            title={t('recallAlertsDescription')}
+            titleStyle={{ color: theme.colors.text }}
+            titleNumberOfLines={2}
+            right={() => (
+              <Switch
+                value={alertsEnabled}
+                onValueChange={handleAlertsChange}
+                color={theme.colors.primary}
+              />
+            )}
+          />
+        </List.Section>
+
+        <Divider />
+
+        <List.Section>
+          <List.Subheader style={{ color: theme.colors.text }}>{t('allergenProfile')}</List.Subheader>
+          <Text style={[styles.sectionDescription, { color: theme.colors.text }]}>
+            {t('allergenProfileDescription')}
+          </Text>
+          <View style={styles.chips}>
+            {EU_ALLERGENS.map(allergen => (
+              <Chip
+                key={allergen}
+                selected={allergenProfile.includes(allergen)}
+                showSelectedCheck
+                onPress={() => toggleAllergen(allergen)}
+                style={styles.chip}
+              >
+                {t(ALLERGEN_LABELS[allergen])}
+              </Chip>
+            ))}
+          </View>
+        </List.Section>
+
+        <Divider />
+
+        <List.Section>
+          <List.Subheader style={{ color: theme.colors.text }}>{t('analysisCache')}</List.Subheader>
+          <List.Item
+            title={t('cachedAnalyses')}
+            titleStyle={{ color: theme.colors.text }}
+            description={`${cacheStats?.entryCount ?? 0} · ${Math.round((cacheStats?.totalBytes ?? 0) / 1024)} KB`}
+            descriptionStyle={{ color: theme.colors.text }}
+            left={props => <List.Icon {...props} icon="cached" color={theme.colors.primary} />}
+          />
+          <View style={styles.buttonContainer}>
+            <Button
+              mode="outlined"
+              onPress={handleClearCache}
+              style={styles.button}
+              contentStyle={styles.buttonContent}
+              labelStyle={styles.buttonLabel}
+              disabled={!cacheStats?.entryCount}
+              icon="delete-sweep"
+            >
+              {t('clearCache')}
+            </Button>
+          </View>
+        </List.Section>
+
+        <Divider />
+
         <List.Section>
           <List.Subheader style={{ color: theme.colors.text }}>{t('account')}</List.Subheader>
           {user ? (
             <>
+              {isGuest ? (
+                <>
+                  <List.Item
+                    title={t('guest')}
+                    titleStyle={{ color: theme.colors.text }}
+                    description={t('guestAccountHint')}
+                    descriptionStyle={{ color: theme.colors.text }}
+                    descriptionNumberOfLines={3}
+                    left={props => <List.Icon {...props} icon="account-outline" color={theme.colors.primary} />}
+                  />
+                  <List.Item
+                    title={t('createAccount')}
+                    titleStyle={{ color: theme.colors.text }}
+                    left={props => <List.Icon {...props} icon="account-plus" color={theme.colors.primary} />}
+                    onPress={() => router.push('/(onboarding)/signup')}
+                  />
+                </>
+              ) : (
+                <List.Item
+                  title={user.email || 'User'}
+                  titleStyle={{ color: theme.colors.text }}
+                  description={isEmailVerified ? t('emailVerified') : t('emailNotVerified')}
+                  descriptionStyle={{ color: theme.colors.text }}
+                  left={props => <List.Icon {...props} icon="account" color={theme.colors.primary} />}
+                />
+              )}
+              {!isGuest && !isEmailVerified && (
+                <List.Item
+                  title={t('verifyEmail')}
+                  titleStyle={{ color: theme.colors.text }}
+                  left={props => <List.Icon {...props} icon="email-check" color={theme.colors.primary} />}
+                  onPress={() => router.push('/(onboarding)/verify-email')}
+                />
+              )}
+              {!isGuest && (
+                <List.Item
+                  title={t('changePassword')}
+                  titleStyle={{ color: theme.colors.text }}
+                  left={props => <List.Icon {...props} icon="lock-reset" color={theme.colors.primary} />}
+                  onPress={() => router.push('/(onboarding)/change-password')}
+                />
+              )}
+              <List.Item
+                title={t('exportData')}
+                titleStyle={{ color: theme.colors.text }}
+                left={props => <List.Icon {...props} icon="export-variant" color={theme.colors.primary} />}
+                right={props => isExporting ? <List.Icon {...props} icon="progress-clock" /> : null}
+                onPress={isExporting ? undefined : handleExport}
+              />
               <List.Item
-                title={user.email || 'User'}
+                title={t('importData')}
                 titleStyle={{ color: theme.colors.text }}
-                description="Logged in"
+                left={props => <List.Icon {...props} icon="import" color={theme.colors.primary} />}
+                right={props => isImporting ? <List.Icon {...props} icon="progress-clock" /> : null}
+                onPress={isImporting ? undefined : handleImport}
+              />
+              <List.Item
+                title={deletionPending ? t('accountDeletionPending') : t('deleteAccount')}
+                titleStyle={{ color: theme.colors.error }}
+                description={deletionPending ? t('accountDeletionPendingHint') : undefined}
                 descriptionStyle={{ color: theme.colors.text }}
-                left={props => <List.Icon {...props} icon="account" color={theme.colors.primary} />}
+                left={props => <List.Icon {...props} icon="account-remove" color={theme.colors.error} />}
+                onPress={() => router.push('/(onboarding)/delete-account')}
               />
               <View style={styles.buttonContainer}>
                 <Button
@@ -215,6 +529,19 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '500',
   },
+  sectionDescription: {
+    paddingHorizontal: 16,
+    marginBottom: 10,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    paddingHorizontal: 16,
+  },
+  chip: {
+    marginRight: 8,
+    marginBottom: 8,
+  },
   notLoggedInContainer: {
     padding: 16,
     alignItems: 'center',
@@ -2,10 +2,13 @@ import React from 'react';
 import { Stack } from 'expo-router';
 import { PaperProvider } from 'react-native-paper';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
+import { GestureHandlerRootView } from 'react-native-gesture-handler';
 import { AuthProvider } from '../contexts/AuthContext';
 import { ThemeProvider } from '../contexts/ThemeContext';
 import { LanguageProvider } from '../contexts/LanguageContext';
 import { useTheme } from '../hooks/useTheme';
+// Defines the recall alerts background task; must be loaded with the app bundle
+import '../services/recallAlerts';
 
 // Layout wrapper with theme
 const ThemedLayout = ({ children }: { children: React.ReactNode }) => {
@@ -37,40 +40,43 @@ const ThemedLayout = ({ children }: { children: React.ReactNode }) => {
 // Root layout with all providers
 export default function RootLayout() {
   return (
-    <AuthProvider>
-      <ThemeProvider>
-        <LanguageProvider>
-          <ThemedLayout>
-            <Stack.Screen 
-              name="index" 
-              options={{ 
-                headerShown: false,
-                // Animation none for the index redirect screen
-                animation: 'none',
-              }} 
-            />
-            <Stack.Screen 
-              name="(tabs)" 
-              options={{ 
-                headerShown: false,
-              }} 
-            />
-            <Stack.Screen 
-              name="(onboarding)" 
-              options={{ 
-                headerShown: false,
-              }} 
-            />
-            <Stack.Screen 
-              name="test-config" 
-              options={{ 
-                headerShown: true,
-                title: "Config Test" 
-              }} 
-            />
-          </ThemedLayout>
-        </LanguageProvider>
-      </ThemeProvider>
-    </AuthProvider>
+    // Needed for swipe gestures (e.g. swipe to delete in scan history)
+    <GestureHandlerRootView style={{ flex: 1 }}>
+      <AuthProvider>
+        <ThemeProvider>
+          <LanguageProvider>
+            <ThemedLayout>
+              <Stack.Screen 
+                name="index" 
+                options={{ 
+                  headerShown: false,
+                  // Animation none for the index redirect screen
+                  animation: 'none',
+                }} 
+              />
+              <Stack.Screen 
+                name="(tabs)" 
+                options={{ 
+                  headerShown: false,
+                }} 
+              />
+              <Stack.Screen 
+                name="(onboarding)" 
+                options={{ 
+                  headerShown: false,
+                }} 
+              />
+              <Stack.Screen 
+                name="test-config" 
+                options={{ 
+                  headerShown: true,
+                  title: "Config Test" 
+                }} 
+              />
+            </ThemedLayout>
+          </LanguageProvider>
+        </ThemeProvider>
+      </AuthProvider>
+    </GestureHandlerRootView>
   );
 }
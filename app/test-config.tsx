@@ -1,15 +1,17 @@
-import React, { useEffect, useState } from 'react';
+import React, { useState } from 'react';
 import { StyleSheet, View, Text, ScrollView } from 'react-native';
 import { Button } from 'react-native-paper';
 import { StatusBar } from 'expo-status-bar';
 import { useTheme } from '../hooks/useTheme';
-import { testFirebaseConfig, testOpenAIConfig } from '../services/configTest';
+import { testFirebaseConfig, testVisionConfig } from '../services/configTest';
+import { getVisionProvider } from '../services/visionProvider';
 
 export default function TestConfigScreen() {
   const { theme, isDarkTheme } = useTheme();
   const [firebaseStatus, setFirebaseStatus] = useState<boolean | null>(null);
-  const [openaiStatus, setOpenaiStatus] = useState<boolean | null>(null);
+  const [visionStatus, setVisionStatus] = useState<boolean | null>(null);
   const [message, setMessage] = useState<string>('');
+  const visionProvider = getVisionProvider();
 
   const testFirebase = async () => {
     try {
@@ -24,23 +26,23 @@ export default function TestConfigScreen() {
     }
   };
 
-  const testOpenAI = async () => {
+  const testVision = async () => {
     try {
-      setMessage(prev => prev + '\nTesting OpenAI configuration...');
-      const result = testOpenAIConfig();
-      setOpenaiStatus(result);
-      setMessage(prev => prev + '\nOpenAI test completed.');
+      setMessage(prev => prev + `\nTesting vision provider configuration (${visionProvider.name}, ${visionProvider.model})...`);
+      const result = testVisionConfig();
+      setVisionStatus(result);
+      setMessage(prev => prev + '\nVision provider test completed.');
     } catch (error) {
-      console.error('OpenAI test error:', error);
-      setOpenaiStatus(false);
-      setMessage(prev => prev + `\nOpenAI test error: ${error instanceof Error ? error.message : String(error)}`);
+      console.error('Vision provider test error:', error);
+      setVisionStatus(false);
+      setMessage(prev => prev + `\nVision provider test error: ${error instanceof Error ? error.message : String(error)}`);
     }
   };
 
   const testAll = async () => {
     setMessage('Starting integration tests...');
     await testFirebase();
-    await testOpenAI();
+    await testVision();
   };
 
   return (
@@ -77,23 +79,23 @@ export default function TestConfigScreen() {
         
         <View style={styles.statusContainer}>
           <Text style={[styles.statusLabel, { color: theme.colors.text }]}>
-            OpenAI Status:
+            Vision ({visionProvider.name} · {visionProvider.model}):
           </Text>
           <Text 
             style={[
               styles.statusValue, 
               { 
-                color: openaiStatus === null 
+                color: visionStatus === null 
                   ? theme.colors.text 
-                  : openaiStatus 
+                  : visionStatus 
                     ? '#34C759' // Green
                     : '#FF3B30' // Red
               }
             ]}
           >
-            {openaiStatus === null 
+            {visionStatus === null 
               ? 'Not tested' 
-              : openaiStatus 
+              : visionStatus 
                 ? 'Connected' 
                 : 'Failed'}
           </Text>
@@ -120,11 +122,11 @@ export default function TestConfigScreen() {
           
           <Button
             mode="outlined"
-            onPress={testOpenAI}
+            onPress={testVision}
             style={styles.button}
             textColor={theme.colors.primary}
           >
-            Test OpenAI Only
+            Test Vision Provider Only
           </Button>
         </View>
         
@@ -0,0 +1,108 @@
+import React from 'react';
+import { StyleSheet, View, Text } from 'react-native';
+import { useLanguage } from '../hooks/useLanguage';
+import { useTheme } from '../hooks/useTheme';
+import type { NutriScoreGrade, NutriScoreResult } from '../services/nutriScore';
+
+interface NutriScoreBadgeProps {
+  nutriScore: NutriScoreResult;
+  // Smaller badge for history cards
+  compact?: boolean;
+}
+
+// Official Nutri-Score colours, from dark green (A) to red (E)
+const GRADE_COLORS: Record<NutriScoreGrade, string> = {
+  A: '#038141',
+  B: '#85BB2F',
+  C: '#FECB02',
+  D: '#EE8100',
+  E: '#E63E11',
+};
+
+// A–E scale with the product's grade enlarged; dashed and captioned when computed from estimated values
+export default function NutriScoreBadge({ nutriScore, compact = false }: NutriScoreBadgeProps) {
+  const { t } = useLanguage();
+  const { theme } = useTheme();
+  const letterSize = compact ? 18 : 26;
+
+  return (
+    <View style={styles.container}>
+      <View style={[styles.badge, nutriScore.estimated && styles.estimatedBadge]}>
+        <Text style={[styles.title, compact && styles.compactTitle]}>NUTRI-SCORE</Text>
+        <View style={styles.scale}>
+          {(Object.keys(GRADE_COLORS) as NutriScoreGrade[]).map(grade => {
+            const isGrade = grade === nutriScore.grade;
+            const size = isGrade ? letterSize * 1.4 : letterSize;
+            return (
+              <View
+                key={grade}
+                style={[
+                  styles.letter,
+                  { backgroundColor: GRADE_COLORS[grade], width: size, height: size },
+                  isGrade && styles.selectedLetter,
+                  !isGrade && { opacity: 0.5 },
+                ]}
+              >
+                <Text style={[styles.letterText, { fontSize: size * 0.6 }]}>{grade}</Text>
+              </View>
+            );
+          })}
+        </View>
+      </View>
+      {nutriScore.estimated && (
+        <Text style={[styles.caption, { color: theme.colors.text }]}>
+          {t('nutriScoreEstimated')}
+        </Text>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    alignSelf: 'flex-start',
+  },
+  badge: {
+    backgroundColor: 'white',
+    borderWidth: 2,
+    borderColor: '#BBBBBB',
+    borderRadius: 10,
+    paddingHorizontal: 6,
+    paddingVertical: 4,
+  },
+  estimatedBadge: {
+    borderStyle: 'dashed',
+  },
+  title: {
+    color: '#7F7F7F',
+    fontWeight: 'bold',
+    fontSize: 11,
+    marginBottom: 2,
+  },
+  compactTitle: {
+    fontSize: 8,
+  },
+  scale: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  letter: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderRadius: 4,
+  },
+  selectedLetter: {
+    borderRadius: 100,
+    borderWidth: 2,
+    borderColor: 'white',
+  },
+  letterText: {
+    color: 'white',
+    fontWeight: 'bold',
+  },
+  caption: {
+    fontSize: 12,
+    fontStyle: 'italic',
+    marginTop: 4,
+  },
+});
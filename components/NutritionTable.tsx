@@ -0,0 +1,106 @@
+import React from 'react';
+import { StyleSheet, View, Text } from 'react-native';
+import { Divider } from 'react-native-paper';
+import { useLanguage } from '../hooks/useLanguage';
+import { useTheme } from '../hooks/useTheme';
+import type { TranslationKey } from '../contexts/LanguageContext';
+import type { NutrientKey } from '../services/productAnalysis';
+import { formatNutrientValue, type NutrientValues, type NutritionalInfo } from '../services/nutrition';
+
+interface NutritionTableProps {
+  nutritionalInfo: NutritionalInfo;
+}
+
+// Rows of the EU nutrition declaration, in label order
+const ROWS: { label: TranslationKey; keys: NutrientKey[]; subRow?: boolean }[] = [
+  { label: 'energy', keys: ['energyKj', 'energyKcal'] },
+  { label: 'fats', keys: ['fat'] },
+  { label: 'saturatedFat', keys: ['saturatedFat'], subRow: true },
+  { label: 'carbs', keys: ['carbohydrate'] },
+  { label: 'sugars', keys: ['sugars'], subRow: true },
+  { label: 'fibre', keys: ['fibre'] },
+  { label: 'proteins', keys: ['protein'] },
+  { label: 'salt', keys: ['salt'] },
+];
+
+// Nutrition declaration with a per 100 g/ml column and, when known, a per serving column
+export default function NutritionTable({ nutritionalInfo }: NutritionTableProps) {
+  const { t } = useLanguage();
+  const { theme } = useTheme();
+
+  const columns = [
+    { title: t(nutritionalInfo.basis === 'ml' ? 'per100ml' : 'per100g'), values: nutritionalInfo.per100 },
+    { title: nutritionalInfo.servingSize ? `${t('perServing')} (${nutritionalInfo.servingSize})` : t('perServing'), values: nutritionalInfo.perServing },
+  ].filter((column): column is { title: string; values: NutrientValues } => !!column.values);
+
+  const hasEstimates = columns.some(column => Object.values(column.values).some(value => value?.estimated));
+  const textStyle = { color: theme.colors.text };
+
+  return (
+    <View>
+      <View style={styles.row}>
+        <View style={styles.labelCell} />
+        {columns.map(column => (
+          <Text key={column.title} style={[styles.valueCell, styles.header, textStyle]}>
+            {column.title}
+          </Text>
+        ))}
+      </View>
+      <Divider style={styles.divider} />
+
+      {ROWS.filter(row => columns.some(column => row.keys.some(key => column.values[key]))).map(row => (
+        <React.Fragment key={row.label}>
+          <View style={styles.row}>
+            <Text style={[styles.labelCell, row.subRow ? styles.subLabel : styles.label, textStyle]}>
+              {t(row.label)}
+            </Text>
+            {columns.map(column => (
+              <Text key={column.title} style={[styles.valueCell, textStyle]}>
+                {row.keys.map(key => formatNutrientValue(column.values[key])).join(' / ')}
+              </Text>
+            ))}
+          </View>
+          <Divider style={styles.divider} />
+        </React.Fragment>
+      ))}
+
+      {hasEstimates && (
+        <Text style={[styles.footnote, textStyle]}>{t('estimatedValues')}</Text>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+  },
+  labelCell: {
+    flex: 1.4,
+  },
+  label: {
+    fontWeight: 'bold',
+  },
+  subLabel: {
+    paddingLeft: 12,
+    fontStyle: 'italic',
+  },
+  valueCell: {
+    flex: 1,
+    textAlign: 'right',
+  },
+  header: {
+    fontWeight: 'bold',
+    fontSize: 12,
+  },
+  divider: {
+    height: 1,
+  },
+  footnote: {
+    fontSize: 12,
+    fontStyle: 'italic',
+    marginTop: 8,
+  },
+});
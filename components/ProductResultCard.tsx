@@ -0,0 +1,316 @@
+import React from 'react';
+import { StyleSheet, View, Text, Linking } from 'react-native';
+import { Card } from 'react-native-paper';
+import { MaterialIcons } from '@expo/vector-icons';
+import { useLanguage } from '../hooks/useLanguage';
+import { useTheme } from '../hooks/useTheme';
+import type { RecallInfo, NutritionalInfo } from '../services/productService';
+import { ALLERGEN_LABELS, type AllergenWarning, type AllergenWarningSource } from '../services/allergens';
+import type { NutriScoreResult } from '../services/nutriScore';
+import NutritionTable from './NutritionTable';
+import NutriScoreBadge from './NutriScoreBadge';
+
+// Where the product facts shown on the card come from
+export type ProductFactsSource =
+  | { type: 'openFoodFacts'; url: string }
+  | { type: 'imageAnalysis' };
+
+// Props for the product result card
+interface ProductResultCardProps {
+  productName: string;
+  subtitle?: string;
+  imageUri?: string | null;
+  recallInfo?: RecallInfo | null;
+  description?: string | null;
+  nutritionalInfo?: NutritionalInfo | null;
+  nutriScore?: NutriScoreResult | null;
+  ingredients?: string | null;
+  // Allergens of the user's profile found in the product or its recall
+  allergenWarnings?: AllergenWarning[];
+  source?: ProductFactsSource | null;
+  error?: string | null;
+}
+
+const ALLERGEN_SOURCE_LABELS: Record<AllergenWarningSource, 'containsAllergens' | 'mayContainAllergens' | 'recallMentionsAllergens'> = {
+  contains: 'containsAllergens',
+  recall: 'recallMentionsAllergens',
+  mayContain: 'mayContainAllergens',
+};
+
+// Card showing the recall status, description and nutrition of a scanned or searched product
+export default function ProductResultCard({
+  productName,
+  subtitle,
+  imageUri,
+  recallInfo,
+  description,
+  nutritionalInfo,
+  nutriScore,
+  ingredients,
+  allergenWarnings = [],
+  source,
+  error,
+}: ProductResultCardProps) {
+  const { t } = useLanguage();
+  const { theme } = useTheme();
+
+  // Name/brand matches are shown as possible recalls, GTIN/lot matches as confirmed
+  const isPossibleMatch = !!recallInfo?.isRecalled && recallInfo.matchLevel === 'possible';
+  const badgeColor = !recallInfo?.isRecalled ? '#34C759' : isPossibleMatch ? '#FF9500' : '#FF3B30';
+  const badgeLabel = !recallInfo?.isRecalled ? t('notRecalled') : isPossibleMatch ? t('possibleRecall') : t('recalled');
+  const lotStatusColor = recallInfo?.lotStatus === 'affected'
+    ? '#FF3B30'
+    : recallInfo?.lotStatus === 'not_listed'
+      ? '#34C759'
+      : '#FF9500';
+
+  return (
+    <Card style={styles.card}>
+      {imageUri && (
+        <Card.Cover source={{ uri: imageUri }} style={styles.productImage} />
+      )}
+      
+      <Card.Title
+        title={productName}
+        subtitle={subtitle}
+        titleStyle={{ fontWeight: 'bold', fontSize: 20 }}
+      />
+      
+      <Card.Content>
+        {error ? (
+          <Text style={styles.errorText}>{error}</Text>
+        ) : (
+          <>
+            {allergenWarnings.length > 0 && (
+              <View style={styles.allergenWarning}>
+                <View style={styles.allergenWarningHeader}>
+                  <MaterialIcons name="warning" size={24} color="white" />
+                  <Text style={styles.allergenWarningTitle}>{t('allergenWarning')}</Text>
+                </View>
+                {(Object.keys(ALLERGEN_SOURCE_LABELS) as AllergenWarningSource[]).map(source => {
+                  const allergens = allergenWarnings.filter(warning => warning.source === source);
+                  if (allergens.length === 0) return null;
+                  return (
+                    <Text key={source} style={styles.allergenWarningText}>
+                      {t(ALLERGEN_SOURCE_LABELS[source])}: {allergens.map(warning => t(ALLERGEN_LABELS[warning.allergen])).join(', ')}
+                    </Text>
+                  );
+                })}
+              </View>
+            )}
+
+            {recallInfo && (
+              <View style={styles.recallContainer}>
+                <View style={[
+                  styles.recallBadge,
+                  { backgroundColor: badgeColor }
+                ]}>
+                  <Text style={styles.recallText}>
+                    {badgeLabel}
+                  </Text>
+                </View>
+                
+                {isPossibleMatch && recallInfo.matchConfidence !== undefined && (
+                  <Text style={{ color: theme.colors.text, fontStyle: 'italic' }}>
+                    {t('matchConfidence')}: {Math.round(recallInfo.matchConfidence * 100)}%
+                  </Text>
+                )}
+                
+                {recallInfo.isRecalled && recallInfo.lotStatus && (
+                  <View style={[styles.lotStatus, { borderColor: lotStatusColor }]}>
+                    <Text style={{ color: lotStatusColor, fontWeight: 'bold' }}>
+                      {recallInfo.lotStatus === 'affected'
+                        ? t('lotAffected')
+                        : recallInfo.lotStatus === 'not_listed'
+                          ? t('lotNotListed')
+                          : t('lotUnknown')}
+                    </Text>
+                    {(recallInfo.scannedLotNumber || recallInfo.scannedExpiryDate) && (
+                      <Text style={{ color: theme.colors.text, marginTop: 5 }}>
+                        {[
+                          recallInfo.scannedLotNumber && `${t('yourLot')}: ${recallInfo.scannedLotNumber}`,
+                          recallInfo.scannedExpiryDate && `${t('expiryDate')}: ${recallInfo.scannedExpiryDate}`,
+                        ].filter(Boolean).join(' · ')}
+                      </Text>
+                    )}
+                  </View>
+                )}
+                
+                {recallInfo.isRecalled && (
+                  <View style={styles.recallDetails}>
+                    <Text style={{ color: theme.colors.text, fontWeight: 'bold' }}>
+                      {t('recallReason')}:
+                    </Text>
+                    <Text style={{ color: theme.colors.text }}>
+                      {recallInfo.recallReason}
+                    </Text>
+                    
+                    <Text style={{ color: theme.colors.text, fontWeight: 'bold', marginTop: 10 }}>
+                      {t('manufacturer')}:
+                    </Text>
+                    <Text style={{ color: theme.colors.text }}>
+                      {recallInfo.manufacturer}
+                    </Text>
+                    
+                    <Text style={{ color: theme.colors.text, fontWeight: 'bold', marginTop: 10 }}>
+                      {t('lotNumber')}:
+                    </Text>
+                    <Text style={{ color: theme.colors.text }}>
+                      {recallInfo.lotNumber}
+                    </Text>
+                    
+                    <Text style={{ color: theme.colors.text, fontWeight: 'bold', marginTop: 10 }}>
+                      {t('recallDate')}:
+                    </Text>
+                    <Text style={{ color: theme.colors.text }}>
+                      {recallInfo.recallDate}
+                    </Text>
+                  </View>
+                )}
+              </View>
+            )}
+            
+            {description && (
+              <View style={styles.section}>
+                <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>
+                  {t('productDetails')}
+                </Text>
+                <Text style={{ color: theme.colors.text }}>
+                  {description}
+                </Text>
+              </View>
+            )}
+            
+            {ingredients && (
+              <View style={styles.section}>
+                <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>
+                  {t('ingredients')}
+                </Text>
+                <Text style={{ color: theme.colors.text }}>
+                  {ingredients}
+                </Text>
+              </View>
+            )}
+            
+            {nutritionalInfo && (
+              <View style={styles.section}>
+                <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>
+                  {t('nutritionalInfo')}
+                </Text>
+                
+                {nutriScore && (
+                  <View style={styles.nutriScore}>
+                    <NutriScoreBadge nutriScore={nutriScore} />
+                  </View>
+                )}
+                
+                <NutritionTable nutritionalInfo={nutritionalInfo} />
+              </View>
+            )}
+            
+            {source && (
+              <View style={styles.source}>
+                <MaterialIcons name="info-outline" size={16} color={theme.colors.text} />
+                {source.type === 'openFoodFacts' ? (
+                  <Text
+                    style={[styles.sourceText, styles.sourceLink, { color: theme.colors.primary }]}
+                    onPress={() => Linking.openURL(source.url)}
+                  >
+                    {t('sourceOpenFoodFacts')}
+                  </Text>
+                ) : (
+                  <Text style={[styles.sourceText, { color: theme.colors.text }]}>
+                    {t('sourceImageAnalysis')}
+                  </Text>
+                )}
+              </View>
+            )}
+          </>
+        )}
+      </Card.Content>
+    </Card>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    marginBottom: 20,
+  },
+  productImage: {
+    height: 200,
+  },
+  allergenWarning: {
+    backgroundColor: '#FF3B30',
+    borderRadius: 8,
+    padding: 12,
+    marginTop: 15,
+  },
+  allergenWarningHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 5,
+  },
+  allergenWarningTitle: {
+    color: 'white',
+    fontWeight: 'bold',
+    fontSize: 18,
+    marginLeft: 8,
+  },
+  allergenWarningText: {
+    color: 'white',
+    fontSize: 16,
+    marginTop: 4,
+  },
+  recallContainer: {
+    marginVertical: 15,
+  },
+  recallBadge: {
+    alignSelf: 'flex-start',
+    paddingHorizontal: 15,
+    paddingVertical: 5,
+    borderRadius: 20,
+    marginBottom: 10,
+  },
+  recallText: {
+    color: 'white',
+    fontWeight: 'bold',
+  },
+  recallDetails: {
+    marginTop: 10,
+  },
+  lotStatus: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 10,
+    marginTop: 10,
+  },
+  section: {
+    marginTop: 20,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginBottom: 10,
+  },
+  nutriScore: {
+    marginBottom: 15,
+  },
+  source: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 20,
+  },
+  sourceText: {
+    fontSize: 12,
+    marginLeft: 6,
+    flexShrink: 1,
+  },
+  sourceLink: {
+    textDecorationLine: 'underline',
+  },
+  errorText: {
+    color: 'red',
+    textAlign: 'center',
+    marginVertical: 10,
+  },
+});
@@ -4,13 +4,21 @@ import {
   UserCredential,
   signInWithEmailAndPassword,
   createUserWithEmailAndPassword,
+  signInAnonymously,
+  linkWithCredential,
   signOut,
   onAuthStateChanged,
+  sendPasswordResetEmail,
+  sendEmailVerification,
+  reauthenticateWithCredential,
+  updatePassword,
+  EmailAuthProvider,
   AuthError
 } from 'firebase/auth';
 import { auth } from '../services/firebaseConfig';
 import { Platform } from 'react-native';
 import { clearAuthData, storeUserData, getStoredUserData } from '../services/authPersistence';
+import { deleteAccountData, type AccountDeletionStep } from '../services/accountDeletion';
 
 // Define the shape of the context
 interface AuthContextType {
@@ -19,6 +27,24 @@ interface AuthContextType {
   login: (email: string, password: string) => Promise<UserCredential>;
   signup: (email: string, password: string) => Promise<UserCredential>;
   logout: () => Promise<void>;
+  // Guests use an anonymous Firebase account: scanning and history work the same way
+  isGuest: boolean;
+  continueAsGuest: () => Promise<UserCredential>;
+  // Turn the guest account into an email/password account; the uid, and so the scan history, is kept
+  upgradeGuestAccount: (email: string, password: string) => Promise<UserCredential>;
+  // Whether the signed-in user confirmed their email address
+  isEmailVerified: boolean;
+  sendPasswordReset: (email: string) => Promise<void>;
+  sendVerificationEmail: () => Promise<void>;
+  // Reload the user from Firebase, e.g. after they clicked the verification link;
+  // resolves with whether the email is verified
+  refreshUser: () => Promise<boolean>;
+  // Confirm the user's password before sensitive operations (auth/requires-recent-login)
+  reauthenticate: (password: string) => Promise<void>;
+  changePassword: (currentPassword: string, newPassword: string) => Promise<void>;
+  // Delete the account and its data; calling it again resumes a failed deletion.
+  // Guests have no password, theirs is ignored.
+  deleteAccount: (password: string, onStep?: (step: AccountDeletionStep) => void) => Promise<void>;
   error: string | null;
   setError: (error: string | null) => void;
 }
@@ -36,6 +62,32 @@ export const AuthContext = createContext<AuthContextType>({
   logout: async () => {
     throw new Error('AuthContext not initialized');
   },
+  isGuest: false,
+  continueAsGuest: async () => {
+    throw new Error('AuthContext not initialized');
+  },
+  upgradeGuestAccount: async () => {
+    throw new Error('AuthContext not initialized');
+  },
+  isEmailVerified: false,
+  sendPasswordReset: async () => {
+    throw new Error('AuthContext not initialized');
+  },
+  sendVerificationEmail: async () => {
+    throw new Error('AuthContext not initialized');
+  },
+  refreshUser: async () => {
+    throw new Error('AuthContext not initialized');
+  },
+  reauthenticate: async () => {
+    throw new Error('AuthContext not initialized');
+  },
+  changePassword: async () => {
+    throw new Error('AuthContext not initialized');
+  },
+  deleteAccount: async () => {
+    throw new Error('AuthContext not initialized');
+  },
   error: null,
   setError: () => {},
 });
@@ -49,6 +101,8 @@ interface AuthProviderProps {
 export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const [user, setUser] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [isEmailVerified, setIsEmailVerified] = useState(false);
+  const [isGuest, setIsGuest] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   // Subscribe to auth state changes and handle persistence
@@ -62,6 +116,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
         if (storedUser && !user && isMounted) {
           console.log('🔄 Using stored user data until Firebase auth initializes');
           setUser(storedUser as unknown as User);
+          setIsGuest(!!storedUser.isAnonymous);
         }
       } catch (error) {
         console.error('❌ Error loading stored user:', error);
@@ -85,6 +140,8 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       
       // Update our state
       setUser(currentUser);
+      setIsEmailVerified(!!currentUser?.emailVerified);
+      setIsGuest(!!currentUser?.isAnonymous);
       
       // On mobile, store the user in AsyncStorage for persistence
       if (Platform.OS !== 'web') {
@@ -147,6 +204,14 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       const result = await createUserWithEmailAndPassword(auth, email, password);
       console.log('✅ Signup successful for user:', result.user.uid);
       
+      // Ask the new user to confirm their address; the account works in the meantime
+      try {
+        await sendEmailVerification(result.user);
+        console.log('📧 Verification email sent');
+      } catch (verificationError) {
+        console.error('❌ Could not send the verification email:', verificationError);
+      }
+      
       // On mobile, explicitly store user data after signup
       if (Platform.OS !== 'web' && result.user) {
         await storeUserData(result.user);
@@ -164,6 +229,65 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   };
 
+  // Sign in without an account
+  const continueAsGuest = async (): Promise<UserCredential> => {
+    try {
+      setError(null);
+      console.log('👤 Signing in as a guest');
+      const result = await signInAnonymously(auth);
+      console.log('✅ Guest session started for user:', result.user.uid);
+
+      if (Platform.OS !== 'web') {
+        await storeUserData(result.user);
+      }
+
+      return result;
+    } catch (error) {
+      const authError = error as AuthError;
+      console.error('❌ Guest sign-in error:', authError.code || error);
+      setError(authError.message || 'Guest sign-in failed');
+      throw error;
+    }
+  };
+
+  // Link an email and password to the guest account
+  const upgradeGuestAccount = async (email: string, password: string): Promise<UserCredential> => {
+    try {
+      setError(null);
+      const currentUser = requireCurrentUser();
+      if (!currentUser.isAnonymous) {
+        throw new Error('The signed-in user is not a guest');
+      }
+
+      console.log('⬆️ Upgrading guest account:', currentUser.uid);
+      const result = await linkWithCredential(currentUser, EmailAuthProvider.credential(email, password));
+      console.log('✅ Guest account upgraded');
+
+      // Linking does not fire onAuthStateChanged
+      setUser(result.user);
+      setIsGuest(false);
+      setIsEmailVerified(result.user.emailVerified);
+
+      try {
+        await sendEmailVerification(result.user);
+        console.log('📧 Verification email sent');
+      } catch (verificationError) {
+        console.error('❌ Could not send the verification email:', verificationError);
+      }
+
+      if (Platform.OS !== 'web') {
+        await storeUserData(result.user);
+      }
+
+      return result;
+    } catch (error) {
+      const authError = error as AuthError;
+      console.error('❌ Guest upgrade error:', authError.code || error);
+      setError(authError.message || 'Account creation failed');
+      throw error;
+    }
+  };
+
   // Logout function
   const logout = async (): Promise<void> => {
     try {
@@ -190,8 +314,117 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   };
 
+  // The Firebase user, not the copy restored from AsyncStorage, is needed for account operations
+  const requireCurrentUser = (): User => {
+    if (!auth?.currentUser) {
+      throw new Error('No user is signed in');
+    }
+    return auth.currentUser;
+  };
+
+  // Send a password reset link
+  const sendPasswordReset = async (email: string): Promise<void> => {
+    try {
+      console.log('📧 Sending password reset email');
+      await sendPasswordResetEmail(auth, email);
+      console.log('✅ Password reset email sent');
+    } catch (error) {
+      console.error('❌ Password reset error:', (error as AuthError).code || error);
+      throw error;
+    }
+  };
+
+  // Send (again) the email verification link
+  const sendVerificationEmail = async (): Promise<void> => {
+    try {
+      await sendEmailVerification(requireCurrentUser());
+      console.log('✅ Verification email sent');
+    } catch (error) {
+      console.error('❌ Verification email error:', (error as AuthError).code || error);
+      throw error;
+    }
+  };
+
+  // Reload the user to pick up changes made outside the app (verified email...)
+  const refreshUser = async (): Promise<boolean> => {
+    try {
+      const currentUser = requireCurrentUser();
+      await currentUser.reload();
+      setIsEmailVerified(currentUser.emailVerified);
+      console.log('🔄 User reloaded, email verified:', currentUser.emailVerified);
+      return currentUser.emailVerified;
+    } catch (error) {
+      console.error('❌ Error reloading user:', (error as AuthError).code || error);
+      throw error;
+    }
+  };
+
+  // Sign in again with the current password, required by Firebase before sensitive operations
+  const reauthenticate = async (password: string): Promise<void> => {
+    try {
+      const currentUser = requireCurrentUser();
+      if (!currentUser.email) {
+        throw new Error('The signed-in user has no email address');
+      }
+      await reauthenticateWithCredential(currentUser, EmailAuthProvider.credential(currentUser.email, password));
+      console.log('✅ Reauthentication successful');
+    } catch (error) {
+      console.error('❌ Reauthentication error:', (error as AuthError).code || error);
+      throw error;
+    }
+  };
+
+  // Change the password after confirming the current one
+  const changePassword = async (currentPassword: string, newPassword: string): Promise<void> => {
+    await reauthenticate(currentPassword);
+    try {
+      await updatePassword(requireCurrentUser(), newPassword);
+      console.log('✅ Password changed');
+    } catch (error) {
+      console.error('❌ Password change error:', (error as AuthError).code || error);
+      throw error;
+    }
+  };
+
+  // Delete the account after confirming the password, so Firebase accepts the final step.
+  // Guests have no password to confirm.
+  const deleteAccount = async (
+    password: string,
+    onStep?: (step: AccountDeletionStep) => void
+  ): Promise<void> => {
+    if (!requireCurrentUser().isAnonymous) {
+      await reauthenticate(password);
+    }
+    try {
+      await deleteAccountData(requireCurrentUser(), onStep);
+      setUser(null);
+      setIsEmailVerified(false);
+    } catch (error) {
+      console.error('❌ Account deletion error:', (error as AuthError).code || error);
+      throw error;
+    }
+  };
+
   return (
-    <AuthContext.Provider value={{ user, isLoading, login, signup, logout, error, setError }}>
+    <AuthContext.Provider value={{
+      user,
+      isLoading,
+      login,
+      signup,
+      logout,
+      isGuest,
+      continueAsGuest,
+      upgradeGuestAccount,
+      isEmailVerified,
+      sendPasswordReset,
+      sendVerificationEmail,
+      refreshUser,
+      reauthenticate,
+      changePassword,
+      deleteAccount,
+      error,
+      setError,
+    }}>
       {children}
     </AuthContext.Provider>
   );
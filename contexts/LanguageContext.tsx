@@ -27,7 +27,6 @@ const en = {
   recalled: 'RECALLED',
   notRecalled: 'Not Recalled',
   nutritionalInfo: 'Nutritional Information',
-  calories: 'Calories',
   fats: 'Fats',
   carbs: 'Carbohydrates',
   proteins: 'Proteins',
@@ -39,6 +38,174 @@ const en = {
   noResults: 'No results found',
   error: 'An error occurred',
   retry: 'Retry',
+  recallDatabase: 'Recall Database',
+  lastSync: 'Last sync',
+  recordCount: 'Recalls stored',
+  never: 'Never',
+  syncNow: 'Sync Now',
+  syncFailed: 'Failed to sync the recall database',
+  scanBarcode: 'Scan Barcode',
+  pointAtBarcode: 'Point the camera at the product barcode',
+  invalidBarcode: 'Invalid barcode, keep the code steady in the frame',
+  barcode: 'Barcode',
+  cancel: 'Cancel',
+  searchPlaceholder: 'Product name, brand or barcode',
+  saveToHistory: 'Save to History',
+  savedToHistory: 'Saved to History',
+  backToResults: 'Back to Results',
+  possibleRecall: 'POSSIBLE RECALL',
+  matchConfidence: 'Match confidence',
+  lotAffected: 'Your lot is affected by this recall',
+  lotNotListed: 'This product has a recall, but your lot is not listed',
+  lotUnknown: 'Compare the lot number on your pack with the affected lots below',
+  yourLot: 'Your lot',
+  expiryDate: 'Use-by / best-before date',
+  recallAlertTitle: 'Recall alert',
+  recallAlertBody: 'A product you scanned has been recalled',
+  whatToDo: 'What to do',
+  recallAlerts: 'Recall Alerts',
+  recallAlertsDescription: 'Notify me when a product I scanned is recalled',
+  analysisCache: 'Analysis Cache',
+  cachedAnalyses: 'Cached analyses',
+  clearCache: 'Clear Cache',
+  clearCacheConfirm: 'Remove all cached image analyses? Photos will be analyzed again next time.',
+  cacheCleared: 'Cache cleared',
+  preparingImage: 'Preparing image...',
+  uploadingImage: 'Uploading image...',
+  analyzingProduct: 'Analyzing product...',
+  retryingIn: 'Service busy, retrying in {seconds}s...',
+  checkingRecalls: 'Checking recalls...',
+  searchHistory: 'Search your scans',
+  recalledOnly: 'Recalled only',
+  foodOnly: 'Food only',
+  today: 'Today',
+  yesterday: 'Yesterday',
+  last7Days: 'Last 7 days',
+  last30Days: 'Last 30 days',
+  sortBy: 'Sort',
+  sortNewest: 'Newest first',
+  sortOldest: 'Oldest first',
+  sortName: 'Name',
+  sortRecalledFirst: 'Recalled first',
+  noMatchingScans: 'No scans match these filters',
+  edit: 'Edit',
+  delete: 'Delete',
+  save: 'Save',
+  editScan: 'Edit scan',
+  productNameLabel: 'Product name',
+  description: 'Description',
+  deleteScanTitle: 'Delete scan',
+  deleteScanConfirm: 'Remove this product from your scan history?',
+  updateFailed: 'Could not save your changes. Please try again.',
+  deleteFailed: 'Could not delete this scan. Please try again.',
+  pendingSync: 'Waiting to sync',
+  allergenGluten: 'Gluten',
+  allergenCrustaceans: 'Crustaceans',
+  allergenEggs: 'Eggs',
+  allergenFish: 'Fish',
+  allergenPeanuts: 'Peanuts',
+  allergenSoy: 'Soy',
+  allergenMilk: 'Milk',
+  allergenNuts: 'Tree nuts',
+  allergenCelery: 'Celery',
+  allergenMustard: 'Mustard',
+  allergenSesame: 'Sesame',
+  allergenSulphites: 'Sulphites',
+  allergenLupin: 'Lupin',
+  allergenMolluscs: 'Molluscs',
+  allergenProfile: 'Allergen Profile',
+  allergenProfileDescription: 'Get a warning when a product or its recall involves one of these allergens',
+  allergenWarning: 'Allergen warning',
+  containsAllergens: 'Contains',
+  mayContainAllergens: 'May contain',
+  recallMentionsAllergens: 'Recalled for',
+  ingredients: 'Ingredients',
+  energy: 'Energy',
+  saturatedFat: 'of which saturates',
+  sugars: 'of which sugars',
+  fibre: 'Fibre',
+  salt: 'Salt',
+  per100g: 'Per 100 g',
+  per100ml: 'Per 100 ml',
+  perServing: 'Per serving',
+  estimatedValues: '~ Estimated from similar products',
+  nutriScoreEstimated: 'Estimated: some values were guessed or missing',
+  lookingUpProduct: 'Looking up the product...',
+  productNotFound: 'This barcode is not in Open Food Facts yet. Take a photo of the packaging to identify the product.',
+  identifyFromPhoto: 'Identify from a photo',
+  sourceOpenFoodFacts: 'Product data from Open Food Facts (ODbL)',
+  sourceImageAnalysis: 'Product data read from the photo by image analysis, please check it against the label',
+  authErrorInvalidCredential: 'Invalid email or password. Please check your credentials and try again.',
+  authErrorUserNotFound: 'No account found with this email. Please sign up first.',
+  authErrorWrongPassword: 'Invalid password. Please try again.',
+  authErrorUserMismatch: 'This password belongs to another account.',
+  authErrorUserDisabled: 'This account has been disabled.',
+  authErrorTooManyRequests: 'Too many attempts. Please try again later or reset your password.',
+  authErrorNetwork: 'Network error. Please check your internet connection.',
+  authErrorEmailInUse: 'This email is already in use. Please try a different email or log in.',
+  authErrorInvalidEmail: 'The email address is not valid. Please check and try again.',
+  authErrorMissingEmail: 'Please enter your email address.',
+  authErrorMissingPassword: 'Please enter your password.',
+  authErrorWeakPassword: 'Password is too weak. Please use a stronger password.',
+  authErrorRequiresRecentLogin: 'For your security, please enter your password again.',
+  authErrorSessionExpired: 'Your session has expired. Please log in again.',
+  authErrorExpiredActionCode: 'This link has expired. Please request a new one.',
+  authErrorInvalidActionCode: 'This link is not valid or has already been used.',
+  authErrorOperationNotAllowed: 'This sign-in method is not enabled.',
+  authErrorCredentialInUse: 'These credentials are already linked to another account.',
+  authErrorUnknown: 'An unknown error occurred. Please try again.',
+  forgotPassword: 'Forgot password?',
+  resetPassword: 'Reset Password',
+  resetPasswordHint: 'Enter the email of your account and we will send you a link to choose a new password.',
+  sendResetLink: 'Send Reset Link',
+  passwordResetSent: 'If an account exists for {email}, a link to reset your password has been sent. Check your inbox.',
+  backToLogin: 'Back to login',
+  verifyEmail: 'Verify Your Email',
+  verifyEmailHint: 'We sent a verification link to {email}. Open it, then come back here.',
+  iVerifiedMyEmail: 'I Have Verified My Email',
+  emailNotVerifiedYet: 'Your email is not verified yet. Please open the link we sent you.',
+  verificationEmailSent: 'A new verification email has been sent.',
+  resendEmail: 'Resend Email',
+  resendEmailIn: 'Resend Email ({seconds}s)',
+  verifyLater: 'Later',
+  emailVerified: 'Email verified',
+  emailNotVerified: 'Email not verified',
+  changePassword: 'Change Password',
+  currentPassword: 'Current password',
+  newPassword: 'New password',
+  confirmNewPassword: 'Confirm new password',
+  passwordTooShort: 'Password must be at least 8 characters long',
+  passwordsDoNotMatch: 'Passwords do not match',
+  passwordChanged: 'Your password has been changed.',
+  deleteAccount: 'Delete Account',
+  deleteAccountHint: 'This permanently deletes your account, your scan history, the photos you uploaded for analysis and the data saved on this device. This cannot be undone. Photos uploaded with older versions of the app were not linked to your account and are not removed.',
+  deleteAccountConfirm: 'Delete your account and its data? This cannot be undone.',
+  deletionStepLocalScans: 'Removing scans saved on this device...',
+  deletionStepScanHistory: 'Deleting your scan history...',
+  deletionStepImages: 'Deleting your uploaded photos...',
+  deletionStepLocalData: 'Removing your preferences...',
+  deletionStepAuthUser: 'Deleting your account...',
+  accountDeleted: 'Your account and its data have been deleted.',
+  accountDeletionFailed: 'The deletion could not be completed. What was already deleted stays deleted: try again to finish.',
+  accountDeletionPending: 'Account deletion not finished',
+  accountDeletionPendingHint: 'Enter your password to finish deleting your account.',
+  exportData: 'Export My Data',
+  exportDataHint: 'Your profile, preferences and scan history, in a zip file. Its JSON archive can be imported back into ScanRappel; its CSV file opens in a spreadsheet.',
+  exportAction: 'Export',
+  exportFailed: 'Your data could not be exported. Please try again.',
+  importData: 'Import Scan History',
+  importDataConfirm: '{count} scans found in the archive. Scans already in your history will be skipped. Import them?',
+  importResult: '{imported} scans imported, {duplicates} already in your history, {invalid} invalid entries skipped.',
+  importNothing: 'This archive contains no scans to import.',
+  importInvalidArchive: 'This file is not a ScanRappel archive.',
+  importUnsupportedVersion: 'This archive was made by a newer version of ScanRappel. Update the app to import it.',
+  importFailed: 'The scans could not be imported. Please try again.',
+  continueAsGuest: 'Continue without an account',
+  guest: 'Guest',
+  guestAccountHint: 'Your scans are saved to a guest account. Create an account to keep them if you change devices.',
+  createAccount: 'Create an Account',
+  upgradeGuestHint: 'Your scan history will be kept in your new account.',
+  guestLogoutWarning: 'Guests cannot sign back in: your scan history will be lost. Create an account first to keep it.',
 };
 
 // French translations
@@ -64,7 +231,6 @@ const fr = {
   recalled: 'RAPPELÉ',
   notRecalled: 'Non rappelé',
   nutritionalInfo: 'Informations nutritionnelles',
-  calories: 'Calories',
   fats: 'Matières grasses',
   carbs: 'Glucides',
   proteins: 'Protéines',
@@ -76,6 +242,174 @@ const fr = {
   noResults: 'Aucun résultat trouvé',
   error: 'Une erreur est survenue',
   retry: 'Réessayer',
+  recallDatabase: 'Base des rappels',
+  lastSync: 'Dernière synchronisation',
+  recordCount: 'Rappels enregistrés',
+  never: 'Jamais',
+  syncNow: 'Synchroniser',
+  syncFailed: 'Échec de la synchronisation de la base des rappels',
+  scanBarcode: 'Scanner le code-barres',
+  pointAtBarcode: 'Pointez la caméra vers le code-barres du produit',
+  invalidBarcode: 'Code-barres invalide, gardez le code immobile dans le cadre',
+  barcode: 'Code-barres',
+  cancel: 'Annuler',
+  searchPlaceholder: 'Nom du produit, marque ou code-barres',
+  saveToHistory: "Enregistrer dans l'historique",
+  savedToHistory: "Enregistré dans l'historique",
+  backToResults: 'Retour aux résultats',
+  possibleRecall: 'RAPPEL POSSIBLE',
+  matchConfidence: 'Indice de correspondance',
+  lotAffected: 'Votre lot est concerné par ce rappel',
+  lotNotListed: "Ce produit fait l'objet d'un rappel, mais votre lot n'est pas listé",
+  lotUnknown: 'Comparez le numéro de lot de votre emballage avec les lots concernés ci-dessous',
+  yourLot: 'Votre lot',
+  expiryDate: 'DLC / DDM',
+  recallAlertTitle: 'Alerte rappel',
+  recallAlertBody: 'Un produit que vous avez scanné fait l\'objet d\'un rappel',
+  whatToDo: 'Que faire',
+  recallAlerts: 'Alertes de rappel',
+  recallAlertsDescription: 'Me prévenir quand un produit scanné est rappelé',
+  analysisCache: 'Cache des analyses',
+  cachedAnalyses: 'Analyses en cache',
+  clearCache: 'Vider le cache',
+  clearCacheConfirm: 'Supprimer toutes les analyses d\'images en cache ? Les photos seront de nouveau analysées.',
+  cacheCleared: 'Cache vidé',
+  preparingImage: 'Préparation de l\'image...',
+  uploadingImage: 'Envoi de l\'image...',
+  analyzingProduct: 'Analyse du produit...',
+  retryingIn: 'Service occupé, nouvel essai dans {seconds} s...',
+  checkingRecalls: 'Vérification des rappels...',
+  searchHistory: 'Rechercher dans vos scans',
+  recalledOnly: 'Rappelés uniquement',
+  foodOnly: 'Alimentaire uniquement',
+  today: 'Aujourd\'hui',
+  yesterday: 'Hier',
+  last7Days: '7 derniers jours',
+  last30Days: '30 derniers jours',
+  sortBy: 'Trier',
+  sortNewest: 'Plus récents',
+  sortOldest: 'Plus anciens',
+  sortName: 'Nom',
+  sortRecalledFirst: 'Rappelés d\'abord',
+  noMatchingScans: 'Aucun scan ne correspond à ces filtres',
+  edit: 'Modifier',
+  delete: 'Supprimer',
+  save: 'Enregistrer',
+  editScan: 'Modifier le scan',
+  productNameLabel: 'Nom du produit',
+  description: 'Description',
+  deleteScanTitle: 'Supprimer le scan',
+  deleteScanConfirm: 'Retirer ce produit de votre historique de scans ?',
+  updateFailed: 'Impossible d\'enregistrer vos modifications. Veuillez réessayer.',
+  deleteFailed: 'Impossible de supprimer ce scan. Veuillez réessayer.',
+  pendingSync: 'En attente de synchronisation',
+  allergenGluten: 'Gluten',
+  allergenCrustaceans: 'Crustacés',
+  allergenEggs: 'Œufs',
+  allergenFish: 'Poisson',
+  allergenPeanuts: 'Arachides',
+  allergenSoy: 'Soja',
+  allergenMilk: 'Lait',
+  allergenNuts: 'Fruits à coque',
+  allergenCelery: 'Céleri',
+  allergenMustard: 'Moutarde',
+  allergenSesame: 'Sésame',
+  allergenSulphites: 'Sulfites',
+  allergenLupin: 'Lupin',
+  allergenMolluscs: 'Mollusques',
+  allergenProfile: 'Profil allergènes',
+  allergenProfileDescription: 'Soyez averti quand un produit ou son rappel concerne l\'un de ces allergènes',
+  allergenWarning: 'Alerte allergènes',
+  containsAllergens: 'Contient',
+  mayContainAllergens: 'Peut contenir',
+  recallMentionsAllergens: 'Rappelé pour',
+  ingredients: 'Ingrédients',
+  energy: 'Énergie',
+  saturatedFat: 'dont acides gras saturés',
+  sugars: 'dont sucres',
+  fibre: 'Fibres alimentaires',
+  salt: 'Sel',
+  per100g: 'Pour 100 g',
+  per100ml: 'Pour 100 ml',
+  perServing: 'Par portion',
+  estimatedValues: '~ Estimé à partir de produits similaires',
+  nutriScoreEstimated: 'Estimé : certaines valeurs sont devinées ou manquantes',
+  lookingUpProduct: 'Recherche du produit...',
+  productNotFound: 'Ce code-barres n\'est pas encore dans Open Food Facts. Prenez l\'emballage en photo pour identifier le produit.',
+  identifyFromPhoto: 'Identifier avec une photo',
+  sourceOpenFoodFacts: 'Données produit issues d\'Open Food Facts (ODbL)',
+  sourceImageAnalysis: 'Données produit lues sur la photo par analyse d\'image, vérifiez-les sur l\'étiquette',
+  authErrorInvalidCredential: 'Courriel ou mot de passe incorrect. Vérifiez vos identifiants et réessayez.',
+  authErrorUserNotFound: 'Aucun compte n\'existe avec ce courriel. Inscrivez-vous d\'abord.',
+  authErrorWrongPassword: 'Mot de passe incorrect. Veuillez réessayer.',
+  authErrorUserMismatch: 'Ce mot de passe correspond à un autre compte.',
+  authErrorUserDisabled: 'Ce compte a été désactivé.',
+  authErrorTooManyRequests: 'Trop de tentatives. Réessayez plus tard ou réinitialisez votre mot de passe.',
+  authErrorNetwork: 'Erreur réseau. Vérifiez votre connexion internet.',
+  authErrorEmailInUse: 'Ce courriel est déjà utilisé. Essayez un autre courriel ou connectez-vous.',
+  authErrorInvalidEmail: 'L\'adresse courriel n\'est pas valide. Vérifiez-la et réessayez.',
+  authErrorMissingEmail: 'Veuillez saisir votre adresse courriel.',
+  authErrorMissingPassword: 'Veuillez saisir votre mot de passe.',
+  authErrorWeakPassword: 'Mot de passe trop faible. Choisissez un mot de passe plus robuste.',
+  authErrorRequiresRecentLogin: 'Par sécurité, veuillez saisir à nouveau votre mot de passe.',
+  authErrorSessionExpired: 'Votre session a expiré. Veuillez vous reconnecter.',
+  authErrorExpiredActionCode: 'Ce lien a expiré. Demandez-en un nouveau.',
+  authErrorInvalidActionCode: 'Ce lien n\'est pas valide ou a déjà été utilisé.',
+  authErrorOperationNotAllowed: 'Ce mode de connexion n\'est pas activé.',
+  authErrorCredentialInUse: 'Ces identifiants sont déjà associés à un autre compte.',
+  authErrorUnknown: 'Une erreur inconnue est survenue. Veuillez réessayer.',
+  forgotPassword: 'Mot de passe oublié ?',
+  resetPassword: 'Réinitialiser le mot de passe',
+  resetPasswordHint: 'Saisissez le courriel de votre compte et nous vous enverrons un lien pour choisir un nouveau mot de passe.',
+  sendResetLink: 'Envoyer le lien',
+  passwordResetSent: 'Si un compte existe pour {email}, un lien de réinitialisation a été envoyé. Consultez votre boîte de réception.',
+  backToLogin: 'Retour à la connexion',
+  verifyEmail: 'Vérifiez votre courriel',
+  verifyEmailHint: 'Nous avons envoyé un lien de vérification à {email}. Ouvrez-le, puis revenez ici.',
+  iVerifiedMyEmail: 'J\'ai vérifié mon courriel',
+  emailNotVerifiedYet: 'Votre courriel n\'est pas encore vérifié. Ouvrez le lien que nous vous avons envoyé.',
+  verificationEmailSent: 'Un nouveau courriel de vérification a été envoyé.',
+  resendEmail: 'Renvoyer le courriel',
+  resendEmailIn: 'Renvoyer le courriel ({seconds} s)',
+  verifyLater: 'Plus tard',
+  emailVerified: 'Courriel vérifié',
+  emailNotVerified: 'Courriel non vérifié',
+  changePassword: 'Changer le mot de passe',
+  currentPassword: 'Mot de passe actuel',
+  newPassword: 'Nouveau mot de passe',
+  confirmNewPassword: 'Confirmer le nouveau mot de passe',
+  passwordTooShort: 'Le mot de passe doit contenir au moins 8 caractères',
+  passwordsDoNotMatch: 'Les mots de passe ne correspondent pas',
+  passwordChanged: 'Votre mot de passe a été modifié.',
+  deleteAccount: 'Supprimer le compte',
+  deleteAccountHint: 'Cette action supprime définitivement votre compte, votre historique de scans, les photos envoyées pour analyse et les données enregistrées sur cet appareil. Elle est irréversible. Les photos envoyées avec d\'anciennes versions de l\'application n\'étaient pas liées à votre compte et ne sont pas supprimées.',
+  deleteAccountConfirm: 'Supprimer votre compte et ses données ? Cette action est irréversible.',
+  deletionStepLocalScans: 'Suppression des scans enregistrés sur cet appareil...',
+  deletionStepScanHistory: 'Suppression de votre historique de scans...',
+  deletionStepImages: 'Suppression de vos photos envoyées...',
+  deletionStepLocalData: 'Suppression de vos préférences...',
+  deletionStepAuthUser: 'Suppression de votre compte...',
+  accountDeleted: 'Votre compte et ses données ont été supprimés.',
+  accountDeletionFailed: 'La suppression n\'a pas pu aboutir. Ce qui a déjà été supprimé le reste : réessayez pour terminer.',
+  accountDeletionPending: 'Suppression du compte inachevée',
+  accountDeletionPendingHint: 'Saisissez votre mot de passe pour terminer la suppression de votre compte.',
+  exportData: 'Exporter mes données',
+  exportDataHint: 'Votre profil, vos préférences et votre historique de scans, dans un fichier zip. Son archive JSON peut être réimportée dans ScanRappel ; son fichier CSV s\'ouvre dans un tableur.',
+  exportAction: 'Exporter',
+  exportFailed: 'Vos données n\'ont pas pu être exportées. Veuillez réessayer.',
+  importData: 'Importer un historique',
+  importDataConfirm: '{count} scans trouvés dans l\'archive. Ceux déjà présents dans votre historique seront ignorés. Les importer ?',
+  importResult: '{imported} scans importés, {duplicates} déjà dans votre historique, {invalid} entrées invalides ignorées.',
+  importNothing: 'Cette archive ne contient aucun scan à importer.',
+  importInvalidArchive: 'Ce fichier n\'est pas une archive ScanRappel.',
+  importUnsupportedVersion: 'Cette archive a été créée par une version plus récente de ScanRappel. Mettez l\'application à jour pour l\'importer.',
+  importFailed: 'Les scans n\'ont pas pu être importés. Veuillez réessayer.',
+  continueAsGuest: 'Continuer sans compte',
+  guest: 'Invité',
+  guestAccountHint: 'Vos scans sont enregistrés dans un compte invité. Créez un compte pour les conserver si vous changez d\'appareil.',
+  createAccount: 'Créer un compte',
+  upgradeGuestHint: 'Votre historique de scans sera conservé dans votre nouveau compte.',
+  guestLogoutWarning: 'Un invité ne peut pas se reconnecter : votre historique de scans sera perdu. Créez d\'abord un compte pour le conserver.',
 };
 
 // Create translations object with all languages
@@ -84,11 +418,18 @@ const translations = {
   fr,
 };
 
+export type TranslationKey = keyof typeof en;
+
+// Translate outside of React components (e.g. background tasks)
+export const translate = (language: Language, key: TranslationKey): string => {
+  return translations[language][key] || key;
+};
+
 // Define the shape of the context
 interface LanguageContextType {
   language: Language;
   setLanguage: (language: Language) => void;
-  t: (key: keyof typeof en) => string;
+  t: (key: TranslationKey) => string;
 }
 
 // Create the context with default values
@@ -137,9 +478,7 @@ export const LanguageProvider: React.FC<LanguageProviderProps> = ({ children })
   };
 
   // Translate function
-  const t = (key: keyof typeof en): string => {
-    return translations[language][key] || key;
-  };
+  const t = (key: TranslationKey): string => translate(language, key);
 
   if (isLoading) {
     return null; // or a loading spinner
@@ -0,0 +1,200 @@
+import React, { useContext } from 'react';
+import { act, create, type ReactTestRenderer } from 'react-test-renderer';
+import {
+  createUserWithEmailAndPassword,
+  linkWithCredential,
+  reauthenticateWithCredential,
+  sendEmailVerification,
+  sendPasswordResetEmail,
+  updatePassword,
+} from 'firebase/auth';
+import { AuthContext, AuthProvider } from '../AuthContext';
+import { auth } from '../../services/firebaseConfig';
+import { deleteAccountData } from '../../services/accountDeletion';
+import { getAuthErrorMessageKey } from '../../services/authErrors';
+
+// Same calls the app makes against the Firebase Auth emulator, answered by mocks.
+// FirebaseError is mocked too: Jest does not transform the ESM build of the Firebase SDK.
+jest.mock('firebase/auth', () => ({
+  signInWithEmailAndPassword: jest.fn(),
+  createUserWithEmailAndPassword: jest.fn(),
+  signInAnonymously: jest.fn(),
+  linkWithCredential: jest.fn(),
+  signOut: jest.fn(),
+  onAuthStateChanged: jest.fn(() => () => undefined),
+  sendPasswordResetEmail: jest.fn(),
+  sendEmailVerification: jest.fn(),
+  reauthenticateWithCredential: jest.fn(),
+  updatePassword: jest.fn(),
+  EmailAuthProvider: {
+    credential: jest.fn((email: string, password: string) => ({ providerId: 'password', email, password })),
+  },
+}));
+
+jest.mock('firebase/app', () => ({
+  FirebaseError: class FirebaseError extends Error {
+    code: string;
+
+    constructor(code: string, message: string) {
+      super(message);
+      this.code = code;
+    }
+  },
+}));
+
+jest.mock('../../services/firebaseConfig', () => ({
+  auth: { currentUser: null },
+}));
+
+jest.mock('../../services/authPersistence', () => ({
+  clearAuthData: jest.fn(),
+  storeUserData: jest.fn(),
+  getStoredUserData: jest.fn(async () => null),
+}));
+
+jest.mock('../../services/accountDeletion', () => ({
+  deleteAccountData: jest.fn(),
+}));
+
+type AuthContextValue = React.ContextType<typeof AuthContext>;
+
+// Firebase error as thrown by the SDK
+const authError = (code: string) => Object.assign(new Error(`Firebase: Error (${code}).`), { code });
+
+const makeUser = (overrides: Record<string, unknown> = {}) => ({
+  uid: 'user-1',
+  email: 'jane@example.com',
+  emailVerified: false,
+  isAnonymous: false,
+  reload: jest.fn(),
+  ...overrides,
+});
+
+const mockAuth = auth as unknown as { currentUser: ReturnType<typeof makeUser> | null };
+
+let context: AuthContextValue;
+let renderer: ReactTestRenderer;
+
+const Probe = () => {
+  context = useContext(AuthContext);
+  return null;
+};
+
+beforeEach(async () => {
+  jest.clearAllMocks();
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  mockAuth.currentUser = null;
+
+  await act(async () => {
+    renderer = create(<AuthProvider><Probe /></AuthProvider>);
+  });
+});
+
+afterEach(() => {
+  act(() => renderer.unmount());
+  jest.restoreAllMocks();
+});
+
+describe('AuthProvider account flows', () => {
+  it('sends a verification email after signup, and still signs up when it fails', async () => {
+    const user = makeUser();
+    (createUserWithEmailAndPassword as jest.Mock).mockResolvedValue({ user });
+    (sendEmailVerification as jest.Mock).mockRejectedValueOnce(authError('auth/too-many-requests'));
+
+    await act(async () => {
+      await expect(context.signup('jane@example.com', 'secret123')).resolves.toEqual({ user });
+    });
+
+    expect(createUserWithEmailAndPassword).toHaveBeenCalledWith(auth, 'jane@example.com', 'secret123');
+    expect(sendEmailVerification).toHaveBeenCalledWith(user);
+  });
+
+  it('sends password reset emails and reports unknown addresses', async () => {
+    await context.sendPasswordReset('jane@example.com');
+    expect(sendPasswordResetEmail).toHaveBeenCalledWith(auth, 'jane@example.com');
+
+    (sendPasswordResetEmail as jest.Mock).mockRejectedValueOnce(authError('auth/user-not-found'));
+    const error = await context.sendPasswordReset('nobody@example.com').catch(caught => caught);
+    expect(getAuthErrorMessageKey(error)).toBe('authErrorUserNotFound');
+  });
+
+  it('picks up a verified email when the user is reloaded', async () => {
+    const user = makeUser();
+    user.reload.mockImplementation(async () => { user.emailVerified = true; });
+    mockAuth.currentUser = user;
+
+    let verified = false;
+    await act(async () => {
+      verified = await context.refreshUser();
+    });
+
+    expect(verified).toBe(true);
+    expect(context.isEmailVerified).toBe(true);
+  });
+
+  it('confirms the current password before changing it', async () => {
+    const user = makeUser();
+    mockAuth.currentUser = user;
+
+    await context.changePassword('old-secret', 'new-secret');
+
+    expect(reauthenticateWithCredential).toHaveBeenCalledWith(user, expect.objectContaining({ email: 'jane@example.com', password: 'old-secret' }));
+    expect(updatePassword).toHaveBeenCalledWith(user, 'new-secret');
+  });
+
+  it('keeps the password when the current one is wrong', async () => {
+    mockAuth.currentUser = makeUser();
+    (reauthenticateWithCredential as jest.Mock).mockRejectedValueOnce(authError('auth/invalid-credential'));
+
+    const error = await context.changePassword('wrong', 'new-secret').catch(caught => caught);
+
+    expect(getAuthErrorMessageKey(error)).toBe('authErrorInvalidCredential');
+    expect(updatePassword).not.toHaveBeenCalled();
+  });
+
+  it('links an email and password to a guest account, keeping its uid', async () => {
+    const guest = makeUser({ email: null, isAnonymous: true });
+    const upgraded = makeUser({ isAnonymous: false });
+    mockAuth.currentUser = guest;
+    (linkWithCredential as jest.Mock).mockResolvedValue({ user: upgraded });
+
+    await act(async () => {
+      await context.upgradeGuestAccount('jane@example.com', 'secret123');
+    });
+
+    expect(linkWithCredential).toHaveBeenCalledWith(guest, expect.objectContaining({ email: 'jane@example.com' }));
+    expect(context.user).toBe(upgraded);
+    expect(context.isGuest).toBe(false);
+    expect(sendEmailVerification).toHaveBeenCalledWith(upgraded);
+  });
+
+  it('refuses to upgrade an account that is not a guest', async () => {
+    mockAuth.currentUser = makeUser();
+
+    await act(async () => {
+      await expect(context.upgradeGuestAccount('jane@example.com', 'secret123')).rejects.toThrow('not a guest');
+    });
+    expect(linkWithCredential).not.toHaveBeenCalled();
+  });
+
+  it('confirms the password before deleting an account, but not for guests', async () => {
+    const onStep = jest.fn();
+    const user = makeUser();
+    mockAuth.currentUser = user;
+
+    await act(async () => {
+      await context.deleteAccount('secret123', onStep);
+    });
+    expect(reauthenticateWithCredential).toHaveBeenCalledTimes(1);
+    expect(deleteAccountData).toHaveBeenCalledWith(user, onStep);
+
+    const guest = makeUser({ email: null, isAnonymous: true });
+    mockAuth.currentUser = guest;
+    await act(async () => {
+      await context.deleteAccount('');
+    });
+    expect(reauthenticateWithCredential).toHaveBeenCalledTimes(1);
+    expect(deleteAccountData).toHaveBeenLastCalledWith(guest, undefined);
+  });
+});
@@ -0,0 +1,319 @@
+import { onRequest } from 'firebase-functions/v2/https';
+import * as functionsV1 from 'firebase-functions/v1';
+import { defineInt, defineSecret } from 'firebase-functions/params';
+import * as logger from 'firebase-functions/logger';
+import { initializeApp } from 'firebase-admin/app';
+import { getAuth } from 'firebase-admin/auth';
+import { getFirestore, type DocumentReference } from 'firebase-admin/firestore';
+import { getStorage } from 'firebase-admin/storage';
+import OpenAI from 'openai';
+import {
+  PRODUCT_ANALYSIS_PROMPT,
+  PRODUCT_ANALYSIS_SCHEMA,
+  PRODUCT_ANALYSIS_SYSTEM_PROMPT,
+  ProductAnalysisValidationError,
+  parseProductAnalysis,
+} from '../../services/productAnalysis';
+
+/**
+ * Analysis proxy: the app sends an image reference with the user's Firebase ID
+ * token, and this function calls the vision model with the server-side OpenAI key.
+ * Run locally with `npm run serve` (Firebase emulators).
+ */
+
+initializeApp();
+
+const OPENAI_API_KEY = defineSecret('OPENAI_API_KEY');
+const DAILY_ANALYSIS_QUOTA = defineInt('DAILY_ANALYSIS_QUOTA', { default: 30 });
+// Anyone can create guest (anonymous) accounts, so each gets a small quota and all of
+// them together share a daily budget
+const GUEST_DAILY_ANALYSIS_QUOTA = defineInt('GUEST_DAILY_ANALYSIS_QUOTA', { default: 3 });
+const GUEST_DAILY_ANALYSIS_BUDGET = defineInt('GUEST_DAILY_ANALYSIS_BUDGET', { default: 100 });
+
+// Models the app may ask for
+const ALLOWED_MODELS = ['gpt-4o', 'gpt-4o-mini'];
+const DEFAULT_MODEL = 'gpt-4o';
+
+// Uploaded images live in the user's folder of this Storage folder (see storage.rules)
+const IMAGE_FOLDER = 'food_images';
+const IMAGE_PATH_PATTERN = /^food_images\/([\w-]+)\/[\w.-]+$/;
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024; // 5MB, same limit as storage.rules
+
+// Per-user usage counters, never readable or writable by clients
+const USAGE_COLLECTION = 'aiUsage';
+// Usage counters shared by several users (all guests), same format
+const SHARED_USAGE_COLLECTION = 'aiUsageShared';
+const GUEST_USAGE_DOC = 'guests';
+
+// Error returned to the client with an HTTP status
+class HttpError extends Error {
+  status: number;
+  details: Record<string, unknown>;
+
+  constructor(status: number, message: string, details: Record<string, unknown> = {}) {
+    super(message);
+    this.status = status;
+    this.details = details;
+  }
+}
+
+interface Caller {
+  uid: string;
+  // Signed in with guest mode (Firebase anonymous auth)
+  isGuest: boolean;
+}
+
+/**
+ * Verify the Firebase ID token sent as "Authorization: Bearer <token>"
+ * @returns The authenticated user
+ */
+const authenticate = async (authorization: string | undefined): Promise<Caller> => {
+  const match = authorization?.match(/^Bearer (.+)$/);
+  if (!match) {
+    throw new HttpError(401, 'Missing ID token');
+  }
+  try {
+    const decoded = await getAuth().verifyIdToken(match[1]);
+    return { uid: decoded.uid, isGuest: decoded.firebase.sign_in_provider === 'anonymous' };
+  } catch (error) {
+    logger.warn('Invalid ID token', error);
+    throw new HttpError(401, 'Invalid ID token');
+  }
+};
+
+/**
+ * Seconds until the daily quota resets (midnight UTC)
+ */
+const secondsUntilReset = (): number => {
+  const now = new Date();
+  const reset = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1);
+  return Math.ceil((reset - now.getTime()) / 1000);
+};
+
+// A daily counter and its limit
+interface QuotaCounter {
+  ref: DocumentReference;
+  limit: number;
+}
+
+/**
+ * Counters an analysis by this user counts against, the user's own first
+ */
+const quotaCounters = (caller: Caller): QuotaCounter[] => {
+  const db = getFirestore();
+  if (!caller.isGuest) {
+    return [{ ref: db.collection(USAGE_COLLECTION).doc(caller.uid), limit: DAILY_ANALYSIS_QUOTA.value() }];
+  }
+  return [
+    { ref: db.collection(USAGE_COLLECTION).doc(caller.uid), limit: GUEST_DAILY_ANALYSIS_QUOTA.value() },
+    { ref: db.collection(SHARED_USAGE_COLLECTION).doc(GUEST_USAGE_DOC), limit: GUEST_DAILY_ANALYSIS_BUDGET.value() },
+  ];
+};
+
+/**
+ * Count one analysis against every daily counter of the user
+ * @returns Usage of the user's own quota
+ * @throws HttpError 429 when one of the counters is exhausted
+ */
+const reserveQuota = async (counters: QuotaCounter[]): Promise<{ used: number; limit: number }> => {
+  const today = new Date().toISOString().slice(0, 10);
+
+  const counts = await getFirestore().runTransaction(async transaction => {
+    const snapshots = await Promise.all(counters.map(counter => transaction.get(counter.ref)));
+    const current = snapshots.map(snapshot => {
+      const data = snapshot.data();
+      return data?.day === today ? (data.count as number) : 0;
+    });
+
+    if (current.some((count, i) => count >= counters[i].limit)) {
+      throw new HttpError(429, 'Daily analysis quota exceeded', {
+        quotaExceeded: true,
+        retryAfter: secondsUntilReset(),
+      });
+    }
+
+    counters.forEach((counter, i) => {
+      transaction.set(counter.ref, { day: today, count: current[i] + 1, updatedAt: new Date() });
+    });
+    return current.map(count => count + 1);
+  });
+
+  return { used: counts[0], limit: counters[0].limit };
+};
+
+/**
+ * Give back a reserved analysis when the request failed before the model was called
+ */
+const releaseQuota = async (counters: QuotaCounter[]): Promise<void> => {
+  const today = new Date().toISOString().slice(0, 10);
+
+  await getFirestore().runTransaction(async transaction => {
+    const snapshots = await Promise.all(counters.map(counter => transaction.get(counter.ref)));
+    snapshots.forEach((snapshot, i) => {
+      const data = snapshot.data();
+      if (data?.day === today && data.count > 0) {
+        transaction.update(counters[i].ref, { count: data.count - 1 });
+      }
+    });
+  });
+};
+
+/**
+ * Turn the request's image reference into a data URL the model can read.
+ * Storage is read with admin rights, so the image must be in the caller's own folder.
+ */
+const loadImage = async (uid: string, body: { imagePath?: unknown; imageBase64?: unknown }): Promise<string> => {
+  if (typeof body.imagePath === 'string') {
+    const match = body.imagePath.match(IMAGE_PATH_PATTERN);
+    if (!match) {
+      throw new HttpError(400, 'Invalid image path');
+    }
+    // Users can only have their own images analyzed
+    if (match[1] !== uid) {
+      throw new HttpError(403, 'Image belongs to another user');
+    }
+
+    const file = getStorage().bucket().file(body.imagePath);
+    const [exists] = await file.exists();
+    if (!exists) {
+      throw new HttpError(404, 'Image not found');
+    }
+
+    const [metadata] = await file.getMetadata();
+    if (Number(metadata.size) > MAX_IMAGE_BYTES) {
+      throw new HttpError(413, 'Image is too large');
+    }
+
+    const [contents] = await file.download();
+    return `data:${metadata.contentType || 'image/jpeg'};base64,${contents.toString('base64')}`;
+  }
+
+  if (typeof body.imageBase64 === 'string') {
+    // base64 grows the payload by a third
+    if (body.imageBase64.length > (MAX_IMAGE_BYTES * 4) / 3) {
+      throw new HttpError(413, 'Image is too large');
+    }
+    return `data:image/jpeg;base64,${body.imageBase64}`;
+  }
+
+  throw new HttpError(400, 'Either imagePath or imageBase64 is required');
+};
+
+export const analyzeProduct = onRequest(
+  { secrets: [OPENAI_API_KEY], cors: true, timeoutSeconds: 120, memory: '512MiB' },
+  async (req, res) => {
+    if (req.method !== 'POST') {
+      res.status(405).json({ error: 'Method not allowed' });
+      return;
+    }
+
+    let counters: QuotaCounter[] = [];
+    let quotaReserved = false;
+    // Once the model has been called the analysis is billed, whatever it answered
+    let modelCalled = false;
+
+    try {
+      const caller = await authenticate(req.get('Authorization'));
+      const { uid } = caller;
+
+      const body = req.body || {};
+      const model = typeof body.model === 'string' && body.model ? body.model : DEFAULT_MODEL;
+      if (!ALLOWED_MODELS.includes(model)) {
+        throw new HttpError(400, `Model "${model}" is not allowed`);
+      }
+
+      const imageUrl = await loadImage(uid, body);
+      counters = quotaCounters(caller);
+      const quota = await reserveQuota(counters);
+      quotaReserved = true;
+
+      logger.info('Analyzing product image', { uid, guest: caller.isGuest, model, used: quota.used });
+
+      const openai = new OpenAI({ apiKey: OPENAI_API_KEY.value() });
+      modelCalled = true;
+      const response = await openai.chat.completions.create({
+        model,
+        messages: [
+          { role: 'system', content: PRODUCT_ANALYSIS_SYSTEM_PROMPT },
+          {
+            role: 'user',
+            content: [
+              { type: 'text', text: PRODUCT_ANALYSIS_PROMPT },
+              { type: 'image_url', image_url: { url: imageUrl } },
+            ],
+          },
+        ],
+        max_tokens: 800,
+        temperature: 0.1,
+        response_format: {
+          type: 'json_schema',
+          json_schema: {
+            name: 'product_analysis',
+            schema: PRODUCT_ANALYSIS_SCHEMA,
+            strict: true,
+          },
+        },
+      });
+
+      const message = response.choices[0]?.message;
+      if (message?.refusal) {
+        throw new HttpError(422, `The model refused to analyze this image: ${message.refusal}`);
+      }
+
+      const analysis = parseProductAnalysis(message?.content || '');
+      res.status(200).json({ analysis, quota });
+    } catch (error) {
+      // Requests that failed before reaching the model do not count against the user's quota;
+      // refusals and invalid answers do, or retrying a bad image would cost nothing
+      if (quotaReserved && !modelCalled) {
+        await releaseQuota(counters).catch(releaseError => logger.error('Failed to release quota', releaseError));
+      }
+
+      if (error instanceof HttpError) {
+        if (typeof error.details.retryAfter === 'number') {
+          res.set('Retry-After', String(error.details.retryAfter));
+        }
+        res.status(error.status).json({ error: error.message, ...error.details });
+        return;
+      }
+
+      if (error instanceof ProductAnalysisValidationError) {
+        logger.error('Invalid model response', error.problems);
+        // Flagged so the app does not retry: the same image would most likely fail again
+        res.status(502).json({ error: 'The model returned an invalid analysis', invalidAnalysis: true });
+        return;
+      }
+
+      logger.error('Product analysis failed', error);
+      const status = (error as { status?: number }).status;
+      if (status === 429) {
+        res.set('Retry-After', '30');
+        res.status(429).json({ error: 'The model is rate limited, please retry shortly' });
+        return;
+      }
+      res.status(500).json({ error: 'Product analysis failed' });
+    }
+  }
+);
+
+/**
+ * Remove what is left of a user's data once their account is deleted.
+ * The app purges scans and images itself before deleting the account; this also
+ * covers accounts deleted from the console and the usage counter clients cannot touch.
+ */
+export const purgeDeletedUserData = functionsV1.auth.user().onDelete(async user => {
+  const db = getFirestore();
+
+  const scans = await db.collection('scanHistory').where('userId', '==', user.uid).get();
+  // A batch holds at most 500 writes
+  for (let start = 0; start < scans.docs.length; start += 500) {
+    const batch = db.batch();
+    scans.docs.slice(start, start + 500).forEach(scan => batch.delete(scan.ref));
+    await batch.commit();
+  }
+
+  await getStorage().bucket().deleteFiles({ prefix: `${IMAGE_FOLDER}/${user.uid}/` });
+  await db.collection(USAGE_COLLECTION).doc(user.uid).delete();
+
+  logger.info('Purged deleted user data', { uid: user.uid, scans: scans.size });
+});
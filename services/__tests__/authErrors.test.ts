@@ -0,0 +1,33 @@
+import { FirebaseError } from 'firebase/app';
+import { getAuthErrorMessageKey } from '../authErrors';
+
+// FirebaseError without loading the Firebase SDK, whose ESM build Jest does not transform
+jest.mock('firebase/app', () => ({
+  FirebaseError: class FirebaseError extends Error {
+    code: string;
+
+    constructor(code: string, message: string) {
+      super(message);
+      this.code = code;
+    }
+  },
+}));
+
+describe('getAuthErrorMessageKey', () => {
+  it('maps Firebase Auth error codes to messages', () => {
+    expect(getAuthErrorMessageKey(new FirebaseError('auth/wrong-password', 'Wrong password'))).toBe('authErrorWrongPassword');
+    expect(getAuthErrorMessageKey(new FirebaseError('auth/requires-recent-login', 'Log in again'))).toBe('authErrorRequiresRecentLogin');
+  });
+
+  it('reads the code of errors that are not FirebaseError instances', () => {
+    expect(getAuthErrorMessageKey({ code: 'auth/invalid-login-credentials' })).toBe('authErrorInvalidCredential');
+    expect(getAuthErrorMessageKey({ code: 'auth/user-token-expired' })).toBe('authErrorSessionExpired');
+  });
+
+  it('falls back to a generic message', () => {
+    expect(getAuthErrorMessageKey(new FirebaseError('auth/internal-error', 'Internal error'))).toBe('authErrorUnknown');
+    expect(getAuthErrorMessageKey({ code: 'permission-denied' })).toBe('authErrorUnknown');
+    expect(getAuthErrorMessageKey(new Error('Network request failed'))).toBe('authErrorUnknown');
+    expect(getAuthErrorMessageKey(null)).toBe('authErrorUnknown');
+  });
+});
@@ -0,0 +1,58 @@
+import { computeGtinCheckDigit, extractGtin, isValidGtin, normalizeGtin } from '../barcode';
+
+describe('GTIN check digits', () => {
+  it('computes the GS1 check digit', () => {
+    expect(computeGtinCheckDigit('301762042200')).toBe(3);
+    expect(computeGtinCheckDigit('544900000099')).toBe(6);
+  });
+
+  it('accepts GTIN-8, GTIN-12, GTIN-13 and GTIN-14', () => {
+    expect(isValidGtin('96385074')).toBe(true);
+    expect(isValidGtin('036000291452')).toBe(true);
+    expect(isValidGtin('3017620422003')).toBe(true);
+    expect(isValidGtin('03017620422003')).toBe(true);
+  });
+
+  it('rejects an invalid check digit', () => {
+    expect(isValidGtin('3017620422004')).toBe(false);
+    expect(extractGtin('3017620422004')).toBeNull();
+  });
+
+  it('rejects unsupported lengths and non-digits', () => {
+    expect(isValidGtin('30176204220')).toBe(false);
+    expect(isValidGtin('30176204220O3')).toBe(false);
+  });
+});
+
+describe('normalizeGtin', () => {
+  it('converts UPC-A and zero-padded GTIN-14 to EAN-13', () => {
+    expect(normalizeGtin('036000291452')).toBe('0036000291452');
+    expect(normalizeGtin('03017620422003')).toBe('3017620422003');
+    expect(normalizeGtin('3017620422003')).toBe('3017620422003');
+  });
+});
+
+describe('extractGtin', () => {
+  it('reads plain EAN codes', () => {
+    expect(extractGtin(' 3017620422003 ')).toBe('3017620422003');
+  });
+
+  it('reads GS1 Digital Link URLs', () => {
+    expect(extractGtin('https://id.gs1.org/01/03017620422003')).toBe('3017620422003');
+    expect(extractGtin('https://example.com/01/03017620422003/10/LOT123?17=251231')).toBe('3017620422003');
+    expect(extractGtin('https://example.com/01/03017620422003#top')).toBe('3017620422003');
+  });
+
+  it('rejects a Digital Link with an invalid check digit', () => {
+    expect(extractGtin('https://id.gs1.org/01/03017620422004')).toBeNull();
+  });
+
+  it('ignores URLs without a GTIN', () => {
+    expect(extractGtin('https://example.com/products/3017620422003x')).toBeNull();
+  });
+
+  it('reads GS1 element strings', () => {
+    expect(extractGtin('(01)03017620422003(10)LOT123')).toBe('3017620422003');
+    expect(extractGtin('010301762042200310LOT123')).toBe('3017620422003');
+  });
+});
@@ -0,0 +1,233 @@
+import { zipSync } from 'fflate';
+import { importScanArchive, parseScanArchive, parseScanArchiveZip, ScanArchiveError } from '../dataImport';
+import { buildExportZip, SCAN_ARCHIVE_FORMAT, SCAN_ARCHIVE_VERSION, type ScanArchive } from '../dataExport';
+import { getScanHistory, saveScanHistory, type ProductDetails } from '../productService';
+
+// Keep Firebase and notifications out of the test
+jest.mock('../productService', () => ({
+  getScanHistory: jest.fn(),
+  saveScanHistory: jest.fn(),
+}));
+jest.mock('../recallAlerts', () => ({
+  areRecallAlertsEnabled: jest.fn(),
+}));
+
+const archivedScan = (overrides: Record<string, unknown> = {}) => ({
+  id: 'scan-1',
+  scanDate: '2024-05-02T10:00:00.000Z',
+  recallInfo: {
+    isRecalled: false,
+    productName: 'Nutella',
+    manufacturer: 'Ferrero',
+    lotNumber: '',
+    recallDate: '',
+    recallReason: '',
+    gtin: '3017620422003',
+  },
+  nutritionalInfo: null,
+  nutriScore: { grade: 'E', score: 22, category: 'food', estimated: false },
+  description: 'Pâte à tartiner',
+  imageUri: null,
+  isFood: true,
+  ingredients: null,
+  allergens: ['nuts', 'milk', 'unknown'],
+  mayContainAllergens: [],
+  pendingSync: false,
+  ...overrides,
+});
+
+const archiveText = (overrides: Record<string, unknown> = {}) => JSON.stringify({
+  format: SCAN_ARCHIVE_FORMAT,
+  version: SCAN_ARCHIVE_VERSION,
+  exportedAt: '2024-05-03T08:00:00.000Z',
+  scans: [archivedScan()],
+  ...overrides,
+});
+
+// Reason of the ScanArchiveError thrown for the text
+const errorReason = (text: string) => {
+  try {
+    parseScanArchive(text);
+  } catch (error) {
+    return error instanceof ScanArchiveError ? error.reason : error;
+  }
+  return null;
+};
+
+describe('parseScanArchive', () => {
+  it('converts archived scans back to scan details', () => {
+    const archive = parseScanArchive(archiveText());
+
+    expect(archive).toMatchObject({ version: SCAN_ARCHIVE_VERSION, exportedAt: '2024-05-03T08:00:00.000Z', invalid: 0 });
+    expect(archive.scans).toHaveLength(1);
+
+    const [{ archiveId, details }] = archive.scans;
+    expect(archiveId).toBe('scan-1');
+    expect(details.scanDate).toEqual(new Date('2024-05-02T10:00:00.000Z'));
+    expect(details.recallInfo.productName).toBe('Nutella');
+    expect(details.nutriScore?.grade).toBe('E');
+    // Unknown allergens are dropped, the others kept in EU_ALLERGENS order
+    expect(details.allergens).toEqual(['milk', 'nuts']);
+  });
+
+  it('rejects a file that is not JSON', () => {
+    expect(errorReason('{"format": "scanrappel-archive", "scans": [')).toBe('invalidFile');
+  });
+
+  it('rejects JSON that is not a ScanRappel archive', () => {
+    expect(errorReason('[]')).toBe('invalidFile');
+    expect(errorReason(archiveText({ format: 'other-app' }))).toBe('invalidFile');
+    expect(errorReason(archiveText({ scans: {} }))).toBe('invalidFile');
+  });
+
+  it('rejects archive versions this app cannot read', () => {
+    expect(errorReason(archiveText({ version: SCAN_ARCHIVE_VERSION + 1 }))).toBe('unsupportedVersion');
+    expect(errorReason(archiveText({ version: 0 }))).toBe('unsupportedVersion');
+    expect(errorReason(archiveText({ version: '1' }))).toBe('unsupportedVersion');
+  });
+
+  it('counts malformed scans instead of failing the whole archive', () => {
+    const archive = parseScanArchive(archiveText({
+      scans: [
+        archivedScan(),
+        archivedScan({ scanDate: 'yesterday' }),
+        archivedScan({ recallInfo: { productName: 'Nutella' } }),
+        'not a scan',
+        null,
+      ],
+    }));
+
+    expect(archive.scans).toHaveLength(1);
+    expect(archive.invalid).toBe(4);
+  });
+
+  it('fills in missing optional fields', () => {
+    const archive = parseScanArchive(archiveText({
+      scans: [{
+        scanDate: '2024-05-02T10:00:00.000Z',
+        recallInfo: { isRecalled: true, productName: 'Camembert' },
+        nutriScore: { grade: 'F' },
+      }],
+    }));
+
+    const [{ archiveId, details }] = archive.scans;
+    expect(archiveId).toBeNull();
+    expect(details.recallInfo).toMatchObject({ manufacturer: '', lotNumber: '', recallDate: '', recallReason: '' });
+    expect(details.nutriScore).toBeUndefined();
+    expect(details.allergens).toEqual([]);
+  });
+});
+
+describe('parseScanArchiveZip', () => {
+  it('reads the archive of an export zip', () => {
+    const zip = buildExportZip(JSON.parse(archiveText({ scans: [archivedScan({ imagePath: 'food_images/user-1/1.jpg' })] })) as ScanArchive);
+
+    const archive = parseScanArchiveZip(zip);
+
+    expect(archive.scans).toHaveLength(1);
+    expect(archive.scans[0].details.imagePath).toBe('food_images/user-1/1.jpg');
+  });
+
+  it('rejects files that are not zips, or zips without an archive', () => {
+    const reason = (bytes: Uint8Array) => {
+      try {
+        parseScanArchiveZip(bytes);
+      } catch (error) {
+        return error instanceof ScanArchiveError ? error.reason : error;
+      }
+      return null;
+    };
+
+    expect(reason(new TextEncoder().encode(archiveText()))).toBe('invalidFile');
+    expect(reason(zipSync({ 'scans.csv': new TextEncoder().encode('scanDate,productName') }))).toBe('invalidFile');
+  });
+});
+
+describe('importScanArchive', () => {
+  const mockGetScanHistory = getScanHistory as jest.Mock;
+  const mockSaveScanHistory = saveScanHistory as jest.Mock;
+
+  // Scan already in the user's history
+  const existingScan = (overrides: Partial<ProductDetails> = {}): ProductDetails => ({
+    id: 'existing-1',
+    scanDate: new Date('2024-05-02T10:00:00.000Z'),
+    recallInfo: {
+      isRecalled: false,
+      productName: 'Nutella',
+      manufacturer: 'Ferrero',
+      lotNumber: '',
+      recallDate: '',
+      recallReason: '',
+      gtin: '3017620422003',
+    },
+    ...overrides,
+  });
+
+  const importScans = (scans: unknown[]) =>
+    importScanArchive('user-1', parseScanArchive(archiveText({ scans })));
+
+  // Product names of the scans that were saved
+  const savedNames = () => mockSaveScanHistory.mock.calls.map(([, details]) => details.recallInfo.productName);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockGetScanHistory.mockResolvedValue([]);
+    mockSaveScanHistory.mockResolvedValue('new-id');
+  });
+
+  it('saves the scans that are not in the history yet', async () => {
+    const result = await importScans([archivedScan(), archivedScan({ id: 'scan-2', scanDate: '2024-05-04T10:00:00.000Z' })]);
+
+    expect(result).toEqual({ imported: 2, duplicates: 0, invalid: 0 });
+    expect(mockSaveScanHistory).toHaveBeenCalledTimes(2);
+    // Saved as new scans, without their archive id
+    expect(mockSaveScanHistory.mock.calls[0][1].id).toBeUndefined();
+  });
+
+  it('skips a scan whose archive id is already in the history', async () => {
+    mockGetScanHistory.mockResolvedValue([existingScan({ id: 'scan-1', scanDate: new Date('2023-01-01T00:00:00.000Z') })]);
+
+    const result = await importScans([archivedScan()]);
+
+    expect(result).toEqual({ imported: 0, duplicates: 1, invalid: 0 });
+    expect(mockSaveScanHistory).not.toHaveBeenCalled();
+  });
+
+  it('skips a scan of the same barcode at the same date', async () => {
+    mockGetScanHistory.mockResolvedValue([existingScan()]);
+
+    const result = await importScans([
+      archivedScan({ recallInfo: { ...archivedScan().recallInfo, productName: 'Nutella 400g' } }),
+      archivedScan({ id: 'scan-2', scanDate: '2024-05-02T10:00:01.000Z' }),
+    ]);
+
+    expect(result).toEqual({ imported: 1, duplicates: 1, invalid: 0 });
+    expect(mockSaveScanHistory.mock.calls[0][1].scanDate).toEqual(new Date('2024-05-02T10:00:01.000Z'));
+  });
+
+  it('skips a scan without barcode of the same product name at the same date', async () => {
+    const withoutGtin = { ...archivedScan().recallInfo, gtin: undefined };
+    mockGetScanHistory.mockResolvedValue([existingScan({ recallInfo: { ...withoutGtin, productName: 'Camembert' } })]);
+
+    const result = await importScans([
+      archivedScan({ recallInfo: { ...withoutGtin, productName: '  camembert ' } }),
+      archivedScan({ id: 'scan-2', recallInfo: { ...withoutGtin, productName: 'Brie' } }),
+    ]);
+
+    expect(result).toEqual({ imported: 1, duplicates: 1, invalid: 0 });
+    expect(savedNames()).toEqual(['Brie']);
+  });
+
+  it('imports a scan listed twice in the same archive only once', async () => {
+    const result = await importScans([
+      archivedScan(),
+      archivedScan(),
+      archivedScan({ id: 'scan-2' }),
+      archivedScan({ id: 'scan-3', recallInfo: { ...archivedScan().recallInfo, gtin: undefined, productName: 'Brie' } }),
+      archivedScan({ id: 'scan-4', recallInfo: { ...archivedScan().recallInfo, gtin: undefined, productName: 'BRIE' } }),
+    ]);
+
+    expect(result).toEqual({ imported: 2, duplicates: 3, invalid: 0 });
+    expect(savedNames()).toEqual(['Nutella', 'Brie']);
+  });
+});
@@ -0,0 +1,97 @@
+import { computeNutriScore, inferNutriScoreCategory } from '../nutriScore';
+import { NUTRIENT_UNITS, type NutritionalInfo } from '../nutrition';
+import type { NutrientKey } from '../productAnalysis';
+
+const makeNutrition = (
+  values: Partial<Record<NutrientKey, number>>,
+  basis: NutritionalInfo['basis'] = 'g',
+  estimated: NutrientKey[] = []
+): NutritionalInfo => ({
+  per100: Object.fromEntries(Object.entries(values).map(([key, value]) => [
+    key,
+    { value, unit: NUTRIENT_UNITS[key as NutrientKey], estimated: estimated.includes(key as NutrientKey) },
+  ])),
+  perServing: null,
+  basis,
+  servingSize: null,
+});
+
+// Only energy and salt score points, so the total is easy to place on a boundary
+const foodWith = (energyKj: number, salt: number, extra: Partial<Record<NutrientKey, number>> = {}) =>
+  makeNutrition({ energyKj, sugars: 0, saturatedFat: 0, salt, ...extra });
+
+describe('computeNutriScore grade boundaries', () => {
+  it.each([
+    [335, 0, 0, 'A'],
+    [336, 0, 1, 'B'],
+    [671, 0, 2, 'B'],
+    [1006, 0, 3, 'C'],
+    [3351, 0.2, 10, 'C'],
+    [3351, 0.21, 11, 'D'],
+    [3351, 1.61, 18, 'D'],
+    [3351, 1.81, 19, 'E'],
+  ])('general food: %d kJ and %d g salt score %d, grade %s', (energyKj, salt, score, grade) => {
+    expect(computeNutriScore(foodWith(energyKj, salt), 'food')).toMatchObject({ score, grade });
+  });
+
+  it('counts points only strictly above a threshold', () => {
+    expect(computeNutriScore(foodWith(335, 0.2), 'food')?.score).toBe(0);
+    expect(computeNutriScore(foodWith(335.1, 0.2), 'food')?.score).toBe(1);
+  });
+
+  it('drops protein from 11 negative points for general food, but not for cheese', () => {
+    const protein = { protein: 7.3 }; // 3 points
+    expect(computeNutriScore(foodWith(3351, 0.2, protein), 'food')?.score).toBe(7);
+    expect(computeNutriScore(foodWith(3351, 0.21, protein), 'food')?.score).toBe(11);
+    expect(computeNutriScore(foodWith(3351, 0.21, protein), 'cheese')?.score).toBe(8);
+  });
+
+  it('subtracts fibre points', () => {
+    expect(computeNutriScore(foodWith(1006, 0, { fibre: 4.2 }), 'food')).toMatchObject({ score: 1, grade: 'B' });
+  });
+
+  it('only gives an A to fats, oils, nuts and seeds at -6 or less', () => {
+    const nuts = (fibre: number) => makeNutrition({ energyKj: 2500, sugars: 0, saturatedFat: 0, fat: 50, salt: 0, protein: 20, fibre });
+    // 7 protein points and 5 fibre points against no negative points
+    expect(computeNutriScore(nuts(7.5), 'fats')).toMatchObject({ score: -12, grade: 'A' });
+    // 7 protein points and 0 fibre points
+    expect(computeNutriScore(nuts(0), 'fats')).toMatchObject({ score: -7, grade: 'A' });
+    expect(computeNutriScore(makeNutrition({ energyKj: 3700, sugars: 0, saturatedFat: 0, fat: 100, salt: 0 }), 'fats'))
+      .toMatchObject({ score: 0, grade: 'B' });
+  });
+
+  it('never gives an A to a beverage', () => {
+    const drink = makeNutrition({ energyKj: 0, sugars: 0, saturatedFat: 0, salt: 0 }, 'ml');
+    expect(computeNutriScore(drink, 'beverage')).toMatchObject({ score: 0, grade: 'B' });
+    expect(computeNutriScore(drink, 'water')).toMatchObject({ score: 0, grade: 'A' });
+  });
+
+  it('uses the beverage grid for beverages', () => {
+    const cola = makeNutrition({ energyKj: 180, sugars: 10.6, saturatedFat: 0, salt: 0 }, 'ml');
+    expect(computeNutriScore(cola, 'beverage')).toMatchObject({ score: 12, grade: 'E' });
+  });
+
+  it('returns null when a required value is missing', () => {
+    expect(computeNutriScore(makeNutrition({ energyKj: 500, sugars: 1, saturatedFat: 1 }), 'food')).toBeNull();
+    expect(computeNutriScore(null, 'food')).toBeNull();
+  });
+
+  it('flags results built on estimated or missing inputs', () => {
+    const complete = foodWith(500, 0.1, { protein: 1, fibre: 1 });
+    expect(computeNutriScore(complete, 'food')?.estimated).toBe(false);
+    expect(computeNutriScore(foodWith(500, 0.1), 'food')?.estimated).toBe(true);
+    const estimated = makeNutrition({ energyKj: 500, sugars: 0, saturatedFat: 0, salt: 0.1, protein: 1, fibre: 1 }, 'g', ['salt']);
+    expect(computeNutriScore(estimated, 'food')?.estimated).toBe(true);
+  });
+});
+
+describe('inferNutriScoreCategory', () => {
+  it('reads the category from the product category text', () => {
+    const solid = makeNutrition({ energyKj: 1000 });
+    expect(inferNutriScoreCategory(solid, 'Fromages à pâte molle')).toBe('cheese');
+    expect(inferNutriScoreCategory(solid, 'Huiles d\'olive')).toBe('fats');
+    expect(inferNutriScoreCategory(solid, 'Biscuits')).toBe('food');
+    expect(inferNutriScoreCategory(makeNutrition({ energyKj: 180 }, 'ml'), 'Sodas')).toBe('beverage');
+    expect(inferNutriScoreCategory(makeNutrition({ energyKj: 0 }, 'ml'), 'Eau minérale')).toBe('water');
+  });
+});
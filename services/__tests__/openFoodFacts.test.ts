@@ -0,0 +1,97 @@
+import {
+  createFixtureFetch,
+  createOpenFoodFactsClient,
+  lookupProductByGtin,
+  mapOpenFoodFactsRecord,
+  setProductSource,
+} from '../openFoodFacts';
+
+const fixtureClient = () => createOpenFoodFactsClient({ fetchImpl: createFixtureFetch() });
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('Open Food Facts fixture client', () => {
+  it('answers known barcodes from the fixtures', async () => {
+    const product = await fixtureClient().findByGtin('3017620422003');
+
+    expect(product).toMatchObject({
+      gtin: '3017620422003',
+      productName: 'Nutella',
+      brand: 'Nutella',
+      description: 'Pâte à tartiner aux noisettes et au cacao, 400 g',
+      allergens: ['milk', 'nuts', 'soy'],
+      mayContainAllergens: [],
+      url: 'https://world.openfoodfacts.org/product/3017620422003',
+    });
+    // The official grade wins over the computed one
+    expect(product?.nutriScore).toMatchObject({ grade: 'E', score: 26, estimated: false });
+    expect(product?.nutritionalInfo?.per100?.sugars).toMatchObject({ value: 56.3, unit: 'g' });
+    expect(product?.nutritionalInfo?.servingSize).toBe('15 g');
+  });
+
+  it('reads liquids per 100 ml and computes a missing Nutri-Score with the beverage grid', async () => {
+    const product = await fixtureClient().findByGtin('5449000000996');
+
+    expect(product?.productName).toBe('Coca-Cola');
+    expect(product?.nutritionalInfo?.basis).toBe('ml');
+    expect(product?.nutriScore).toMatchObject({ grade: 'E', category: 'beverage' });
+  });
+
+  it('returns null for products it does not know', async () => {
+    expect(await fixtureClient().findByGtin('3228021170022')).toBeNull();
+  });
+
+  it('requests only the fields it uses and identifies itself', async () => {
+    const fetchImpl = jest.fn(createFixtureFetch());
+    const client = createOpenFoodFactsClient({ baseUrl: 'http://localhost:8080/', fetchImpl });
+
+    await client.findByGtin('3017620422003');
+
+    const [url, init] = fetchImpl.mock.calls[0] as [string, RequestInit];
+    expect(url).toMatch(/^http:\/\/localhost:8080\/api\/v2\/product\/3017620422003\.json\?fields=code%2Cproduct_name/);
+    expect(init.headers).toMatchObject({ 'User-Agent': expect.stringContaining('ScanRappel') });
+  });
+});
+
+describe('mapOpenFoodFactsRecord', () => {
+  it('prefixes the brand when the name does not contain it', () => {
+    const product = mapOpenFoodFactsRecord({ code: '123', product_name: 'Pâte à tartiner', brands: 'Ferrero, Nutella' });
+    expect(product.productName).toBe('Ferrero Pâte à tartiner');
+  });
+
+  it('falls back to the barcode when the product has no name', () => {
+    const product = mapOpenFoodFactsRecord({ code: '3017620422003' });
+    expect(product).toMatchObject({ productName: '3017620422003', brand: null, nutritionalInfo: null, nutriScore: null });
+  });
+
+  it('ignores allergens outside the 14 EU allergens', () => {
+    const product = mapOpenFoodFactsRecord({ code: '123', traces_tags: ['en:gluten', 'en:kiwi', 'en:gluten'] });
+    expect(product.mayContainAllergens).toEqual(['gluten']);
+  });
+});
+
+describe('lookupProductByGtin', () => {
+  it('normalizes the barcode before looking it up', async () => {
+    setProductSource(fixtureClient());
+    expect((await lookupProductByGtin('03017620422003'))?.productName).toBe('Nutella');
+  });
+
+  it('skips invalid barcodes', async () => {
+    const findByGtin = jest.fn();
+    setProductSource({ findByGtin });
+    expect(await lookupProductByGtin('3017620422004')).toBeNull();
+    expect(findByGtin).not.toHaveBeenCalled();
+  });
+
+  it('returns null when the lookup fails', async () => {
+    setProductSource({ findByGtin: jest.fn().mockRejectedValue(new Error('Network request failed')) });
+    expect(await lookupProductByGtin('3017620422003')).toBeNull();
+  });
+});
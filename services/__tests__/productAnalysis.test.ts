@@ -0,0 +1,98 @@
+import { parseProductAnalysis, ProductAnalysisValidationError, type ProductAnalysisResponse } from '../productAnalysis';
+
+const validResponse = (): ProductAnalysisResponse => ({
+  name: 'Nutella',
+  brand: 'Ferrero',
+  gtin: '3017620422003',
+  lotNumber: 'L123',
+  expiryDate: '2025-06-30',
+  expiryDateType: 'best_before',
+  category: 'Pâtes à tartiner',
+  isFood: true,
+  description: 'Pâte à tartiner aux noisettes et au cacao',
+  ingredients: 'Sucre, huile de palme, noisettes 13%, lait écrémé en poudre 8,7%, cacao maigre 7,4%',
+  allergens: ['nuts', 'milk'],
+  mayContainAllergens: [],
+  nutrition: {
+    per100: {
+      energyKj: 2252, energyKcal: 539, fat: 30.9, saturatedFat: 10.6, carbohydrate: 57.5,
+      sugars: 56.3, fibre: null, protein: 6.3, salt: 0.107,
+    },
+    perServing: null,
+    basis: 'g',
+    servingSize: '15 g',
+    estimatedNutrients: ['fibre'],
+    nutriScoreCategory: 'food',
+  },
+  confidence: 0.92,
+});
+
+// Problems reported for a response, or an empty list when it is valid
+const problemsOf = (value: unknown): string[] => {
+  try {
+    parseProductAnalysis(JSON.stringify(value));
+    return [];
+  } catch (error) {
+    if (error instanceof ProductAnalysisValidationError) return error.problems;
+    throw error;
+  }
+};
+
+describe('parseProductAnalysis', () => {
+  it('returns a valid response unchanged', () => {
+    expect(parseProductAnalysis(JSON.stringify(validResponse()))).toEqual(validResponse());
+  });
+
+  it('accepts a response without nutrition', () => {
+    expect(problemsOf({ ...validResponse(), nutrition: null })).toEqual([]);
+  });
+
+  it('rejects text that is not JSON', () => {
+    expect(() => parseProductAnalysis('Sorry, I cannot identify this product.')).toThrow(ProductAnalysisValidationError);
+  });
+
+  it('rejects JSON that is not an object', () => {
+    expect(() => parseProductAnalysis('[]')).toThrow('response must be a JSON object');
+  });
+
+  it('lists every problem found', () => {
+    const problems = problemsOf({
+      ...validResponse(),
+      name: ' ',
+      expiryDate: '30/06/2025',
+      confidence: 1.5,
+      allergens: ['nuts', 'chocolate'],
+    });
+    expect(problems).toEqual([
+      'name must be a non-empty string',
+      'expiryDate must be a YYYY-MM-DD string or null',
+      'allergens must be an array of EU allergens',
+      'confidence must be a number between 0 and 1',
+    ]);
+  });
+
+  it('rejects negative or non-numeric nutrition values', () => {
+    const response = validResponse();
+    const problems = problemsOf({
+      ...response,
+      nutrition: { ...response.nutrition, per100: { ...response.nutrition!.per100, sugars: -1, salt: '0.1' } },
+    });
+    expect(problems).toEqual([
+      'nutrition.per100.sugars must be a non-negative number or null',
+      'nutrition.per100.salt must be a non-negative number or null',
+    ]);
+  });
+
+  it('rejects unknown nutrients, bases and Nutri-Score categories', () => {
+    const response = validResponse();
+    const problems = problemsOf({
+      ...response,
+      nutrition: { ...response.nutrition, basis: 'kg', estimatedNutrients: ['vitaminC'], nutriScoreCategory: 'snack' },
+    });
+    expect(problems).toEqual([
+      'nutrition.basis must be "g" or "ml"',
+      'nutrition.estimatedNutrients must be an array of nutrient names',
+      'nutrition.nutriScoreCategory must be one of food, cheese, beverage, fats, water',
+    ]);
+  });
+});
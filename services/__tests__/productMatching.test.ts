@@ -0,0 +1,88 @@
+import { checkLot, scoreRecallMatch } from '../productMatching';
+import type { RecallRecord } from '../rappelConso';
+
+const makeRecord = (overrides: Partial<RecallRecord> = {}): RecallRecord => ({
+  id: 'recall-1',
+  productName: 'Camembert au lait cru 250g',
+  brand: 'Président',
+  category: 'Produits laitiers',
+  identifiers: [
+    { gtin: '3228021170022', lots: ['LOT 12-345 B'], dateInfo: 'DLC 24/05/2024' },
+    { gtin: '3228021170039', lots: [], dateInfo: 'Date de durabilité minimale entre le 2024-01-01 et le 2024-03-31' },
+  ],
+  reason: 'Présence de Listeria monocytogenes',
+  risk: 'Listeria',
+  consumerAction: 'Ne plus consommer',
+  publicationDate: '2024-05-01',
+  recallEndDate: '',
+  recallUrl: '',
+  imageUrl: '',
+  ...overrides,
+});
+
+describe('checkLot', () => {
+  it('flags a listed lot, whatever its formatting', () => {
+    const result = checkLot({ name: '', gtin: '3228021170022', lotNumber: 'lot: 12345b' }, makeRecord());
+    expect(result.status).toBe('affected');
+    expect(result.affectedLots).toEqual(['LOT 12-345 B']);
+  });
+
+  it('reports a lot missing from the recall as not listed', () => {
+    expect(checkLot({ name: '', gtin: '3228021170022', lotNumber: '99999' }, makeRecord()).status).toBe('not_listed');
+  });
+
+  it('accepts expiry dates inside a "between" range, bounds included', () => {
+    const record = makeRecord();
+    const check = (expiryDate: string) => checkLot({ name: '', gtin: '3228021170039', expiryDate }, record).status;
+
+    expect(check('2024-01-01')).toBe('affected');
+    expect(check('2024-02-15')).toBe('affected');
+    expect(check('2024-03-31')).toBe('affected');
+    expect(check('2023-12-31')).toBe('not_listed');
+    expect(check('2024-04-01')).toBe('not_listed');
+  });
+
+  it('matches exact dates in DD/MM/YYYY form', () => {
+    const record = makeRecord();
+    expect(checkLot({ name: '', gtin: '3228021170022', expiryDate: '2024-05-24' }, record).status).toBe('affected');
+    expect(checkLot({ name: '', gtin: '3228021170022', expiryDate: '2024-05-25' }, record).status).toBe('not_listed');
+  });
+
+  it('is unknown without a lot or an expiry date', () => {
+    expect(checkLot({ name: 'Camembert' }, makeRecord()).status).toBe('unknown');
+  });
+});
+
+describe('scoreRecallMatch', () => {
+  it('confirms a GTIN match', () => {
+    const candidate = scoreRecallMatch({ name: '', gtin: '3228021170022' }, makeRecord());
+    expect(candidate).toMatchObject({ score: 1, level: 'confirmed', matchedOn: ['gtin'] });
+  });
+
+  it('keeps a name and brand match as possible without a lot', () => {
+    const candidate = scoreRecallMatch({ name: 'Camembert au lait cru', brand: 'President' }, makeRecord());
+    expect(candidate.level).toBe('possible');
+    expect(candidate.matchedOn).toEqual(expect.arrayContaining(['brand', 'name']));
+    expect(candidate.score).toBeGreaterThanOrEqual(0.5);
+  });
+
+  it('confirms a strong name and brand match with a listed lot', () => {
+    const candidate = scoreRecallMatch(
+      { name: 'Camembert au lait cru 250g', brand: 'Président', lotNumber: '12345B' },
+      makeRecord()
+    );
+    expect(candidate.level).toBe('confirmed');
+    expect(candidate.matchedOn).toContain('lot');
+  });
+
+  it('finds the brand inside the name when it was not extracted', () => {
+    const candidate = scoreRecallMatch({ name: 'Président camembert au lait cru' }, makeRecord());
+    expect(candidate.matchedOn).toContain('brand');
+  });
+
+  it('scores unrelated products low', () => {
+    const candidate = scoreRecallMatch({ name: 'Jus d\'orange', brand: 'Tropicana' }, makeRecord());
+    expect(candidate.score).toBeLessThan(0.5);
+    expect(candidate.level).toBe('possible');
+  });
+});
@@ -0,0 +1,147 @@
+import {
+  createRappelConsoClient,
+  mapRappelConsoRecord,
+  parseProductIdentifiers,
+  type RappelConsoRecord,
+} from '../rappelConso';
+
+const CAMEMBERT: RappelConsoRecord = {
+  rappel_guid: 'guid-camembert',
+  numero_fiche: '2024-05-0001',
+  libelle: 'Camembert au lait cru',
+  marque_produit: 'Président ',
+  identification_produits: '3228021170022$LOT123 LOT124$Date limite de consommation$24/05/2024|3228021170039$$$',
+  categorie_produit: 'Alimentation',
+  sous_categorie_produit: 'Produits laitiers',
+  motif_rappel: 'Présence de Listeria monocytogenes',
+  risques_encourus: 'Listeria',
+  conduites_a_tenir_par_le_consommateur: 'Ne plus consommer',
+  date_publication: '2024-05-01T09:30:00+00:00',
+  lien_vers_la_fiche_rappel: 'https://rappel.conso.gouv.fr/fiche-rappel/1',
+  liens_vers_les_images: 'https://rappel.conso.gouv.fr/image/1.jpg|https://rappel.conso.gouv.fr/image/2.jpg',
+};
+
+// Another recall whose GTIN only starts like the camembert one
+const COULOMMIERS: RappelConsoRecord = {
+  rappel_guid: 'guid-coulommiers',
+  libelle: 'Coulommiers',
+  marque_produit: 'Président',
+  identification_produits: '32280211700229$$$',
+  date_publication: '2024-04-12T08:00:00+00:00',
+};
+
+const FIXTURES = [CAMEMBERT, COULOMMIERS];
+
+/**
+ * Fixture server answering the Explore API like data.economie.gouv.fr does:
+ * full-text search is fuzzy, so a GTIN search also returns similar GTINs
+ */
+const createFixtureServer = () => jest.fn(async (input: RequestInfo | URL) => {
+  const url = new URL(String(input));
+  const where = url.searchParams.get('where') || '';
+  const since = where.match(/date_publication >= date'([\d-]+)'/)?.[1];
+  const text = where.match(/"([^"]+)"\)?(?: AND|$)/)?.[1];
+
+  const results = FIXTURES.filter(record =>
+    (!since || (record.date_publication || '') >= since)
+    && (!text || JSON.stringify(record).includes(text.slice(0, 8))));
+
+  const body = url.pathname.endsWith('/exports/json') ? results : { total_count: results.length, results };
+  return new Response(JSON.stringify(body), { status: 200, headers: { 'Content-Type': 'application/json' } });
+});
+
+const BASE_URL = 'http://localhost:8080/api/explore/v2.1';
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('parseProductIdentifiers', () => {
+  it('reads GTINs, lots and dates from every identifier', () => {
+    expect(parseProductIdentifiers(CAMEMBERT.identification_produits)).toEqual([
+      { gtin: '3228021170022', lots: ['LOT123', 'LOT124'], dateInfo: 'Date limite de consommation 24/05/2024' },
+      { gtin: '3228021170039', lots: [], dateInfo: '' },
+    ]);
+  });
+
+  it('returns nothing for a missing field', () => {
+    expect(parseProductIdentifiers(undefined)).toEqual([]);
+    expect(parseProductIdentifiers(' | ')).toEqual([]);
+  });
+});
+
+describe('mapRappelConsoRecord', () => {
+  it('normalizes a dataset record', () => {
+    expect(mapRappelConsoRecord(CAMEMBERT)).toMatchObject({
+      id: 'guid-camembert',
+      productName: 'Camembert au lait cru',
+      brand: 'Président',
+      category: 'Alimentation / Produits laitiers',
+      publicationDate: '2024-05-01',
+      imageUrl: 'https://rappel.conso.gouv.fr/image/1.jpg',
+    });
+  });
+
+  it('falls back to the product reference and the sheet number', () => {
+    const record = mapRappelConsoRecord({ numero_fiche: '2024-01-0042', modeles_ou_references: ' Tomme ' });
+    expect(record).toMatchObject({ id: '2024-01-0042', productName: 'Tomme', publicationDate: '' });
+  });
+});
+
+describe('RappelConso client against a fixture server', () => {
+  it('keeps only records that really list the GTIN', async () => {
+    const fetchImpl = createFixtureServer();
+    const client = createRappelConsoClient({ baseUrl: `${BASE_URL}/`, fetchImpl });
+
+    const records = await client.findByGtin('3228021170022', { limit: 5 });
+
+    expect(records.map(record => record.id)).toEqual(['guid-camembert']);
+    const url = new URL(String(fetchImpl.mock.calls[0][0]));
+    expect(url.pathname).toBe('/api/explore/v2.1/catalog/datasets/rappelconso-v2-gtin-espaces/records');
+    expect(url.searchParams.get('limit')).toBe('5');
+    expect(url.searchParams.get('order_by')).toBe('date_publication desc');
+    expect(url.searchParams.get('where')).toBe('search(identification_produits, "3228021170022")');
+  });
+
+  it('escapes quotes in text searches and skips empty ones', async () => {
+    const fetchImpl = createFixtureServer();
+    const client = createRappelConsoClient({ baseUrl: BASE_URL, fetchImpl });
+
+    await client.search('Pâté "maison"', { publishedSince: '2024-01-01' });
+    expect(new URL(String(fetchImpl.mock.calls[0][0])).searchParams.get('where'))
+      .toBe('"Pâté \\"maison\\"" AND date_publication >= date\'2024-01-01\'');
+
+    expect(await client.search('   ')).toEqual([]);
+    expect(fetchImpl).toHaveBeenCalledTimes(1);
+  });
+
+  it('exports the whole dataset, or only what was published since a date', async () => {
+    const fetchImpl = createFixtureServer();
+    const client = createRappelConsoClient({ baseUrl: BASE_URL, fetchImpl });
+
+    expect(await client.exportRecords()).toHaveLength(2);
+
+    const delta = await client.exportRecords({ publishedSince: '2024-05-01' });
+    expect(delta.map(record => record.id)).toEqual(['guid-camembert']);
+    const url = new URL(String(fetchImpl.mock.calls[1][0]));
+    expect(url.pathname).toBe('/api/explore/v2.1/catalog/datasets/rappelconso-v2-gtin-espaces/exports/json');
+    expect(url.searchParams.get('order_by')).toBe('date_publication asc');
+  });
+
+  it('uses the configured dataset', async () => {
+    const fetchImpl = createFixtureServer();
+    const client = createRappelConsoClient({ baseUrl: BASE_URL, dataset: 'rappelconso-test', fetchImpl });
+
+    await client.search('camembert');
+    expect(String(fetchImpl.mock.calls[0][0])).toContain('/catalog/datasets/rappelconso-test/records?');
+  });
+
+  it('fails on an error response without retrying client errors', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const fetchImpl = jest.fn(async () => new Response('{}', { status: 400 }));
+    const client = createRappelConsoClient({ baseUrl: BASE_URL, fetchImpl });
+
+    await expect(client.search('camembert')).rejects.toThrow('RappelConso request failed with status 400');
+    expect(fetchImpl).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,152 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { deleteDoc, setDoc, updateDoc } from 'firebase/firestore';
+import {
+  getLocalScans,
+  getPendingSyncCount,
+  queueScanCreate,
+  queueScanDelete,
+  queueScanUpdate,
+  syncScanHistory,
+  type LocalScan,
+} from '../scanSync';
+
+jest.mock('../firebaseConfig', () => ({ db: {} }));
+
+jest.mock('firebase/firestore', () => ({
+  doc: jest.fn((_db: unknown, collection: string, id: string) => ({ path: `${collection}/${id}` })),
+  setDoc: jest.fn(),
+  updateDoc: jest.fn(),
+  deleteDoc: jest.fn(),
+  Timestamp: {
+    now: jest.fn(() => 'now'),
+    fromDate: jest.fn((date: Date) => date.toISOString()),
+  },
+}));
+
+jest.mock('expo-crypto', () => {
+  let count = 0;
+  return { randomUUID: jest.fn(() => `uuid-${++count}`) };
+});
+
+const USER_ID = 'user-1';
+
+const makeScan = (id: string): LocalScan => ({
+  id,
+  userId: USER_ID,
+  recallInfo: {
+    isRecalled: false,
+    productName: `Product ${id}`,
+    manufacturer: '',
+    lotNumber: '',
+    recallDate: '',
+    recallReason: '',
+  },
+  nutritionalInfo: null,
+  description: '',
+  imageUri: '',
+  isFood: true,
+  scanDate: '2024-05-02T10:00:00.000Z',
+  createdAt: '2024-05-02T10:00:00.000Z',
+});
+
+// Firestore error as thrown by the SDK
+const firestoreError = (code: string) => Object.assign(new Error(code), { code });
+
+const mockSetDoc = setDoc as jest.Mock;
+const mockUpdateDoc = updateDoc as jest.Mock;
+const mockDeleteDoc = deleteDoc as jest.Mock;
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+  jest.clearAllMocks();
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('syncScanHistory', () => {
+  it('uploads queued scans under their own id and forgets them', async () => {
+    await queueScanCreate(USER_ID, makeScan('scan-1'));
+
+    const result = await syncScanHistory(USER_ID);
+
+    expect(result).toEqual({ synced: 1, dropped: 0, pending: 0 });
+    expect(mockSetDoc).toHaveBeenCalledWith(
+      { path: 'scanHistory/scan-1' },
+      expect.objectContaining({ userId: USER_ID, scanDate: '2024-05-02T10:00:00.000Z' })
+    );
+    expect(mockSetDoc.mock.calls[0][1]).not.toHaveProperty('pendingSync');
+    expect(await getLocalScans(USER_ID)).toEqual([]);
+  });
+
+  it('replays creates, updates and deletes in the order they were queued', async () => {
+    await queueScanCreate(USER_ID, makeScan('scan-1'));
+    await queueScanUpdate(USER_ID, 'scan-2', { productName: 'Renamed' });
+    await queueScanDelete(USER_ID, 'scan-3');
+
+    const result = await syncScanHistory(USER_ID);
+
+    expect(result).toEqual({ synced: 3, dropped: 0, pending: 0 });
+    expect(mockSetDoc.mock.invocationCallOrder[0]).toBeLessThan(mockUpdateDoc.mock.invocationCallOrder[0]);
+    expect(mockUpdateDoc.mock.invocationCallOrder[0]).toBeLessThan(mockDeleteDoc.mock.invocationCallOrder[0]);
+    expect(mockUpdateDoc).toHaveBeenCalledWith(
+      { path: 'scanHistory/scan-2' },
+      { 'recallInfo.productName': 'Renamed', updatedAt: 'now' }
+    );
+  });
+
+  it('keeps the queue and stops at the first retryable failure', async () => {
+    mockSetDoc.mockRejectedValueOnce(firestoreError('unavailable'));
+    await queueScanCreate(USER_ID, makeScan('scan-1'));
+    await queueScanDelete(USER_ID, 'scan-2');
+
+    const result = await syncScanHistory(USER_ID);
+
+    expect(result).toEqual({ synced: 0, dropped: 0, pending: 2 });
+    expect(mockDeleteDoc).not.toHaveBeenCalled();
+    expect(await getLocalScans(USER_ID)).toEqual([expect.objectContaining({ id: 'scan-1', pendingSync: true })]);
+
+    // Back online: the same operations go through
+    expect(await syncScanHistory(USER_ID)).toEqual({ synced: 2, dropped: 0, pending: 0 });
+  });
+
+  it('drops an operation Firestore rejects for good and replays the next ones', async () => {
+    mockSetDoc.mockRejectedValueOnce(firestoreError('permission-denied'));
+    await queueScanCreate(USER_ID, makeScan('scan-1'));
+    await queueScanDelete(USER_ID, 'scan-2');
+
+    const result = await syncScanHistory(USER_ID);
+
+    expect(result).toEqual({ synced: 1, dropped: 1, pending: 0 });
+    expect(mockDeleteDoc).toHaveBeenCalledWith({ path: 'scanHistory/scan-2' });
+    // The rejected scan stays on this device only
+    expect(await getLocalScans(USER_ID)).toEqual([expect.objectContaining({ id: 'scan-1', pendingSync: false })]);
+    expect(await getPendingSyncCount(USER_ID)).toBe(0);
+  });
+
+  it('queues scans saved locally before the outbox existed', async () => {
+    await AsyncStorage.setItem(`scanHistory_${USER_ID}`, JSON.stringify([makeScan('legacy-1')]));
+
+    const result = await syncScanHistory(USER_ID);
+
+    expect(result).toEqual({ synced: 1, dropped: 0, pending: 0 });
+    expect(mockSetDoc).toHaveBeenCalledWith({ path: 'scanHistory/legacy-1' }, expect.anything());
+  });
+
+  it('shares a running sync with the same user only', async () => {
+    await queueScanCreate(USER_ID, makeScan('scan-1'));
+    await queueScanCreate('user-2', { ...makeScan('scan-2'), userId: 'user-2' });
+
+    const first = syncScanHistory(USER_ID);
+    expect(syncScanHistory(USER_ID)).toBe(first);
+
+    const [result, otherResult] = await Promise.all([first, syncScanHistory('user-2')]);
+
+    expect(result).toEqual({ synced: 1, dropped: 0, pending: 0 });
+    expect(otherResult).toEqual({ synced: 1, dropped: 0, pending: 0 });
+    expect(mockSetDoc).toHaveBeenCalledWith({ path: 'scanHistory/scan-2' }, expect.objectContaining({ userId: 'user-2' }));
+  });
+});
@@ -0,0 +1,155 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { User, deleteUser } from 'firebase/auth';
+import { collection, getDocsFromServer, limit, query, where, writeBatch } from 'firebase/firestore';
+import { deleteObject, listAll, ref } from 'firebase/storage';
+import { db, storage } from './firebaseConfig';
+import { clearLocalScanData } from './scanSync';
+import { clearAnalysisCache } from './analysisCache';
+import { disableRecallAlerts } from './recallAlerts';
+import { clearAuthData } from './authPersistence';
+
+/**
+ * Account deletion (right to erasure): removes the user's scan history, uploaded
+ * images and local data, then the Firebase Auth user itself. Legacy uploads outside
+ * the user's folder are not covered, see deleteUploadedImages.
+ * Progress is saved after every step, so a deletion that failed halfway (offline,
+ * app killed...) resumes where it stopped instead of leaving orphaned data. The
+ * Auth user goes last: without it the remaining data could no longer be reached.
+ */
+
+// Steps, in the order they run
+export const ACCOUNT_DELETION_STEPS = ['localScans', 'scanHistory', 'images', 'localData', 'authUser'] as const;
+export type AccountDeletionStep = typeof ACCOUNT_DELETION_STEPS[number];
+
+export interface AccountDeletionState {
+  startedAt: string;
+  completedSteps: AccountDeletionStep[];
+  lastError?: string;
+}
+
+// Storage keys
+const deletionKey = (userId: string) => `accountDeletion_${userId}`;
+
+// Device-wide preferences, reset with the account
+const PREFERENCE_KEYS = ['allergenProfile', 'recallAlertsEnabled', 'language', 'theme'];
+
+// Firestore batches hold at most 500 writes
+const DELETE_BATCH_SIZE = 500;
+
+/**
+ * Deletion started for this user but not finished yet
+ */
+export const getPendingAccountDeletion = async (userId: string): Promise<AccountDeletionState | null> => {
+  try {
+    const value = await AsyncStorage.getItem(deletionKey(userId));
+    return value ? JSON.parse(value) : null;
+  } catch (error) {
+    console.error('Error reading account deletion progress:', error);
+    return null;
+  }
+};
+
+const saveDeletionState = (userId: string, state: AccountDeletionState) =>
+  AsyncStorage.setItem(deletionKey(userId), JSON.stringify(state));
+
+/**
+ * Delete the user's scans from Firestore, one batch at a time
+ */
+const deleteScanHistory = async (userId: string): Promise<void> => {
+  // Read from the server: cached results could miss scans
+  for (;;) {
+    const snapshot = await getDocsFromServer(query(
+      collection(db, 'scanHistory'),
+      where('userId', '==', userId),
+      limit(DELETE_BATCH_SIZE),
+    ));
+    if (snapshot.empty) break;
+
+    const batch = writeBatch(db);
+    snapshot.docs.forEach(scan => batch.delete(scan.ref));
+    await batch.commit();
+  }
+};
+
+/**
+ * Delete the images the user uploaded for analysis.
+ * Only the user's own folder can be cleared: photos uploaded before per-user folders
+ * (flat `food_images/<timestamp>-<rand>.jpg`) were not linked to the account, and the
+ * Storage rules no longer let clients delete them.
+ */
+const deleteUploadedImages = async (userId: string): Promise<void> => {
+  const { items } = await listAll(ref(storage, `food_images/${userId}`));
+
+  for (const item of items) {
+    try {
+      await deleteObject(item);
+    } catch (error) {
+      // Already gone, e.g. deleted by a previous attempt
+      if ((error as { code?: string }).code !== 'storage/object-not-found') throw error;
+    }
+  }
+};
+
+/**
+ * Remove the user's data and preferences from this device
+ */
+const deleteLocalData = async (userId: string): Promise<void> => {
+  await disableRecallAlerts();
+  await clearAnalysisCache();
+
+  // Every per-user key ends with the uid; the progress of this deletion is kept until the end
+  const keys = await AsyncStorage.getAllKeys();
+  const userKeys = keys.filter(key => key.endsWith(`_${userId}`) && key !== deletionKey(userId));
+  await AsyncStorage.multiRemove([...userKeys, ...PREFERENCE_KEYS]);
+};
+
+const runStep = async (user: User, step: AccountDeletionStep): Promise<void> => {
+  switch (step) {
+    case 'localScans':
+      return clearLocalScanData(user.uid);
+    case 'scanHistory':
+      return deleteScanHistory(user.uid);
+    case 'images':
+      return deleteUploadedImages(user.uid);
+    case 'localData':
+      return deleteLocalData(user.uid);
+    case 'authUser':
+      return deleteUser(user);
+  }
+};
+
+/**
+ * Delete the account and its data, resuming a previous attempt if there was one.
+ * The user must have signed in recently (see AuthContext.deleteAccount).
+ * @param onStep Called before each step that still has to run; steps done by a previous
+ * attempt are skipped, see getPendingAccountDeletion
+ */
+export const deleteAccountData = async (
+  user: User,
+  onStep?: (step: AccountDeletionStep) => void
+): Promise<void> => {
+  const state: AccountDeletionState = await getPendingAccountDeletion(user.uid)
+    || { startedAt: new Date().toISOString(), completedSteps: [] };
+
+  await saveDeletionState(user.uid, state);
+
+  for (const step of ACCOUNT_DELETION_STEPS) {
+    if (state.completedSteps.includes(step)) continue;
+
+    onStep?.(step);
+    try {
+      await runStep(user, step);
+    } catch (error) {
+      console.error(`❌ Account deletion failed at step "${step}":`, error);
+      await saveDeletionState(user.uid, { ...state, lastError: String((error as Error)?.message || error) });
+      throw error;
+    }
+
+    state.completedSteps = [...state.completedSteps, step];
+    delete state.lastError;
+    await saveDeletionState(user.uid, state);
+  }
+
+  await AsyncStorage.removeItem(deletionKey(user.uid));
+  await clearAuthData();
+};
@@ -0,0 +1,152 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { EU_ALLERGENS, type AllergenId } from './productAnalysis';
+import { normalizeText } from './productMatching';
+import type { TranslationKey } from '../contexts/LanguageContext';
+
+/**
+ * Personal allergen profile and allergen detection.
+ * Allergens come from the image analysis, from the ingredient list and from recall
+ * reasons (many RappelConso recalls are for undeclared allergens).
+ */
+
+// Storage key of the user's allergen profile
+const PROFILE_KEY = 'allergenProfile';
+
+export type AllergenWarningSource = 'contains' | 'mayContain' | 'recall';
+
+export interface AllergenWarning {
+  allergen: AllergenId;
+  source: AllergenWarningSource;
+}
+
+// What is known about the allergens of a product
+export interface ProductAllergenInfo {
+  allergens?: AllergenId[] | null;
+  mayContainAllergens?: AllergenId[] | null;
+  ingredients?: string | null;
+  recallReason?: string | null;
+}
+
+export const ALLERGEN_LABELS: Record<AllergenId, TranslationKey> = {
+  gluten: 'allergenGluten',
+  crustaceans: 'allergenCrustaceans',
+  eggs: 'allergenEggs',
+  fish: 'allergenFish',
+  peanuts: 'allergenPeanuts',
+  soy: 'allergenSoy',
+  milk: 'allergenMilk',
+  nuts: 'allergenNuts',
+  celery: 'allergenCelery',
+  mustard: 'allergenMustard',
+  sesame: 'allergenSesame',
+  sulphites: 'allergenSulphites',
+  lupin: 'allergenLupin',
+  molluscs: 'allergenMolluscs',
+};
+
+// Normalized French and English words that reveal each allergen in free text
+const ALLERGEN_KEYWORDS: Record<AllergenId, string[]> = {
+  gluten: ['gluten', 'ble', 'wheat', 'seigle', 'rye', 'orge', 'barley', 'avoine', 'oats', 'epeautre', 'spelt', 'kamut'],
+  crustaceans: ['crustace', 'crustaces', 'crustacean', 'crustaceans', 'crevette', 'crevettes', 'shrimp', 'prawn', 'crabe', 'crab', 'homard', 'lobster', 'langoustine'],
+  eggs: ['oeuf', 'oeufs', 'egg', 'eggs'],
+  fish: ['poisson', 'poissons', 'fish', 'anchois', 'anchovy', 'thon', 'tuna', 'saumon', 'salmon', 'cabillaud', 'cod'],
+  peanuts: ['arachide', 'arachides', 'cacahuete', 'cacahuetes', 'peanut', 'peanuts'],
+  soy: ['soja', 'soy', 'soya', 'soybean', 'soybeans'],
+  milk: ['lait', 'milk', 'lactose', 'lactoserum', 'whey', 'beurre', 'butter', 'creme', 'cream', 'fromage', 'cheese', 'caseine', 'casein', 'yaourt', 'yogurt'],
+  nuts: ['fruits a coque', 'tree nuts', 'noix', 'nuts', 'amande', 'amandes', 'almond', 'almonds', 'noisette', 'noisettes', 'hazelnut', 'hazelnuts', 'cajou', 'cashew', 'pecan', 'pistache', 'pistachio', 'macadamia'],
+  celery: ['celeri', 'celery'],
+  mustard: ['moutarde', 'mustard'],
+  sesame: ['sesame'],
+  sulphites: ['sulfite', 'sulfites', 'sulphite', 'sulphites', 'anhydride sulfureux', 'sulphur dioxide', 'sulfur dioxide'],
+  lupin: ['lupin'],
+  molluscs: ['mollusque', 'mollusques', 'mollusc', 'molluscs', 'mollusk', 'moule', 'moules', 'mussel', 'mussels', 'huitre', 'huitres', 'oyster', 'calamar', 'squid', 'escargot'],
+};
+
+// Phrases that contain an allergen keyword without being that allergen
+const IGNORED_PHRASES = [
+  'sans gluten', 'gluten free', 'sans lactose', 'lactose free',
+  'beurre de cacao', 'cocoa butter', 'lait de coco', 'coconut milk', 'creme de coco', 'coconut cream',
+  'noix de coco', 'noix de muscade', 'nutmeg', 'beurre de karite', 'shea butter',
+];
+
+// Start of a precautionary statement in an ingredient list
+const MAY_CONTAIN_PATTERN = /\b(peut contenir|traces? (eventuelles? )?de|may contain|traces? of)\b/;
+
+/**
+ * Find the allergens mentioned in a text (ingredient list, recall reason...)
+ */
+export const detectAllergens = (text: string | null | undefined): AllergenId[] => {
+  if (!text) return [];
+
+  let normalized = ` ${normalizeText(text)} `;
+  IGNORED_PHRASES.forEach(phrase => {
+    normalized = normalized.split(` ${phrase} `).join(' ');
+  });
+
+  return EU_ALLERGENS.filter(allergen =>
+    ALLERGEN_KEYWORDS[allergen].some(keyword => normalized.includes(` ${keyword} `))
+  );
+};
+
+/**
+ * Split an ingredient list into allergens it contains and allergens it may contain
+ */
+export const detectIngredientAllergens = (ingredients: string | null | undefined): {
+  contains: AllergenId[];
+  mayContain: AllergenId[];
+} => {
+  if (!ingredients) return { contains: [], mayContain: [] };
+
+  const normalized = normalizeText(ingredients);
+  const match = normalized.match(MAY_CONTAIN_PATTERN);
+  return match?.index !== undefined
+    ? { contains: detectAllergens(normalized.slice(0, match.index)), mayContain: detectAllergens(normalized.slice(match.index)) }
+    : { contains: detectAllergens(normalized), mayContain: [] };
+};
+
+/**
+ * Allergens of the user's profile found in a product or its recall, most serious first.
+ * Each allergen is reported once, for its most serious source.
+ */
+export const findAllergenWarnings = (profile: AllergenId[], product: ProductAllergenInfo): AllergenWarning[] => {
+  if (profile.length === 0) return [];
+
+  const fromIngredients = detectIngredientAllergens(product.ingredients);
+  const sources: [AllergenWarningSource, AllergenId[]][] = [
+    ['contains', [...(product.allergens || []), ...fromIngredients.contains]],
+    ['recall', detectAllergens(product.recallReason)],
+    ['mayContain', [...(product.mayContainAllergens || []), ...fromIngredients.mayContain]],
+  ];
+
+  const warnings: AllergenWarning[] = [];
+  sources.forEach(([source, allergens]) => {
+    profile.forEach(allergen => {
+      if (allergens.includes(allergen) && !warnings.some(warning => warning.allergen === allergen)) {
+        warnings.push({ allergen, source });
+      }
+    });
+  });
+  return warnings;
+};
+
+/**
+ * Get the allergens the user wants to be warned about
+ */
+export const getAllergenProfile = async (): Promise<AllergenId[]> => {
+  try {
+    const stored = await AsyncStorage.getItem(PROFILE_KEY);
+    const profile: unknown[] = stored ? JSON.parse(stored) : [];
+    return EU_ALLERGENS.filter(allergen => profile.includes(allergen));
+  } catch (error) {
+    console.error('Error reading allergen profile:', error);
+    return [];
+  }
+};
+
+/**
+ * Save the allergens the user wants to be warned about
+ */
+export const saveAllergenProfile = async (allergens: AllergenId[]): Promise<void> => {
+  await AsyncStorage.setItem(PROFILE_KEY, JSON.stringify(allergens));
+  console.log('✅ Allergen profile saved:', allergens.join(', ') || 'none');
+};
@@ -0,0 +1,225 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Crypto from 'expo-crypto';
+import * as FileSystem from 'expo-file-system';
+import type { ProductAnalysisResponse } from './productAnalysis';
+
+/**
+ * Persistent cache of image analyses.
+ * Entries are content-addressed: keyed by a SHA-256 hash of the image bytes (so the
+ * same photo is never analyzed twice, even after a restart) and by GTIN when the
+ * analysis found one (so a later barcode scan of the same product can reuse it).
+ * The cache is bounded by entry count and size, evicts least recently used
+ * entries first and expires entries after a per-type TTL.
+ */
+
+// Storage keys
+const INDEX_KEY = 'analysisCache_index';
+const ENTRY_KEY_PREFIX = 'analysisCache_entry_';
+
+// Size limits
+const MAX_ENTRIES = 300;
+const MAX_BYTES = 1024 * 1024; // 1MB of serialized analyses
+
+// How long each type of entry stays valid
+const DAY = 24 * 60 * 60 * 1000;
+const TTL: Record<AnalysisCacheEntryType, number> = {
+  image: 30 * DAY,
+  // Product-level facts (name, nutrition) rarely change for a given barcode
+  gtin: 180 * DAY,
+};
+
+export type AnalysisCacheEntryType = 'image' | 'gtin';
+
+interface IndexEntry {
+  type: AnalysisCacheEntryType;
+  size: number;
+  createdAt: number;
+  lastAccessedAt: number;
+}
+
+type CacheIndex = Record<string, IndexEntry>;
+
+export interface AnalysisCacheStats {
+  entryCount: number;
+  totalBytes: number;
+}
+
+let indexPromise: Promise<CacheIndex> | null = null;
+
+const loadIndex = async (): Promise<CacheIndex> => {
+  try {
+    const indexStr = await AsyncStorage.getItem(INDEX_KEY);
+    return indexStr ? JSON.parse(indexStr) : {};
+  } catch (error) {
+    console.error('Error reading analysis cache index:', error);
+    return {};
+  }
+};
+
+const getIndex = (): Promise<CacheIndex> => {
+  if (!indexPromise) {
+    indexPromise = loadIndex();
+  }
+  return indexPromise;
+};
+
+const saveIndex = async (index: CacheIndex): Promise<void> => {
+  await AsyncStorage.setItem(INDEX_KEY, JSON.stringify(index));
+};
+
+const isExpired = (entry: IndexEntry, now = Date.now()): boolean => {
+  return now - entry.createdAt > TTL[entry.type];
+};
+
+/**
+ * Drop expired entries, then least recently used ones until the cache fits its limits
+ */
+const evict = async (index: CacheIndex): Promise<void> => {
+  const now = Date.now();
+  const removed = Object.keys(index).filter(key => isExpired(index[key], now));
+  removed.forEach(key => delete index[key]);
+
+  const byLastAccess = Object.keys(index).sort((a, b) => index[a].lastAccessedAt - index[b].lastAccessedAt);
+  let totalBytes = byLastAccess.reduce((sum, key) => sum + index[key].size, 0);
+  let count = byLastAccess.length;
+
+  for (const key of byLastAccess) {
+    if (count <= MAX_ENTRIES && totalBytes <= MAX_BYTES) break;
+    totalBytes -= index[key].size;
+    count--;
+    delete index[key];
+    removed.push(key);
+  }
+
+  if (removed.length > 0) {
+    await AsyncStorage.multiRemove(removed.map(key => `${ENTRY_KEY_PREFIX}${key}`));
+    console.log(`🧹 Evicted ${removed.length} analysis cache entries`);
+  }
+};
+
+const imageKey = (namespace: string, hash: string) => `image:${namespace}:${hash}`;
+const gtinKey = (gtin: string) => `gtin:${gtin}`;
+
+/**
+ * Hash the image contents so identical photos share a cache entry
+ * @returns SHA-256 of the image bytes, or null when the file cannot be read
+ */
+export const hashImage = async (uri: string): Promise<string | null> => {
+  try {
+    const base64 = await FileSystem.readAsStringAsync(uri, {
+      encoding: FileSystem.EncodingType.Base64,
+    });
+    return await Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, base64);
+  } catch (error) {
+    console.error('Error hashing image for the analysis cache:', error);
+    return null;
+  }
+};
+
+const readEntry = async (key: string): Promise<ProductAnalysisResponse | null> => {
+  const index = await getIndex();
+  const entry = index[key];
+  if (!entry) return null;
+
+  if (isExpired(entry)) {
+    delete index[key];
+    await AsyncStorage.removeItem(`${ENTRY_KEY_PREFIX}${key}`);
+    await saveIndex(index);
+    return null;
+  }
+
+  const value = await AsyncStorage.getItem(`${ENTRY_KEY_PREFIX}${key}`);
+  if (!value) {
+    delete index[key];
+    await saveIndex(index);
+    return null;
+  }
+
+  entry.lastAccessedAt = Date.now();
+  await saveIndex(index);
+  console.log('Using cached analysis for:', key);
+  return JSON.parse(value);
+};
+
+const writeEntry = async (key: string, type: AnalysisCacheEntryType, analysis: ProductAnalysisResponse): Promise<void> => {
+  const value = JSON.stringify(analysis);
+  const now = Date.now();
+  const index = await getIndex();
+
+  index[key] = { type, size: value.length, createdAt: now, lastAccessedAt: now };
+  await AsyncStorage.setItem(`${ENTRY_KEY_PREFIX}${key}`, value);
+  await evict(index);
+  await saveIndex(index);
+};
+
+/**
+ * Get the cached analysis of an image
+ * @param namespace Separates results from different providers/models
+ */
+export const getCachedAnalysisByImage = async (namespace: string, hash: string): Promise<ProductAnalysisResponse | null> => {
+  try {
+    return await readEntry(imageKey(namespace, hash));
+  } catch (error) {
+    console.error('Error reading analysis cache:', error);
+    return null;
+  }
+};
+
+/**
+ * Get the cached product-level analysis for a barcode
+ */
+export const getCachedAnalysisByGtin = async (gtin: string): Promise<ProductAnalysisResponse | null> => {
+  try {
+    return await readEntry(gtinKey(gtin));
+  } catch (error) {
+    console.error('Error reading analysis cache:', error);
+    return null;
+  }
+};
+
+/**
+ * Store an analysis under its image hash and, when known, its GTIN
+ */
+export const cacheAnalysis = async (
+  analysis: ProductAnalysisResponse,
+  keys: { namespace: string; imageHash?: string | null; gtin?: string | null }
+): Promise<void> => {
+  try {
+    if (keys.imageHash) {
+      await writeEntry(imageKey(keys.namespace, keys.imageHash), 'image', analysis);
+    }
+    if (keys.gtin) {
+      // Lot and expiry date belong to one pack, not to every product with this barcode
+      await writeEntry(gtinKey(keys.gtin), 'gtin', {
+        ...analysis,
+        lotNumber: null,
+        expiryDate: null,
+        expiryDateType: null,
+      });
+    }
+  } catch (error) {
+    console.error('Error writing analysis cache:', error);
+  }
+};
+
+/**
+ * Number of entries and size of the cache, shown in Settings
+ */
+export const getAnalysisCacheStats = async (): Promise<AnalysisCacheStats> => {
+  const index = await getIndex();
+  const entries = Object.values(index);
+  return {
+    entryCount: entries.length,
+    totalBytes: entries.reduce((sum, entry) => sum + entry.size, 0),
+  };
+};
+
+/**
+ * Remove every cached analysis
+ */
+export const clearAnalysisCache = async (): Promise<void> => {
+  const index = await getIndex();
+  await AsyncStorage.multiRemove([INDEX_KEY, ...Object.keys(index).map(key => `${ENTRY_KEY_PREFIX}${key}`)]);
+  indexPromise = Promise.resolve({});
+  console.log('✅ Analysis cache cleared');
+};
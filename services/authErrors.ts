@@ -0,0 +1,38 @@
+import { FirebaseError } from 'firebase/app';
+import type { TranslationKey } from '../contexts/LanguageContext';
+
+// Translated message for each Firebase Auth error code the app can run into
+const AUTH_ERROR_MESSAGES: Record<string, TranslationKey> = {
+  'auth/invalid-credential': 'authErrorInvalidCredential',
+  'auth/invalid-login-credentials': 'authErrorInvalidCredential',
+  'auth/user-not-found': 'authErrorUserNotFound',
+  'auth/wrong-password': 'authErrorWrongPassword',
+  'auth/user-mismatch': 'authErrorUserMismatch',
+  'auth/user-disabled': 'authErrorUserDisabled',
+  'auth/too-many-requests': 'authErrorTooManyRequests',
+  'auth/network-request-failed': 'authErrorNetwork',
+  'auth/email-already-in-use': 'authErrorEmailInUse',
+  'auth/invalid-email': 'authErrorInvalidEmail',
+  'auth/missing-email': 'authErrorMissingEmail',
+  'auth/missing-password': 'authErrorMissingPassword',
+  'auth/weak-password': 'authErrorWeakPassword',
+  'auth/requires-recent-login': 'authErrorRequiresRecentLogin',
+  'auth/user-token-expired': 'authErrorSessionExpired',
+  'auth/invalid-user-token': 'authErrorSessionExpired',
+  'auth/expired-action-code': 'authErrorExpiredActionCode',
+  'auth/invalid-action-code': 'authErrorInvalidActionCode',
+  'auth/operation-not-allowed': 'authErrorOperationNotAllowed',
+  'auth/admin-restricted-operation': 'authErrorOperationNotAllowed',
+  'auth/credential-already-in-use': 'authErrorCredentialInUse',
+};
+
+/**
+ * Translation key of the message to show for an authentication error
+ */
+export const getAuthErrorMessageKey = (error: unknown): TranslationKey => {
+  if (error instanceof FirebaseError || (error && typeof error === 'object' && 'code' in error)) {
+    const code = String((error as { code: unknown }).code);
+    return AUTH_ERROR_MESSAGES[code] || 'authErrorUnknown';
+  }
+  return 'authErrorUnknown';
+};
@@ -24,6 +24,7 @@ export const storeUserData = async (user: User | null): Promise<void> => {
         displayName: user.displayName,
         photoURL: user.photoURL,
         emailVerified: user.emailVerified,
+        isAnonymous: user.isAnonymous,
         metadata: user.metadata,
       };
       
@@ -0,0 +1,74 @@
+/**
+ * Barcode helpers: GTIN extraction and check-digit validation.
+ * Used to reject misreads before any recall lookup.
+ */
+
+// GS1 Digital Link URLs carry the GTIN after the `01` application identifier
+const DIGITAL_LINK_PATTERN = /\/01\/(\d{8,14})(?:[/?#]|$)/;
+
+// GS1 element strings, e.g. `(01)03017620422003(10)LOT123` or `0103017620422003...`
+const ELEMENT_STRING_PATTERN = /^\(?01\)?(\d{14})/;
+
+/**
+ * Compute the GS1 check digit for the given digits (without their check digit)
+ */
+export const computeGtinCheckDigit = (digitsWithoutCheck: string): number => {
+  let sum = 0;
+  // Weights alternate 3, 1, 3... starting from the rightmost digit
+  for (let i = digitsWithoutCheck.length - 1, weight = 3; i >= 0; i--, weight = 4 - weight) {
+    sum += Number(digitsWithoutCheck[i]) * weight;
+  }
+  return (10 - (sum % 10)) % 10;
+};
+
+/**
+ * Check that a GTIN-8, GTIN-12 (UPC-A), GTIN-13 (EAN-13) or GTIN-14 has a valid check digit
+ */
+export const isValidGtin = (value: string): boolean => {
+  if (!/^(\d{8}|\d{12}|\d{13}|\d{14})$/.test(value)) {
+    return false;
+  }
+  const checkDigit = Number(value[value.length - 1]);
+  return computeGtinCheckDigit(value.slice(0, -1)) === checkDigit;
+};
+
+/**
+ * Normalize a GTIN to the form used in the RappelConso dataset:
+ * UPC-A and GTIN-14 with a leading zero are converted to EAN-13
+ */
+export const normalizeGtin = (gtin: string): string => {
+  if (gtin.length === 12) {
+    return `0${gtin}`;
+  }
+  if (gtin.length === 14 && gtin.startsWith('0')) {
+    return gtin.slice(1);
+  }
+  return gtin;
+};
+
+/**
+ * Extract a valid, normalized GTIN from raw scanned barcode data.
+ * Handles plain EAN/UPC codes, GS1 Digital Link QR codes and GS1 element strings.
+ * @returns The GTIN, or null if the data does not contain a valid one
+ */
+export const extractGtin = (data: string): string | null => {
+  const raw = data.trim();
+
+  const candidates: string[] = [];
+  if (/^\d+$/.test(raw)) {
+    candidates.push(raw);
+  }
+
+  const digitalLink = raw.match(DIGITAL_LINK_PATTERN);
+  if (digitalLink) {
+    candidates.push(digitalLink[1]);
+  }
+
+  const elementString = raw.match(ELEMENT_STRING_PATTERN);
+  if (elementString) {
+    candidates.push(elementString[1]);
+  }
+
+  const gtin = candidates.find(isValidGtin);
+  return gtin ? normalizeGtin(gtin) : null;
+};
@@ -1,5 +1,5 @@
 import { auth, db, analytics } from './firebaseConfig';
-import openai from './openai';
+import { getVisionProvider } from './visionProvider';
 import { Analytics } from 'firebase/analytics';
 
 // Function to test if Firebase is properly configured
@@ -15,14 +15,16 @@ export const testFirebaseConfig = async () => {
   return !!auth && !!db;
 };
 
-// Function to test if OpenAI is properly configured
-export const testOpenAIConfig = () => {
-  console.log('OpenAI API key is set:', !!process.env.EXPO_PUBLIC_OPENAI_API_KEY);
-  console.log('OpenAI client initialized:', !!openai);
-  
-  // Return true if OpenAI is properly configured
-  return !!process.env.EXPO_PUBLIC_OPENAI_API_KEY && !!openai;
+// Function to test if the vision provider is properly configured
+export const testVisionConfig = () => {
+  const provider = getVisionProvider();
+  console.log('Vision provider:', provider.name);
+  console.log('Vision model:', provider.model);
+  console.log('Vision provider configured:', provider.isConfigured());
+
+  // Return true if the vision provider can be called
+  return provider.isConfigured();
 };
 
 // Export both test functions
-export { auth, db, analytics, openai }; 
\ No newline at end of file
+export { auth, db, analytics };
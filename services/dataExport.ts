@@ -0,0 +1,203 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import { strToU8, zipSync } from 'fflate';
+import type { User } from 'firebase/auth';
+import { getScanHistory, type ProductDetails, type RecallInfo } from './productService';
+import { getAllergenProfile } from './allergens';
+import { areRecallAlertsEnabled } from './recallAlerts';
+import { NUTRIENT_UNITS, type NutritionalInfo } from './nutrition';
+import { NUTRIENT_KEYS, type AllergenId } from './productAnalysis';
+import type { NutriScoreResult } from './nutriScore';
+
+/**
+ * Personal data export (right to data portability): the profile, preferences and full
+ * scan history in a versioned JSON archive that can be imported back, plus a CSV of
+ * the scans for spreadsheets, zipped together and shared with the system share sheet.
+ */
+
+// Identifies ScanRappel archives; bump the version whenever the format changes
+export const SCAN_ARCHIVE_FORMAT = 'scanrappel-archive';
+export const SCAN_ARCHIVE_VERSION = 1;
+
+// Files in the exported zip
+export const SCAN_ARCHIVE_FILE_NAME = 'scanrappel-archive.json';
+const SCAN_CSV_FILE_NAME = 'scanrappel-scans.csv';
+
+// A scan as written to the archive, with dates as ISO strings
+export interface ArchivedScan {
+  id: string | null;
+  scanDate: string;
+  recallInfo: RecallInfo;
+  nutritionalInfo: NutritionalInfo | null;
+  nutriScore: NutriScoreResult | null;
+  description: string | null;
+  // Photo on the device that made the scan, or product image URL
+  imageUri: string | null;
+  // Firebase Storage path of the uploaded photo, which only its owner can read
+  imagePath: string | null;
+  isFood: boolean | null;
+  ingredients: string | null;
+  allergens: AllergenId[];
+  mayContainAllergens: AllergenId[];
+  // Not uploaded to Firestore yet when the archive was made
+  pendingSync: boolean;
+}
+
+export interface ScanArchive {
+  format: typeof SCAN_ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: string;
+  profile: {
+    uid: string;
+    email: string | null;
+    emailVerified: boolean;
+    createdAt: string | null;
+    lastSignInAt: string | null;
+  };
+  preferences: {
+    language: string | null;
+    theme: string | null;
+    allergenProfile: AllergenId[];
+    recallAlertsEnabled: boolean;
+  };
+  scans: ArchivedScan[];
+}
+
+export const toArchivedScan = (scan: ProductDetails): ArchivedScan => ({
+  id: scan.id || null,
+  scanDate: scan.scanDate.toISOString(),
+  recallInfo: scan.recallInfo,
+  nutritionalInfo: scan.nutritionalInfo || null,
+  nutriScore: scan.nutriScore || null,
+  description: scan.description || null,
+  imageUri: scan.imageUri || null,
+  imagePath: scan.imagePath || null,
+  isFood: scan.isFood ?? null,
+  ingredients: scan.ingredients || null,
+  allergens: scan.allergens || [],
+  mayContainAllergens: scan.mayContainAllergens || [],
+  pendingSync: !!scan.pendingSync,
+});
+
+/**
+ * Gather everything the app keeps about the user
+ */
+export const buildScanArchive = async (user: User): Promise<ScanArchive> => {
+  // Firestore scans merged with the ones waiting on this device (or only those when offline)
+  const [scans, language, theme, allergenProfile, recallAlertsEnabled] = await Promise.all([
+    getScanHistory(user.uid),
+    AsyncStorage.getItem('language'),
+    AsyncStorage.getItem('theme'),
+    getAllergenProfile(),
+    areRecallAlertsEnabled(),
+  ]);
+
+  const toIsoDate = (value: string | undefined) => value ? new Date(value).toISOString() : null;
+
+  return {
+    format: SCAN_ARCHIVE_FORMAT,
+    version: SCAN_ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    profile: {
+      uid: user.uid,
+      email: user.email,
+      emailVerified: user.emailVerified,
+      createdAt: toIsoDate(user.metadata?.creationTime),
+      lastSignInAt: toIsoDate(user.metadata?.lastSignInTime),
+    },
+    preferences: { language, theme, allergenProfile, recallAlertsEnabled },
+    scans: scans.map(toArchivedScan),
+  };
+};
+
+// Quote a CSV field when it contains a separator, a quote or a line break
+const csvField = (value: string | number | boolean | null | undefined): string => {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * One row per scan, with the per 100 g/ml nutrition values in their own columns
+ */
+export const scanArchiveToCsv = (archive: ScanArchive): string => {
+  const header = [
+    'scanDate', 'productName', 'manufacturer', 'gtin', 'isRecalled', 'recallDate', 'recallReason',
+    'lotNumber', 'nutriScore', 'basis',
+    ...NUTRIENT_KEYS.map(key => `${key} (${NUTRIENT_UNITS[key]})`),
+    'allergens', 'mayContainAllergens', 'ingredients', 'description', 'imageUri', 'imagePath', 'id',
+  ];
+
+  const rows = archive.scans.map(scan => [
+    scan.scanDate,
+    scan.recallInfo.productName,
+    scan.recallInfo.manufacturer,
+    scan.recallInfo.gtin,
+    scan.recallInfo.isRecalled,
+    scan.recallInfo.recallDate,
+    scan.recallInfo.recallReason,
+    scan.recallInfo.lotNumber,
+    scan.nutriScore?.grade,
+    scan.nutritionalInfo?.basis,
+    ...NUTRIENT_KEYS.map(key => scan.nutritionalInfo?.per100?.[key]?.value),
+    scan.allergens.join(' '),
+    scan.mayContainAllergens.join(' '),
+    scan.ingredients,
+    scan.description,
+    scan.imageUri,
+    scan.imagePath,
+    scan.id,
+  ]);
+
+  return [header, ...rows].map(row => row.map(csvField).join(',')).join('\r\n');
+};
+
+/**
+ * Base64 of binary data, the encoding expo-file-system writes and reads binary files with
+ */
+export const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  // Chunked: spreading a large array into fromCharCode overflows the stack
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+/**
+ * Zip holding the JSON archive and the CSV of the scans
+ */
+export const buildExportZip = (archive: ScanArchive): Uint8Array => zipSync({
+  [SCAN_ARCHIVE_FILE_NAME]: strToU8(JSON.stringify(archive, null, 2)),
+  [SCAN_CSV_FILE_NAME]: strToU8(scanArchiveToCsv(archive)),
+});
+
+/**
+ * Write the user's data to a zip file and open the share sheet
+ * @returns Number of exported scans
+ */
+export const exportUserData = async (user: User): Promise<number> => {
+  try {
+    if (!(await Sharing.isAvailableAsync())) {
+      throw new Error('Sharing is not available on this device');
+    }
+
+    console.log('📦 Exporting user data');
+    const archive = await buildScanArchive(user);
+
+    const fileName = `scanrappel-export-${archive.exportedAt.slice(0, 10)}.zip`;
+    const fileUri = `${FileSystem.cacheDirectory}${fileName}`;
+    await FileSystem.writeAsStringAsync(fileUri, bytesToBase64(buildExportZip(archive)), {
+      encoding: FileSystem.EncodingType.Base64,
+    });
+
+    await Sharing.shareAsync(fileUri, { mimeType: 'application/zip', UTI: 'public.zip-archive', dialogTitle: fileName });
+
+    console.log(`✅ Exported ${archive.scans.length} scans`);
+    return archive.scans.length;
+  } catch (error) {
+    console.error('❌ Data export failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,286 @@
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
+import { strFromU8, unzipSync } from 'fflate';
+import { getScanHistory, saveScanHistory, type ProductDetails, type RecallInfo } from './productService';
+import { migrateNutritionalInfo } from './nutrition';
+import { EU_ALLERGENS, NUTRI_SCORE_CATEGORIES, type AllergenId } from './productAnalysis';
+import type { NutriScoreGrade, NutriScoreResult } from './nutriScore';
+import type { LotStatus, MatchLevel } from './productMatching';
+import { SCAN_ARCHIVE_FILE_NAME, SCAN_ARCHIVE_FORMAT, SCAN_ARCHIVE_VERSION, type ArchivedScan } from './dataExport';
+
+/**
+ * Import of a ScanRappel archive (see dataExport), as exported or extracted from the
+ * export zip: scans are validated, the ones already in the user's history are skipped
+ * and the others saved like new scans, so they reach Firestore or wait in the local outbox.
+ */
+
+export type ScanArchiveErrorReason = 'invalidFile' | 'unsupportedVersion';
+
+// The file cannot be imported at all
+export class ScanArchiveError extends Error {
+  reason: ScanArchiveErrorReason;
+
+  constructor(reason: ScanArchiveErrorReason, message: string) {
+    super(message);
+    this.name = 'ScanArchiveError';
+    this.reason = reason;
+  }
+}
+
+export interface ParsedScanArchive {
+  version: number;
+  exportedAt: string | null;
+  // Valid scans, converted back to ProductDetails (without their archive id)
+  scans: ParsedArchivedScan[];
+  // Entries that could not be read
+  invalid: number;
+}
+
+export interface ParsedArchivedScan {
+  // Id the scan had in the exported history
+  archiveId: string | null;
+  details: ProductDetails;
+}
+
+export interface ScanImportResult {
+  imported: number;
+  duplicates: number;
+  invalid: number;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const optionalString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value ? value : undefined;
+
+const optionalNumber = (value: unknown): number | undefined =>
+  typeof value === 'number' && isFinite(value) ? value : undefined;
+
+// The value when it is one of the allowed ones
+const oneOf = <T extends string>(value: unknown, allowed: readonly T[]): T | undefined =>
+  allowed.find(option => option === value);
+
+const NUTRI_SCORE_GRADES: readonly NutriScoreGrade[] = ['A', 'B', 'C', 'D', 'E'];
+const MATCH_LEVELS: readonly MatchLevel[] = ['confirmed', 'possible'];
+const LOT_STATUSES: readonly LotStatus[] = ['affected', 'not_listed', 'unknown'];
+
+/**
+ * Read the recall information of an archived scan
+ * @returns null without a product name or recall status
+ */
+const parseRecallInfo = (value: unknown): RecallInfo | null => {
+  if (!isObject(value) || typeof value.productName !== 'string' || typeof value.isRecalled !== 'boolean') {
+    return null;
+  }
+
+  return {
+    isRecalled: value.isRecalled,
+    productName: value.productName,
+    manufacturer: typeof value.manufacturer === 'string' ? value.manufacturer : '',
+    lotNumber: typeof value.lotNumber === 'string' ? value.lotNumber : '',
+    recallDate: typeof value.recallDate === 'string' ? value.recallDate : '',
+    recallReason: typeof value.recallReason === 'string' ? value.recallReason : '',
+    recallId: optionalString(value.recallId),
+    gtin: optionalString(value.gtin),
+    risk: optionalString(value.risk),
+    consumerAction: optionalString(value.consumerAction),
+    recallUrl: optionalString(value.recallUrl),
+    category: optionalString(value.category),
+    matchLevel: oneOf(value.matchLevel, MATCH_LEVELS),
+    matchConfidence: optionalNumber(value.matchConfidence),
+    scannedLotNumber: optionalString(value.scannedLotNumber),
+    scannedExpiryDate: optionalString(value.scannedExpiryDate),
+    lotStatus: oneOf(value.lotStatus, LOT_STATUSES),
+  };
+};
+
+/**
+ * Read an archived Nutri-Score
+ * @returns undefined when the grade, score or category is missing or unknown
+ */
+const parseNutriScore = (value: unknown): NutriScoreResult | undefined => {
+  if (!isObject(value)) return undefined;
+
+  const grade = oneOf(value.grade, NUTRI_SCORE_GRADES);
+  const score = optionalNumber(value.score);
+  const category = oneOf(value.category, NUTRI_SCORE_CATEGORIES);
+  if (!grade || score === undefined || !category) return undefined;
+
+  return { grade, score, category, estimated: value.estimated === true };
+};
+
+const toAllergens = (value: unknown): AllergenId[] =>
+  Array.isArray(value) ? EU_ALLERGENS.filter(allergen => value.includes(allergen)) : [];
+
+/**
+ * Read one archived scan
+ * @returns null when a required field is missing or malformed
+ */
+const parseArchivedScan = (value: unknown): ParsedArchivedScan | null => {
+  if (!isObject(value)) return null;
+
+  const scan = value as Partial<Record<keyof ArchivedScan, unknown>>;
+  const scanDate = typeof scan.scanDate === 'string' ? new Date(scan.scanDate) : null;
+  if (!scanDate || isNaN(scanDate.getTime())) return null;
+
+  const recallInfo = parseRecallInfo(scan.recallInfo);
+  if (!recallInfo) return null;
+
+  return {
+    archiveId: optionalString(scan.id) || null,
+    details: {
+      recallInfo,
+      nutritionalInfo: migrateNutritionalInfo(scan.nutritionalInfo) || undefined,
+      nutriScore: parseNutriScore(scan.nutriScore),
+      description: optionalString(scan.description),
+      imageUri: optionalString(scan.imageUri),
+      imagePath: optionalString(scan.imagePath),
+      isFood: typeof scan.isFood === 'boolean' ? scan.isFood : undefined,
+      ingredients: optionalString(scan.ingredients),
+      allergens: toAllergens(scan.allergens),
+      mayContainAllergens: toAllergens(scan.mayContainAllergens),
+      scanDate,
+    },
+  };
+};
+
+/**
+ * Validate the contents of an archive file
+ * @throws ScanArchiveError when the file is not a ScanRappel archive this version can read
+ */
+export const parseScanArchive = (text: string): ParsedScanArchive => {
+  let archive: unknown;
+  try {
+    archive = JSON.parse(text);
+  } catch {
+    throw new ScanArchiveError('invalidFile', 'The file is not valid JSON');
+  }
+
+  if (!isObject(archive) || archive.format !== SCAN_ARCHIVE_FORMAT || !Array.isArray(archive.scans)) {
+    throw new ScanArchiveError('invalidFile', 'The file is not a ScanRappel archive');
+  }
+  if (typeof archive.version !== 'number' || archive.version < 1 || archive.version > SCAN_ARCHIVE_VERSION) {
+    throw new ScanArchiveError('unsupportedVersion', `Unsupported archive version: ${archive.version}`);
+  }
+
+  const scans: ParsedArchivedScan[] = [];
+  archive.scans.forEach(value => {
+    const scan = parseArchivedScan(value);
+    if (scan) scans.push(scan);
+  });
+
+  return {
+    version: archive.version,
+    exportedAt: optionalString(archive.exportedAt) || null,
+    scans,
+    invalid: archive.scans.length - scans.length,
+  };
+};
+
+/**
+ * Read the archive out of an export zip
+ * @throws ScanArchiveError when the zip holds no readable archive
+ */
+export const parseScanArchiveZip = (bytes: Uint8Array): ParsedScanArchive => {
+  let files: Record<string, Uint8Array>;
+  try {
+    files = unzipSync(bytes, { filter: file => file.name.endsWith('.json') });
+  } catch {
+    throw new ScanArchiveError('invalidFile', 'The file is not a valid zip');
+  }
+
+  // Prefer the expected name, but accept an archive renamed by the user
+  const name = files[SCAN_ARCHIVE_FILE_NAME] ? SCAN_ARCHIVE_FILE_NAME : Object.keys(files)[0];
+  if (!name) {
+    throw new ScanArchiveError('invalidFile', 'The zip does not contain a ScanRappel archive');
+  }
+  return parseScanArchive(strFromU8(files[name]));
+};
+
+// Binary data from the base64 expo-file-system reads it as
+const base64ToBytes = (base64: string): Uint8Array => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+// Same product scanned at the same moment: barcode when known, otherwise the name
+const scanKey = (scan: ProductDetails): string =>
+  `${scan.scanDate.getTime()}|${scan.recallInfo.gtin || scan.recallInfo.productName.trim().toLowerCase()}`;
+
+/**
+ * Let the user pick an archive file and read it
+ * @returns null when the user cancelled
+ */
+export const pickScanArchive = async (): Promise<ParsedScanArchive | null> => {
+  const result = await DocumentPicker.getDocumentAsync({
+    type: ['application/zip', 'application/json', 'text/plain', '*/*'],
+    copyToCacheDirectory: true,
+  });
+  if (result.canceled || !result.assets?.length) return null;
+
+  const [asset] = result.assets;
+  if (asset.name.toLowerCase().endsWith('.zip') || asset.mimeType?.includes('zip')) {
+    const base64 = await FileSystem.readAsStringAsync(asset.uri, { encoding: FileSystem.EncodingType.Base64 });
+    return parseScanArchiveZip(base64ToBytes(base64));
+  }
+
+  const text = await FileSystem.readAsStringAsync(asset.uri);
+  return parseScanArchive(text);
+};
+
+/**
+ * Photos of the device that made the export are only kept when they exist on this one
+ */
+const keepAvailableImage = async (imageUri: string | undefined): Promise<string | undefined> => {
+  if (!imageUri?.startsWith('file:')) return imageUri;
+  try {
+    return (await FileSystem.getInfoAsync(imageUri)).exists ? imageUri : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Save the archived scans that are not in the user's history yet
+ */
+export const importScanArchive = async (userId: string, archive: ParsedScanArchive): Promise<ScanImportResult> => {
+  try {
+    console.log(`📥 Importing ${archive.scans.length} archived scans`);
+    const existing = await getScanHistory(userId);
+    const knownIds = new Set(existing.map(scan => scan.id).filter(Boolean));
+    const knownKeys = new Set(existing.map(scanKey));
+
+    const result: ScanImportResult = { imported: 0, duplicates: 0, invalid: archive.invalid };
+
+    for (const { archiveId, details } of archive.scans) {
+      const key = scanKey(details);
+      // Also catches scans listed twice in the same archive
+      if ((archiveId && knownIds.has(archiveId)) || knownKeys.has(key)) {
+        result.duplicates++;
+        continue;
+      }
+
+      // New ids: the archive may come from another account that still owns the originals.
+      // Uploaded photos of another account stay theirs, and could not be read or deleted from this one.
+      await saveScanHistory(userId, {
+        ...details,
+        imageUri: await keepAvailableImage(details.imageUri),
+        imagePath: details.imagePath?.startsWith(`food_images/${userId}/`) ? details.imagePath : undefined,
+      });
+      if (archiveId) knownIds.add(archiveId);
+      knownKeys.add(key);
+      result.imported++;
+    }
+
+    console.log(`✅ Import done: ${result.imported} imported, ${result.duplicates} duplicates, ${result.invalid} invalid`);
+    return result;
+  } catch (error) {
+    console.error('❌ Scan archive import failed:', error);
+    throw error;
+  }
+};
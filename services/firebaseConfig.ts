@@ -1,5 +1,5 @@
 import { initializeApp } from "firebase/app";
-import { getAuth, browserLocalPersistence, setPersistence } from "firebase/auth";
+import { getAuth, browserLocalPersistence, setPersistence, connectAuthEmulator } from "firebase/auth";
 import { getFirestore } from "firebase/firestore";
 import { getStorage } from "firebase/storage";
 import { getAnalytics, isSupported, Analytics } from "firebase/analytics";
@@ -34,6 +34,13 @@ const app = initializeApp(firebaseConfig);
 // Initialize Auth
 const auth = getAuth(app);
 
+// Use the Auth emulator when configured (e.g. "localhost:9099"), for tests of the account flows
+const authEmulatorHost = process.env.EXPO_PUBLIC_FIREBASE_AUTH_EMULATOR_HOST;
+if (authEmulatorHost) {
+  connectAuthEmulator(auth, `http://${authEmulatorHost}`, { disableWarnings: true });
+  console.log(`🧪 Using the Firebase Auth emulator at ${authEmulatorHost}`);
+}
+
 // Initialize Storage and test it
 const storage = getStorage(app);
 console.log(`🔥 Firebase Storage initialized with bucket: ${storage.app.options.storageBucket || 'undefined'}`);
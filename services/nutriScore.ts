@@ -0,0 +1,133 @@
+import type { NutriScoreCategory } from './productAnalysis';
+import type { NutrientValues, NutritionalInfo } from './nutrition';
+
+/**
+ * Nutri-Score computed from the per 100 g/ml values, using the 2023 algorithm
+ * (Santé publique France) and its general food, beverage and fats/oils/nuts/seeds grids;
+ * cheeses use the general food grid but always count their protein.
+ * The share of fruit, vegetables and legumes and the presence of sweeteners are not
+ * extracted from the pack, so they count as zero: the computed grade can only be
+ * stricter than the official one.
+ */
+
+export type NutriScoreGrade = 'A' | 'B' | 'C' | 'D' | 'E';
+
+export interface NutriScoreResult {
+  grade: NutriScoreGrade;
+  score: number;
+  category: NutriScoreCategory;
+  // Some inputs were estimated by the model or missing from the label
+  estimated: boolean;
+}
+
+// Points are the number of thresholds the value is strictly above
+const points = (value: number, thresholds: number[]): number => {
+  return thresholds.filter(threshold => value > threshold).length;
+};
+
+const range = (start: number, step: number, count: number): number[] => {
+  return Array.from({ length: count }, (_, i) => Number((start + i * step).toFixed(2)));
+};
+
+const GRIDS = {
+  energy: range(335, 335, 10),
+  sugars: [3.4, 6.8, 10, 14, 17, 20, 24, 27, 31, 34, 37, 41, 44, 48, 51],
+  saturatedFat: range(1, 1, 10),
+  salt: range(0.2, 0.2, 20),
+  protein: [2.4, 4.8, 7.2, 9.6, 12, 14, 17],
+  fibre: [3.0, 4.1, 5.2, 6.3, 7.4],
+  // Fats, oils, nuts and seeds
+  saturatedEnergy: range(120, 120, 10),
+  saturatedRatio: range(10, 6, 10),
+  // Beverages
+  beverageEnergy: [30, 90, 150, 210, 240, 270, 300, 330, 360, 390],
+  beverageSugars: [0.5, 2, 3.5, 5, 6, 7, 8, 9, 10, 11],
+  beverageProtein: [1.2, 1.5, 1.8, 2.1, 2.4, 2.7, 3.0],
+};
+
+// Energy of saturated fatty acids, in kJ per gram
+const SATURATED_FAT_KJ_PER_G = 37;
+
+// Highest score of each grade, A first
+const GRADE_LIMITS: Record<Exclude<NutriScoreCategory, 'water'>, number[]> = {
+  food: [0, 2, 10, 18],
+  cheese: [0, 2, 10, 18],
+  fats: [-6, 2, 10, 18],
+  // Only water can get an A
+  beverage: [-Infinity, 2, 6, 9],
+};
+
+// From this many negative points on, protein no longer counts
+const PROTEIN_CAP: Record<Exclude<NutriScoreCategory, 'water'>, number> = {
+  food: 11,
+  cheese: Infinity,
+  fats: 7,
+  beverage: Infinity,
+};
+
+const GRADES: NutriScoreGrade[] = ['A', 'B', 'C', 'D', 'E'];
+
+/**
+ * Guess the category from the product category text when the analysis did not give one
+ */
+export const inferNutriScoreCategory = (nutrition: NutritionalInfo, productCategory?: string | null): NutriScoreCategory => {
+  const category = (productCategory || '').toLowerCase();
+  if (/\b(water|eau)\b/.test(category) && !nutrition.per100?.energyKcal?.value) return 'water';
+  if (nutrition.basis === 'ml' || /beverage|drink|boisson|juice|jus|soda/.test(category)) return 'beverage';
+  if (/\b(cheeses?|fromages?)\b/.test(category)) return 'cheese';
+  if (/\b(oils?|huiles?|butter|beurre|fats?|nuts?|noix|seeds?|graines?|margarine)\b/.test(category)) return 'fats';
+  return 'food';
+};
+
+/**
+ * Compute the Nutri-Score from the per 100 g/ml values
+ * @returns null when energy, sugars, saturated fat or salt is unknown
+ */
+export const computeNutriScore = (nutrition: NutritionalInfo | null | undefined, category: NutriScoreCategory): NutriScoreResult | null => {
+  const values: NutrientValues | null | undefined = nutrition?.per100;
+  if (!values) return null;
+
+  if (category === 'water') {
+    return { grade: 'A', score: 0, category, estimated: false };
+  }
+
+  const { energyKj, sugars, saturatedFat, salt, fat, protein, fibre } = values;
+  if (!energyKj || !sugars || !saturatedFat || !salt) return null;
+
+  let negative: number;
+  if (category === 'beverage') {
+    negative = points(energyKj.value, GRIDS.beverageEnergy)
+      + points(sugars.value, GRIDS.beverageSugars)
+      + points(saturatedFat.value, GRIDS.saturatedFat)
+      + points(salt.value, GRIDS.salt);
+  } else if (category === 'fats') {
+    const ratio = fat?.value ? (saturatedFat.value / fat.value) * 100 : 0;
+    negative = points(saturatedFat.value * SATURATED_FAT_KJ_PER_G, GRIDS.saturatedEnergy)
+      + points(sugars.value, GRIDS.sugars)
+      + (fat?.value ? points(ratio, GRIDS.saturatedRatio) : 0)
+      + points(salt.value, GRIDS.salt);
+  } else {
+    negative = points(energyKj.value, GRIDS.energy)
+      + points(sugars.value, GRIDS.sugars)
+      + points(saturatedFat.value, GRIDS.saturatedFat)
+      + points(salt.value, GRIDS.salt);
+  }
+
+  const proteinPoints = protein
+    ? points(protein.value, category === 'beverage' ? GRIDS.beverageProtein : GRIDS.protein)
+    : 0;
+  const fibrePoints = fibre ? points(fibre.value, GRIDS.fibre) : 0;
+  const positive = fibrePoints + (negative >= PROTEIN_CAP[category] ? 0 : proteinPoints);
+
+  const score = negative - positive;
+  const limits = GRADE_LIMITS[category];
+  const gradeIndex = limits.findIndex(limit => score <= limit);
+
+  const inputs = [energyKj, sugars, saturatedFat, salt, protein, fibre, ...(category === 'fats' ? [fat] : [])];
+  return {
+    grade: GRADES[gradeIndex === -1 ? GRADES.length - 1 : gradeIndex],
+    score,
+    category,
+    estimated: inputs.some(input => !input || input.estimated),
+  };
+};
@@ -0,0 +1,206 @@
+import { NUTRIENT_KEYS, type AnalyzedNutrition, type AnalyzedNutritionFacts, type NutrientKey } from './productAnalysis';
+
+/**
+ * Numeric EU nutrition declaration stored with scans.
+ * Also converts the older formats: display strings such as "250 kcal / 100 g · 75 kcal / 30 g"
+ * or "about 120 kcal (estimate)", and analyses cached before the full declaration existed.
+ */
+
+export type NutrientUnit = 'kJ' | 'kcal' | 'g';
+
+export const NUTRIENT_UNITS: Record<NutrientKey, NutrientUnit> = {
+  energyKj: 'kJ',
+  energyKcal: 'kcal',
+  fat: 'g',
+  saturatedFat: 'g',
+  carbohydrate: 'g',
+  sugars: 'g',
+  fibre: 'g',
+  protein: 'g',
+  salt: 'g',
+};
+
+export interface NutrientValue {
+  value: number;
+  unit: NutrientUnit;
+  // Estimated from similar products rather than read from the label
+  estimated: boolean;
+}
+
+// Missing nutrients are unknown
+export type NutrientValues = Partial<Record<NutrientKey, NutrientValue>>;
+
+export interface NutritionalInfo {
+  // Per 100 g, or per 100 ml when basis is "ml"
+  per100: NutrientValues | null;
+  perServing: NutrientValues | null;
+  basis: 'g' | 'ml';
+  servingSize: string | null;
+}
+
+const KJ_PER_KCAL = 4.184;
+
+// Nutrients stored by the old display-string format
+const LEGACY_FIELDS: Record<string, NutrientKey> = {
+  calories: 'energyKcal',
+  fats: 'fat',
+  carbs: 'carbohydrate',
+  proteins: 'protein',
+};
+
+// Analysis cached before the full declaration: per100g instead of per100, one estimated flag
+interface LegacyAnalyzedNutritionFacts {
+  per100g?: Partial<AnalyzedNutrition> | null;
+  estimated?: boolean;
+}
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const hasValues = (values: NutrientValues | null): values is NutrientValues =>
+  !!values && Object.keys(values).length > 0;
+
+/**
+ * Fill in kJ from kcal or kcal from kJ when the label only gives one of them
+ */
+const withBothEnergyUnits = (values: NutrientValues): NutrientValues => {
+  const { energyKj, energyKcal } = values;
+  if (energyKj && !energyKcal) {
+    return { ...values, energyKcal: { value: Math.round(energyKj.value / KJ_PER_KCAL), unit: 'kcal', estimated: energyKj.estimated } };
+  }
+  if (energyKcal && !energyKj) {
+    return { ...values, energyKj: { value: Math.round(energyKcal.value * KJ_PER_KCAL), unit: 'kJ', estimated: energyKcal.estimated } };
+  }
+  return values;
+};
+
+const toNutrientValues = (
+  nutrition: Partial<AnalyzedNutrition> | null | undefined,
+  isEstimated: (key: NutrientKey) => boolean
+): NutrientValues | null => {
+  if (!nutrition) return null;
+  const values: NutrientValues = {};
+  NUTRIENT_KEYS.forEach(key => {
+    const value = nutrition[key];
+    if (typeof value === 'number' && Number.isFinite(value)) {
+      values[key] = { value, unit: NUTRIENT_UNITS[key], estimated: isEstimated(key) };
+    }
+  });
+  return hasValues(values) ? withBothEnergyUnits(values) : null;
+};
+
+/**
+ * Build the stored nutrition declaration from the model's nutrition facts
+ */
+export const fromAnalyzedNutrition = (
+  nutrition: (AnalyzedNutritionFacts & LegacyAnalyzedNutritionFacts) | null
+): NutritionalInfo | null => {
+  if (!nutrition) return null;
+
+  const estimatedNutrients = nutrition.estimatedNutrients ?? [];
+  const isEstimated = (key: NutrientKey) => !!nutrition.estimated || estimatedNutrients.includes(key);
+  const per100 = toNutrientValues(nutrition.per100 ?? nutrition.per100g, isEstimated);
+  const perServing = toNutrientValues(nutrition.perServing, isEstimated);
+  if (!per100 && !perServing) return null;
+
+  return {
+    per100,
+    perServing,
+    basis: nutrition.basis ?? 'g',
+    servingSize: nutrition.servingSize ?? null,
+  };
+};
+
+/**
+ * Whether a stored value uses the old display-string format
+ */
+export const isLegacyNutritionalInfo = (value: unknown): boolean => {
+  return isObject(value) && Object.keys(LEGACY_FIELDS).some(field => typeof value[field] === 'string');
+};
+
+/**
+ * Parse one old display string, e.g. "250 kcal / 100 g · 75 kcal / 30 g (estimate)"
+ */
+const parseLegacyNutrient = (text: string) => {
+  const estimated = /estimat|about|approx|environ|~/i.test(text);
+  const result: { per100?: number; perServing?: number; basis?: 'g' | 'ml'; servingSize?: string; estimated: boolean } = { estimated };
+
+  text.split('·').forEach(segment => {
+    const number = segment.match(/\d+(?:[.,]\d+)?/);
+    if (!number) return;
+    const value = Number(number[0].replace(',', '.'));
+
+    const per100 = segment.match(/\/\s*100\s*(g|ml)\b/i);
+    const perServing = segment.match(/\/\s*([^(]+)/);
+    if (per100) {
+      result.per100 = value;
+      result.basis = per100[1].toLowerCase() === 'ml' ? 'ml' : 'g';
+    } else if (perServing) {
+      result.perServing = value;
+      const size = perServing[1].trim();
+      if (size && size !== 'serving') result.servingSize = size;
+    } else if (result.per100 === undefined) {
+      // Free text without a basis (e.g. "about 120 kcal"): assume per 100 g and flag it as an estimate
+      result.per100 = value;
+      result.estimated = true;
+    }
+  });
+
+  return result;
+};
+
+/**
+ * Convert the old display strings into the numeric declaration
+ */
+const migrateLegacyNutritionalInfo = (legacy: Record<string, unknown>): NutritionalInfo | null => {
+  const per100: NutrientValues = {};
+  const perServing: NutrientValues = {};
+  let basis: 'g' | 'ml' = 'g';
+  let servingSize: string | null = null;
+
+  Object.entries(LEGACY_FIELDS).forEach(([field, key]) => {
+    const text = legacy[field];
+    if (typeof text !== 'string') return;
+
+    const parsed = parseLegacyNutrient(text);
+    const unit = NUTRIENT_UNITS[key];
+    if (parsed.per100 !== undefined) per100[key] = { value: parsed.per100, unit, estimated: parsed.estimated };
+    if (parsed.perServing !== undefined) perServing[key] = { value: parsed.perServing, unit, estimated: parsed.estimated };
+    if (parsed.basis) basis = parsed.basis;
+    if (parsed.servingSize) servingSize = parsed.servingSize;
+  });
+
+  if (!hasValues(per100) && !hasValues(perServing)) return null;
+  return {
+    per100: hasValues(per100) ? withBothEnergyUnits(per100) : null,
+    perServing: hasValues(perServing) ? withBothEnergyUnits(perServing) : null,
+    basis,
+    servingSize,
+  };
+};
+
+/**
+ * Read a stored nutrition declaration, converting the old display-string format
+ */
+export const migrateNutritionalInfo = (value: unknown): NutritionalInfo | null => {
+  if (!isObject(value)) return null;
+  if (isLegacyNutritionalInfo(value)) {
+    return migrateLegacyNutritionalInfo(value);
+  }
+  return {
+    per100: value.per100 ?? null,
+    perServing: value.perServing ?? null,
+    basis: value.basis === 'ml' ? 'ml' : 'g',
+    servingSize: value.servingSize ?? null,
+  };
+};
+
+/**
+ * Format a value for display, e.g. "12.5 g" or "~250 kcal" for an estimate
+ */
+export const formatNutrientValue = (nutrient: NutrientValue | undefined): string => {
+  if (!nutrient) return '—';
+  const decimals = nutrient.unit !== 'g' || nutrient.value >= 10 ? 0 : nutrient.value < 1 ? 2 : 1;
+  const value = Number(nutrient.value.toFixed(decimals));
+  return `${nutrient.estimated ? '~' : ''}${value} ${nutrient.unit}`;
+};
@@ -0,0 +1,332 @@
+import { ensureOk, runWithPolicy, RequestCancelledError } from './requestPolicy';
+import { NUTRIENT_KEYS, type AllergenId, type AnalyzedNutrition, type NutrientKey, type NutriScoreCategory } from './productAnalysis';
+import { fromAnalyzedNutrition, type NutritionalInfo } from './nutrition';
+import { computeNutriScore, type NutriScoreGrade, type NutriScoreResult } from './nutriScore';
+import { extractGtin } from './barcode';
+
+/**
+ * Client for the Open Food Facts product database (world.openfoodfacts.org),
+ * used to fill in product facts when the barcode is known instead of asking the vision model.
+ *
+ * The base URL can be overridden with EXPO_PUBLIC_OPENFOODFACTS_API_URL, and
+ * EXPO_PUBLIC_OPENFOODFACTS_SOURCE=fixture answers from the bundled fixtures without
+ * any network call (tests and demos). Another source can be injected with setProductSource().
+ * Open Food Facts data is available under the Open Database License (ODbL).
+ */
+
+const DEFAULT_BASE_URL = 'https://world.openfoodfacts.org';
+
+// Open Food Facts asks API clients to identify themselves
+const USER_AGENT = 'ScanRappel/1.0.0 (mobile app)';
+
+// Total time allowed per lookup, retries included
+const LOOKUP_DEADLINE = 10 * 1000; // 10 seconds
+
+// Only the fields we use, to keep responses small
+const PRODUCT_FIELDS = [
+  'code', 'product_name', 'product_name_fr', 'generic_name', 'generic_name_fr', 'brands', 'quantity',
+  'image_front_url', 'image_url', 'ingredients_text', 'ingredients_text_fr', 'allergens_tags', 'traces_tags',
+  'nutriments', 'serving_size', 'nutriscore_grade', 'nutriscore_score', 'categories_tags',
+];
+
+// Raw product as returned by the API v2 (only the fields we use)
+export interface OpenFoodFactsRecord {
+  code?: string;
+  product_name?: string;
+  product_name_fr?: string;
+  generic_name?: string;
+  generic_name_fr?: string;
+  brands?: string;
+  quantity?: string;
+  image_front_url?: string;
+  image_url?: string;
+  ingredients_text?: string;
+  ingredients_text_fr?: string;
+  allergens_tags?: string[];
+  traces_tags?: string[];
+  nutriments?: Record<string, number | string | undefined>;
+  serving_size?: string;
+  nutriscore_grade?: string;
+  nutriscore_score?: number;
+  categories_tags?: string[];
+}
+
+// Product facts from Open Food Facts, in the shape used by the screens
+export interface OpenFoodFactsProduct {
+  gtin: string;
+  productName: string;
+  brand: string | null;
+  description: string | null;
+  imageUrl: string | null;
+  ingredients: string | null;
+  allergens: AllergenId[];
+  mayContainAllergens: AllergenId[];
+  nutritionalInfo: NutritionalInfo | null;
+  nutriScore: NutriScoreResult | null;
+  // Product page, for attribution
+  url: string;
+}
+
+// Anything able to answer product lookups by barcode (live API, fixtures, test double...)
+export interface ProductSource {
+  findByGtin: (gtin: string, options?: { signal?: AbortSignal }) => Promise<OpenFoodFactsProduct | null>;
+}
+
+export interface OpenFoodFactsClientOptions {
+  baseUrl?: string;
+  fetchImpl?: typeof fetch;
+}
+
+// Open Food Facts allergen taxonomy entries for the 14 EU allergens
+const OFF_ALLERGENS: Record<string, AllergenId> = {
+  'en:gluten': 'gluten',
+  'en:crustaceans': 'crustaceans',
+  'en:eggs': 'eggs',
+  'en:fish': 'fish',
+  'en:peanuts': 'peanuts',
+  'en:soybeans': 'soy',
+  'en:milk': 'milk',
+  'en:nuts': 'nuts',
+  'en:celery': 'celery',
+  'en:mustard': 'mustard',
+  'en:sesame-seeds': 'sesame',
+  'en:sulphur-dioxide-and-sulphites': 'sulphites',
+  'en:lupin': 'lupin',
+  'en:molluscs': 'molluscs',
+};
+
+// Open Food Facts nutriment names, suffixed with "_100g" or "_serving"
+const OFF_NUTRIMENTS: Record<NutrientKey, string> = {
+  energyKj: 'energy-kj',
+  energyKcal: 'energy-kcal',
+  fat: 'fat',
+  saturatedFat: 'saturated-fat',
+  carbohydrate: 'carbohydrates',
+  sugars: 'sugars',
+  fibre: 'fiber',
+  protein: 'proteins',
+  salt: 'salt',
+};
+
+const GRADES: NutriScoreGrade[] = ['A', 'B', 'C', 'D', 'E'];
+
+const toAllergens = (tags?: string[]): AllergenId[] => {
+  const allergens = (tags || []).map(tag => OFF_ALLERGENS[tag]).filter(Boolean);
+  return [...new Set(allergens)];
+};
+
+const readNutrition = (
+  nutriments: OpenFoodFactsRecord['nutriments'],
+  suffix: '_100g' | '_serving'
+): AnalyzedNutrition | null => {
+  if (!nutriments) return null;
+  let found = false;
+  const nutrition = {} as AnalyzedNutrition;
+  NUTRIENT_KEYS.forEach(key => {
+    const raw = nutriments[`${OFF_NUTRIMENTS[key]}${suffix}`];
+    const value = raw === undefined || raw === '' ? NaN : Number(raw);
+    nutrition[key] = Number.isFinite(value) ? value : null;
+    if (Number.isFinite(value)) found = true;
+  });
+  return found ? nutrition : null;
+};
+
+/**
+ * Nutri-Score grid from the product categories, for products without an official grade
+ */
+const toNutriScoreCategory = (tags: string[], basis: 'g' | 'ml'): NutriScoreCategory => {
+  if (tags.includes('en:waters') && !tags.includes('en:flavoured-waters')) return 'water';
+  if (tags.includes('en:beverages') || basis === 'ml') return 'beverage';
+  if (tags.includes('en:cheeses')) return 'cheese';
+  if (['en:fats', 'en:vegetable-oils', 'en:nuts', 'en:seeds'].some(tag => tags.includes(tag))) return 'fats';
+  return 'food';
+};
+
+/**
+ * Map a raw API product into OpenFoodFactsProduct
+ */
+export const mapOpenFoodFactsRecord = (record: OpenFoodFactsRecord, baseUrl = DEFAULT_BASE_URL): OpenFoodFactsProduct => {
+  const gtin = record.code || '';
+  // Values are given per 100 g even for liquids; the quantity tells whether it is per 100 ml
+  const basis = /\d\s*(ml|cl|l)\b/i.test(record.quantity || '') ? 'ml' : 'g';
+  const categories = record.categories_tags || [];
+  const nutriScoreCategory = toNutriScoreCategory(categories, basis);
+
+  const nutritionalInfo = fromAnalyzedNutrition({
+    per100: readNutrition(record.nutriments, '_100g'),
+    perServing: readNutrition(record.nutriments, '_serving'),
+    basis,
+    servingSize: record.serving_size?.trim() || null,
+    estimatedNutrients: [],
+    nutriScoreCategory,
+  });
+
+  // The official grade also accounts for fruit and vegetable content, which we cannot compute
+  const officialGrade = GRADES.find(grade => grade === record.nutriscore_grade?.toUpperCase());
+  const nutriScore: NutriScoreResult | null = officialGrade
+    ? { grade: officialGrade, score: record.nutriscore_score ?? 0, category: nutriScoreCategory, estimated: false }
+    : computeNutriScore(nutritionalInfo, nutriScoreCategory);
+
+  const brand = (record.brands || '').split(',')[0].trim() || null;
+  const name = (record.product_name_fr || record.product_name || record.generic_name_fr || record.generic_name || '').trim();
+  const genericName = (record.generic_name_fr || record.generic_name || '').trim();
+
+  return {
+    gtin,
+    productName: (brand && !name.toLowerCase().includes(brand.toLowerCase()) ? `${brand} ${name}` : name).trim() || gtin,
+    brand,
+    description: [genericName, record.quantity?.trim()].filter(Boolean).join(', ') || null,
+    imageUrl: record.image_front_url || record.image_url || null,
+    ingredients: (record.ingredients_text_fr || record.ingredients_text || '').trim() || null,
+    allergens: toAllergens(record.allergens_tags),
+    mayContainAllergens: toAllergens(record.traces_tags),
+    nutritionalInfo,
+    nutriScore,
+    url: `${baseUrl.replace(/\/+$/, '')}/product/${gtin}`,
+  };
+};
+
+/**
+ * Create a ProductSource backed by the Open Food Facts API v2
+ */
+export const createOpenFoodFactsClient = (options: OpenFoodFactsClientOptions = {}): ProductSource => {
+  const baseUrl = (options.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, '');
+  const fetchImpl = options.fetchImpl || fetch;
+
+  return {
+    findByGtin: async (gtin, lookupOptions = {}) => {
+      const digits = gtin.replace(/\D/g, '');
+      const params = new URLSearchParams({ fields: PRODUCT_FIELDS.join(',') });
+
+      const body = await runWithPolicy(async attempt => {
+        const response = await fetchImpl(`${baseUrl}/api/v2/product/${digits}.json?${params.toString()}`, {
+          headers: { Accept: 'application/json', 'User-Agent': USER_AGENT },
+          signal: attempt.signal,
+        });
+        // Unknown products are answered with a 404
+        if (response.status === 404) return null;
+        ensureOk(response, 'Open Food Facts request');
+        return response.json();
+      }, { signal: lookupOptions.signal, deadlineMs: LOOKUP_DEADLINE });
+
+      if (!body || body.status === 0 || !body.product) return null;
+      return mapOpenFoodFactsRecord({ code: digits, ...body.product }, baseUrl);
+    },
+  };
+};
+
+// Products answered in fixture mode, as returned by the API
+export const OPEN_FOOD_FACTS_FIXTURES: Record<string, OpenFoodFactsRecord> = {
+  '3017620422003': {
+    code: '3017620422003',
+    product_name_fr: 'Nutella',
+    generic_name_fr: 'Pâte à tartiner aux noisettes et au cacao',
+    brands: 'Nutella, Ferrero',
+    quantity: '400 g',
+    ingredients_text_fr: 'Sucre, huile de palme, NOISETTES 13%, cacao maigre 7,4%, LAIT écrémé en poudre 6,6%, LACTOSÉRUM en poudre, émulsifiants: lécithines [SOJA], vanilline.',
+    allergens_tags: ['en:milk', 'en:nuts', 'en:soybeans'],
+    traces_tags: [],
+    nutriments: {
+      'energy-kj_100g': 2252,
+      'energy-kcal_100g': 539,
+      'fat_100g': 30.9,
+      'saturated-fat_100g': 10.6,
+      'carbohydrates_100g': 57.5,
+      'sugars_100g': 56.3,
+      'proteins_100g': 6.3,
+      'salt_100g': 0.107,
+      'energy-kj_serving': 338,
+      'energy-kcal_serving': 80.9,
+      'fat_serving': 4.64,
+      'saturated-fat_serving': 1.59,
+      'carbohydrates_serving': 8.63,
+      'sugars_serving': 8.45,
+      'proteins_serving': 0.945,
+      'salt_serving': 0.016,
+    },
+    serving_size: '15 g',
+    nutriscore_grade: 'e',
+    nutriscore_score: 26,
+    categories_tags: ['en:spreads', 'en:sweet-spreads', 'en:cocoa-and-hazelnuts-spreads'],
+  },
+  '5449000000996': {
+    code: '5449000000996',
+    product_name_fr: 'Coca-Cola',
+    generic_name_fr: 'Boisson rafraîchissante aux extraits végétaux',
+    brands: 'Coca-Cola',
+    quantity: '330 ml',
+    ingredients_text_fr: 'Eau gazéifiée, sucre, colorant: caramel E150d, acidifiant: acide phosphorique, arômes naturels (extraits végétaux), dont caféine.',
+    allergens_tags: [],
+    traces_tags: [],
+    nutriments: {
+      'energy-kj_100g': 180,
+      'energy-kcal_100g': 42,
+      'fat_100g': 0,
+      'saturated-fat_100g': 0,
+      'carbohydrates_100g': 10.6,
+      'sugars_100g': 10.6,
+      'proteins_100g': 0,
+      'salt_100g': 0,
+    },
+    categories_tags: ['en:beverages', 'en:carbonated-drinks', 'en:sodas', 'en:colas'],
+  },
+};
+
+/**
+ * Fetch replacement answering product lookups from fixtures, without any network call
+ */
+export const createFixtureFetch = (fixtures: Record<string, OpenFoodFactsRecord> = OPEN_FOOD_FACTS_FIXTURES): typeof fetch => {
+  return (async (input: RequestInfo | URL) => {
+    const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+    const gtin = url.match(/\/product\/(\d+)\.json/)?.[1] || '';
+    const product = fixtures[gtin];
+    const body = product
+      ? { code: gtin, status: 1, product }
+      : { code: gtin, status: 0, status_verbose: 'product not found' };
+    return new Response(JSON.stringify(body), {
+      status: product ? 200 : 404,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }) as typeof fetch;
+};
+
+// Live (or env-configured) Open Food Facts client
+let productSource: ProductSource = createOpenFoodFactsClient({
+  baseUrl: process.env.EXPO_PUBLIC_OPENFOODFACTS_API_URL,
+  fetchImpl: process.env.EXPO_PUBLIC_OPENFOODFACTS_SOURCE === 'fixture' ? createFixtureFetch() : undefined,
+});
+
+/**
+ * Get the product source currently used for barcode lookups
+ */
+export const getProductSource = (): ProductSource => productSource;
+
+/**
+ * Replace the product source (fixture server, test double...)
+ */
+export const setProductSource = (source: ProductSource): void => {
+  productSource = source;
+};
+
+/**
+ * Look up a product by barcode
+ * @returns The product facts, or null when the product is unknown or the lookup failed
+ * @throws RequestCancelledError when cancelled
+ */
+export const lookupProductByGtin = async (
+  gtin: string,
+  options: { signal?: AbortSignal } = {}
+): Promise<OpenFoodFactsProduct | null> => {
+  const normalized = extractGtin(gtin);
+  if (!normalized) return null;
+
+  try {
+    const product = await productSource.findByGtin(normalized, options);
+    console.log(product ? `✅ Found ${normalized} on Open Food Facts` : `Product ${normalized} is not on Open Food Facts`);
+    return product;
+  } catch (error) {
+    if (error instanceof RequestCancelledError) throw error;
+    console.error('Error looking up product on Open Food Facts:', error);
+    return null;
+  }
+};
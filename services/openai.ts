@@ -1,124 +1,61 @@
-import OpenAI from 'openai';
-import { ChatCompletionMessageParam } from 'openai/resources';
 import * as FileSystem from 'expo-file-system';
 import { ref, uploadBytes, getDownloadURL } from 'firebase/storage';
-import { db, storage } from './firebaseConfig';
+import { auth, storage } from './firebaseConfig';
+import { fromAnalyzedNutrition, type NutritionalInfo } from './nutrition';
+import { computeNutriScore, inferNutriScoreCategory, type NutriScoreResult } from './nutriScore';
+import {
+  PRODUCT_ANALYSIS_PROMPT,
+  PRODUCT_ANALYSIS_SCHEMA,
+  PRODUCT_ANALYSIS_SYSTEM_PROMPT,
+  parseProductAnalysis,
+  type ProductAnalysisResponse,
+} from './productAnalysis';
+import { getVisionProvider } from './visionProvider';
+import { RequestCancelledError, runWithPolicy } from './requestPolicy';
+import { cacheAnalysis, getCachedAnalysisByGtin, getCachedAnalysisByImage, hashImage } from './analysisCache';
+import { extractGtin } from './barcode';
 
-// Initialize OpenAI with API key from environment
-const openai = new OpenAI({
-  apiKey: process.env.EXPO_PUBLIC_OPENAI_API_KEY,
-  dangerouslyAllowBrowser: true, // Needed for client-side browser usage
-});
+// Time allowed for the whole analysis, retries included
+const ANALYSIS_DEADLINE = 90 * 1000; // 90 seconds
 
-// Using the latest model with vision capabilities
-const DEFAULT_MODEL = "gpt-4o";  // Latest model with vision support
+// Steps of an image analysis, reported to the UI
+export type AnalysisStage = 'preparing' | 'uploading' | 'analyzing' | 'retrying';
 
-// Simple in-memory cache for responses to avoid duplicate processing
-interface CacheEntry {
-  timestamp: number;
-  response: any;
+export interface AnalysisProgress {
+  stage: AnalysisStage;
+  attempt?: number;
+  maxAttempts?: number;
+  retryInMs?: number;
 }
-const responseCache: Record<string, CacheEntry> = {};
-const CACHE_EXPIRY = 24 * 60 * 60 * 1000; // 24 hours in milliseconds for longer caching
 
-/**
- * Helper function to implement exponential backoff for API retries
- * @param retries Number of retries attempted so far
- * @returns Time to wait in milliseconds before next retry
- */
-const getBackoffTime = (retries: number): number => {
-  // Exponential backoff with jitter: 2^retries * (0.5-1.5 random factor) * 1000ms base
-  const jitter = 0.5 + Math.random();
-  return Math.min(Math.pow(2, retries) * jitter * 1000, 30000); // Cap at 30 seconds
-};
-
-/**
- * Generate a cache key from a function name and parameters
- */
-const generateCacheKey = (functionName: string, params: any): string => {
-  return `${functionName}:${JSON.stringify(params)}`;
-};
-
-/**
- * Get a cached response if available and not expired
- */
-const getCachedResponse = (cacheKey: string): any | null => {
-  const cached = responseCache[cacheKey];
-  if (cached && Date.now() - cached.timestamp < CACHE_EXPIRY) {
-    console.log('Using cached response for:', cacheKey);
-    return cached.response;
-  }
-  return null;
-};
-
-/**
- * Cache a response for future use
- */
-const setCachedResponse = (cacheKey: string, response: any): void => {
-  responseCache[cacheKey] = {
-    timestamp: Date.now(),
-    response,
-  };
-};
-
-/**
- * Execute a function with caching and retry logic
- * @param fn The async function to execute with retries
- * @param cacheKey A unique key to identify this operation for caching
- * @param maxRetries Maximum number of retries before giving up
- * @returns Result of the function
- */
-const withRetry = async <T>(
-  fn: () => Promise<T>, 
-  cacheKey: string | null = null,
-  maxRetries = 5
-): Promise<T> => {
-  // Check cache first if cacheKey is provided
-  if (cacheKey) {
-    const cached = getCachedResponse(cacheKey);
-    if (cached) return cached as T;
-  }
+export interface AnalyzeImageOptions {
+  // Abort to cancel the analysis (e.g. when the user starts another scan)
+  signal?: AbortSignal;
+  onProgress?: (progress: AnalysisProgress) => void;
+}
 
-  let retries = 0;
-  
-  while (true) {
-    try {
-      // Execute the function directly - no rate limiting
-      const result = await fn();
-      
-      // Cache the result if cacheKey is provided
-      if (cacheKey) {
-        setCachedResponse(cacheKey, result);
-      }
-      
-      return result;
-    } catch (error: any) {
-      console.error('API call error:', error.message || error);
-      
-      // If we've used all retries, throw
-      if (retries >= maxRetries) {
-        console.error('Maximum retries reached, giving up.');
-        throw error;
-      }
-      
-      // Increment retries and wait with exponential backoff
-      retries++;
-      const backoffTime = getBackoffTime(retries);
-      console.log(`API call failed. Retrying in ${backoffTime/1000} seconds... (Retry ${retries}/${maxRetries})`);
-      await new Promise(resolve => setTimeout(resolve, backoffTime));
-    }
-  }
-};
+// Location of an image the vision provider can read
+interface UploadedImage {
+  url: string;
+  // Firebase Storage path, null when falling back to base64
+  path: string | null;
+}
 
 /**
  * Upload an image to Firebase Storage and get its URL
  * @param uri Local image URI
- * @returns Public URL of the uploaded image
+ * @returns Public URL and storage path of the uploaded image
  */
-const uploadImageToFirebase = async (uri: string): Promise<string> => {
+const uploadImageToFirebase = async (uri: string): Promise<UploadedImage> => {
   try {
+    // Images go to the user's own folder so they are deleted with the account
+    const userId = auth.currentUser?.uid;
+    if (!userId) {
+      throw new Error('Sign in to upload images');
+    }
+
     // Generate a unique filename using timestamp and random string
-    const filename = `food_images/${Date.now()}-${Math.random().toString(36).substring(2, 15)}.jpg`;
+    const filename = `food_images/${userId}/${Date.now()}-${Math.random().toString(36).substring(2, 15)}.jpg`;
     const storageRef = ref(storage, filename);
     
     // Convert URI to blob
@@ -137,7 +74,7 @@ const uploadImageToFirebase = async (uri: string): Promise<string> => {
       const downloadURL = await getDownloadURL(snapshot.ref);
       console.log('Image URL:', downloadURL);
       
-      return downloadURL;
+      return { url: downloadURL, path: filename };
     } catch (uploadError: any) {
       // Log detailed information about the upload error
       console.error('Firebase Storage upload error details:');
@@ -160,7 +97,7 @@ const uploadImageToFirebase = async (uri: string): Promise<string> => {
     console.error('Error uploading image to Firebase:', error);
     console.log('Falling back to base64 encoding...');
     // Fall back to base64 encoding if Firebase upload fails
-    return `data:image/jpeg;base64,${await imageToBase64(uri)}`;
+    return { url: `data:image/jpeg;base64,${await imageToBase64(uri)}`, path: null };
   }
 };
 
@@ -182,284 +119,141 @@ const imageToBase64 = async (uri: string): Promise<string> => {
   }
 };
 
+// Product analysis with display-ready fields used by the screens
+export interface ProductAnalysis extends ProductAnalysisResponse {
+  productName: string;
+  nutritionalInfo: NutritionalInfo | null;
+  nutriScore: NutriScoreResult | null;
+  // Firebase Storage path of the photo, when it was uploaded for this analysis
+  imagePath?: string | null;
+}
+
 /**
- * Analyze a product image and extract nutritional information
- * @param imageUri URI of the product image to analyze
- * @returns Product information including name and nutritional details
+ * Add the display-ready fields to a validated analysis
  */
-export const analyzeProductImage = async (imageUri: string): Promise<{
-  productName: string;
-  description: string;
-  nutritionalInfo: {
-    calories: string;
-    fats: string;
-    carbs: string;
-    proteins: string;
-  } | null;
-}> => {
-  try {
-    // Verify API key is set
-    if (!process.env.EXPO_PUBLIC_OPENAI_API_KEY) {
-      console.error('OpenAI API key is not configured');
-      throw new Error('OpenAI API key is missing. Please check your configuration.');
-    }
+const toProductAnalysis = (analysis: ProductAnalysisResponse): ProductAnalysis => {
+  const nutritionalInfo = analysis.isFood ? fromAnalyzedNutrition(analysis.nutrition) : null;
+  // Analyses cached before the Nutri-Score do not have a category
+  const nutriScoreCategory = nutritionalInfo
+    ? analysis.nutrition?.nutriScoreCategory ?? inferNutriScoreCategory(nutritionalInfo, analysis.category)
+    : null;
 
-    // Create a cache key based on the image URI
-    const cacheKey = generateCacheKey('analyzeProductImage', imageUri);
+  return {
+    ...analysis,
+    // Analyses cached before allergens were extracted do not have these fields
+    ingredients: analysis.ingredients ?? null,
+    allergens: analysis.allergens ?? [],
+    mayContainAllergens: analysis.mayContainAllergens ?? [],
+    productName: [analysis.brand, analysis.name].filter(Boolean).join(' '),
+    nutritionalInfo,
+    nutriScore: nutriScoreCategory ? computeNutriScore(nutritionalInfo, nutriScoreCategory) : null,
+  };
+};
 
-    // Upload image to Firebase Storage and get its public URL
-    console.log('Uploading image to Firebase Storage...');
-    const imageUrl = await uploadImageToFirebase(imageUri);
-    
-    // Prepare messages for the vision API with enhanced prompt
-    const messages: ChatCompletionMessageParam[] = [
-      {
-        role: "system",
-        content: `You are an expert product identification assistant specializing in food products. 
-Your task is to analyze images of food products and provide detailed, accurate nutritional information.
+/**
+ * Product details from an earlier image analysis of the same barcode, if any
+ * @param gtin Scanned barcode
+ */
+export const getCachedProductByGtin = async (gtin: string): Promise<ProductAnalysis | null> => {
+  const normalized = extractGtin(gtin);
+  if (!normalized) return null;
+  const cached = await getCachedAnalysisByGtin(normalized);
+  return cached ? toProductAnalysis(cached) : null;
+};
 
-For each image:
-1. Identify the exact product name and brand (be specific)
-2. Provide a brief description of the product
-3. Focus on extracting detailed nutritional information, particularly:
-   - Calories (per serving)
-   - Fat content (total, saturated, and trans fats if visible)
-   - Carbohydrates (total, sugar, and fiber if visible)
-   - Protein content
-   - Serving size information
+/**
+ * Analyze a product image and extract structured product information
+ * @param imageUri URI of the product image to analyze
+ * @param options Cancellation signal and progress callback
+ * @returns Validated product analysis including name, identifiers and nutrition
+ * @throws RequestCancelledError when cancelled, RequestDeadlineError when it takes too long,
+ * or Error when the provider is not configured, the call fails or the response is invalid
+ */
+export const analyzeProductImage = async (
+  imageUri: string,
+  options: AnalyzeImageOptions = {}
+): Promise<ProductAnalysis> => {
+  const { signal, onProgress } = options;
+  const provider = getVisionProvider();
+  const startedAt = Date.now();
 
-Format your response with clear section headings:
-- Product Name: [Full product name with brand]
-- Description: [Brief description]
-- Nutritional Information:
-  - Calories: [value]
-  - Fats: [value]
-  - Carbohydrates: [value]
-  - Proteins: [value]
+  // Verify the provider has what it needs (API key...)
+  if (!provider.isConfigured()) {
+    console.error(`Vision provider "${provider.name}" is not configured`);
+    throw new Error(`The ${provider.name} vision provider is not configured. Please check your configuration.`);
+  }
 
-If exact nutritional information isn't visible, make your best estimate based on similar products, and indicate when you're making an estimate.
-BE PRECISE WITH NUMBERS - users will rely on this information for health tracking.`
-      },
-      {
-        role: "user",
-        content: [
-          {
-            type: "text", 
-            text: "What product is shown in this image? Please identify it and provide complete nutritional information focusing on calories, protein, carbs and fats."
-          },
-          {
-            type: "image_url",
-            image_url: {
-              url: imageUrl
-            }
-          }
-        ]
+  const throwIfCancelled = () => {
+    if (signal?.aborted) {
+      throw new RequestCancelledError();
+    }
+  };
+
+  try {
+    // The same photo analyzed by the same model gives the same result
+    onProgress?.({ stage: 'preparing' });
+    const namespace = `${provider.name}:${provider.model}`;
+    const imageHash = await hashImage(imageUri);
+    if (imageHash) {
+      const cached = await getCachedAnalysisByImage(namespace, imageHash);
+      if (cached) {
+        return toProductAnalysis(cached);
       }
-    ];
+    }
+    throwIfCancelled();
+
+    // Remote providers need a URL they can fetch the image from
+    let imageUrl = imageUri;
+    let imagePath: string | null = null;
+    if (provider.requiresImageUpload) {
+      console.log('Uploading image to Firebase Storage...');
+      onProgress?.({ stage: 'uploading' });
+      ({ url: imageUrl, path: imagePath } = await uploadImageToFirebase(imageUri));
+      throwIfCancelled();
+    }
 
-    // Call OpenAI API with caching and retry logic
-    console.log('Sending image to OpenAI for analysis...');
-    const response = await withRetry(
-      async () => {
-        // Use the latest gpt-4o model
-        return await openai.chat.completions.create({
-          model: DEFAULT_MODEL,
-          messages,
-          max_tokens: 800,
-          temperature: 0.1, // Lower temperature for more factual responses
+    // Call the provider with the retry policy; only validated analyses are cached
+    console.log(`Sending image to ${provider.name} (${provider.model}) for analysis...`);
+    const analysis = await runWithPolicy(
+      async attempt => {
+        const text = await provider.analyzeImage({
+          imageUrl,
+          imagePath,
+          systemPrompt: PRODUCT_ANALYSIS_SYSTEM_PROMPT,
+          prompt: PRODUCT_ANALYSIS_PROMPT,
+          schemaName: 'product_analysis',
+          schema: PRODUCT_ANALYSIS_SCHEMA,
+          signal: attempt.signal,
         });
+        console.log('Vision response received');
+
+        // Validate the structured response instead of guessing from prose
+        return parseProductAnalysis(text);
       },
-      cacheKey
-    );
-    
-    // Extract the response text
-    const responseText = response.choices[0]?.message?.content?.trim() || '';
-    console.log('OpenAI response received');
-    
-    // Parse the response to extract product information
-    let productName = extractFromResponse(responseText, 'product name', 'product', 'name', 'brand');
-    if (!productName) {
-      // Fallback extraction methods with more patterns
-      const namePatterns = [
-        /Product(?:\s?Name)?:\s*([^\n]+)/i,
-        /This is (?:a|an)\s+([^\n.,]+)/i,
-        /I can see (?:a|an)\s+([^\n.,]+)/i,
-        /The image shows (?:a|an)\s+([^\n.,]+)/i,
-        /This (?:is|appears to be) (?:a|an)\s+([^\n.,]+)/i,
-        /([A-Z][A-Za-z0-9 ]+ (?:cereal|chips|snacks|drink|beverage|food|product))/
-      ];
-      
-      for (const pattern of namePatterns) {
-        const match = responseText.match(pattern);
-        if (match && match[1]?.trim()) {
-          productName = match[1].trim();
-          break;
-        }
-      }
-      
-      if (!productName) {
-        // Last resort: take the first sentence of the response
-        const firstSentence = responseText.split(/[.!?]/)[0];
-        if (firstSentence && firstSentence.length > 10) {
-          productName = firstSentence.trim();
-        } else {
-          productName = 'Unknown Product';
-        }
+      {
+        signal,
+        // The upload already used part of the time budget
+        deadlineMs: Math.max(ANALYSIS_DEADLINE - (Date.now() - startedAt), 1000),
+        onProgress: progress => onProgress?.({
+          stage: progress.retryInMs !== undefined ? 'retrying' : 'analyzing',
+          ...progress,
+        }),
       }
-    }
-    
-    // Extract nutritional information with enhanced patterns
-    const calories = extractFromResponse(responseText, 'calories', 'caloric content', 'energy');
-    const fats = extractFromResponse(responseText, 'fats', 'fat', 'fat content', 'total fat');
-    const carbs = extractFromResponse(responseText, 'carbohydrates', 'carbs', 'carb', 'total carbohydrates');
-    const proteins = extractFromResponse(responseText, 'proteins', 'protein', 'protein content');
-    
-    // Extract or generate description
-    let description = extractFromResponse(
-      responseText, 
-      'description', 
-      'product description', 
-      'about this product',
-      'overview'
     );
-    
-    if (!description) {
-      // Look for paragraphs that might contain descriptions
-      const paragraphPatterns = [
-        /Description:[\s\n]+([\s\S]+?)(?=\n\n|\n[A-Z]|Nutritional Information:|$)/i,
-        /This product is ([\s\S]+?)(?=\n\n|\n[A-Z]|Nutritional Information:|$)/i,
-        /([\s\S]+?)(?=\nNutritional Information:|Nutrition Facts:|Calories:|$)/i
-      ];
-      
-      for (const pattern of paragraphPatterns) {
-        const match = responseText.match(pattern);
-        if (match && match[1]?.trim() && match[1].length > 20) {
-          description = match[1].trim();
-          break;
-        }
-      }
-      
-      // If still no description, use structured extraction
-      if (!description) {
-        // Split by double newlines to find paragraphs
-        const paragraphs = responseText.split(/\n\s*\n/);
-        for (const paragraph of paragraphs) {
-          // Skip paragraphs that are clearly nutritional information
-          if (!paragraph.toLowerCase().includes('calorie') && 
-              !paragraph.toLowerCase().includes('nutrition') && 
-              !paragraph.toLowerCase().includes('protein') &&
-              !paragraph.toLowerCase().includes('fat') &&
-              !paragraph.toLowerCase().includes('carb') &&
-              paragraph.length > 40) {
-            description = paragraph.trim();
-            break;
-          }
-        }
-      }
-      
-      // If still no description, use the whole response
-      if (!description) {
-        description = responseText;
-      }
+    throwIfCancelled();
+
+    // Mock results must not be served later for a real product
+    if (provider.name !== 'mock') {
+      await cacheAnalysis(analysis, {
+        namespace,
+        imageHash,
+        gtin: analysis.gtin ? extractGtin(analysis.gtin) : null,
+      });
     }
-    
-    // Create a properly formatted object with all the information
-    return {
-      productName,
-      description,
-      nutritionalInfo: {
-        calories: calories || 'Not available',
-        fats: fats || 'Not available',
-        carbs: carbs || 'Not available',
-        proteins: proteins || 'Not available'
-      }
-    };
+
+    return { ...toProductAnalysis(analysis), imagePath };
   } catch (error) {
     console.error('Error analyzing product image:', error);
-    // Return a user-friendly error with partial information if possible
-    return {
-      productName: 'Unknown Product',
-      description: 'Unable to analyze the product image at this time. Please try again later.',
-      nutritionalInfo: null
-    };
-  }
-};
-
-/**
- * Helper function to extract specific information from the API response
- * @param text The response text to parse
- * @param primaryKey The primary key to look for
- * @param alternateKeys Optional alternate keys to try
- * @returns The extracted value or null if not found
- */
-const extractFromResponse = (text: string, primaryKey: string, ...alternateKeys: string[]): string | null => {
-  const keys = [primaryKey, ...alternateKeys];
-  const lowerText = text.toLowerCase();
-  
-  for (const key of keys) {
-    // Try different formats: Key: Value, Key - Value, etc.
-    const patterns = [
-      new RegExp(`${key}\\s*:\\s*([^\\n]+)`, 'i'),
-      new RegExp(`${key}\\s*-\\s*([^\\n]+)`, 'i'),
-      new RegExp(`${key}\\s*=\\s*([^\\n]+)`, 'i'),
-      new RegExp(`${key}\\s*content\\s*:\\s*([^\\n]+)`, 'i'),
-      new RegExp(`${key}\\s*information\\s*:\\s*([^\\n]+)`, 'i'),
-      new RegExp(`\\*\\*${key}\\*\\*\\s*:\\s*([^\\n]+)`, 'i'),
-      new RegExp(`<${key}>([^<]+)</${key}>`, 'i'), // XML-like format
-      new RegExp(`^\\s*${key}\\s*:\\s*([^\\n]+)`, 'im'), // Line starting with key
-      new RegExp(`\\|\\s*${key}\\s*\\|\\s*([^\\|\\n]+)\\s*\\|`, 'i'), // Table format
-    ];
-    
-    for (const pattern of patterns) {
-      const match = text.match(pattern);
-      if (match && match[1].trim()) {
-        return match[1].trim();
-      }
-    }
-    
-    // Look for the key in a bullet point or numbered list
-    const bulletPatterns = [
-      new RegExp(`[•\\-\\*\\d+\\.]+\\s*${key}\\s*:?\\s*([^\\n]+)`, 'i'),
-      new RegExp(`[•\\-\\*]\\s*${key}\\s*:\\s*([^\\n]+)`, 'i'),
-      new RegExp(`\\d+\\.\\s*${key}\\s*:\\s*([^\\n]+)`, 'i')
-    ];
-    
-    for (const pattern of bulletPatterns) {
-      const match = text.match(pattern);
-      if (match && match[1].trim()) {
-        return match[1].trim();
-      }
-    }
-    
-    // Look for sentences that contain the key
-    if (lowerText.includes(key.toLowerCase())) {
-      const sentences = text.split(/\.(?:\s+|\n)/);
-      for (const sentence of sentences) {
-        if (sentence.toLowerCase().includes(key.toLowerCase())) {
-          // Extract numbers and units from the sentence
-          const numberWithUnitMatches = [
-            sentence.match(/(\d+(?:\.\d+)?\s*(?:g|mg|kcal|calories|cal)(?:\/serving)?)/i),
-            sentence.match(/(\d+(?:\.\d+)?\s*(?:grams|gram|milligrams|milligram))/i),
-            sentence.match(/(\d+(?:\.\d+)?\s*(?:%|percent))/i)
-          ];
-          
-          for (const match of numberWithUnitMatches) {
-            if (match && match[0]) {
-              return match[0].trim();
-            }
-          }
-          
-          // If no unit was found but the sentence is short and specific, return it
-          if (sentence.length < 100) {
-            return sentence.trim();
-          }
-        }
-      }
-    }
+    throw error;
   }
-  
-  return null;
 };
-
-// Export OpenAI instance as default and the utility functions
-export default openai; 
\ No newline at end of file
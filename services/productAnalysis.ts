@@ -0,0 +1,261 @@
+/**
+ * Structured product analysis returned by the vision model.
+ * Defines the JSON schema sent to the model and validates its response at runtime.
+ */
+
+// Nutrients of the EU nutrition declaration (Regulation (EU) No 1169/2011), in label order
+export const NUTRIENT_KEYS = [
+  'energyKj', 'energyKcal', 'fat', 'saturatedFat', 'carbohydrate', 'sugars', 'fibre', 'protein', 'salt',
+] as const;
+
+export type NutrientKey = typeof NUTRIENT_KEYS[number];
+
+// Nutrition values extracted from the packaging (null when unknown); energy in kJ/kcal, others in grams
+export type AnalyzedNutrition = Record<NutrientKey, number | null>;
+
+// Nutri-Score grid the product is rated with
+export const NUTRI_SCORE_CATEGORIES = ['food', 'cheese', 'beverage', 'fats', 'water'] as const;
+
+export type NutriScoreCategory = typeof NUTRI_SCORE_CATEGORIES[number];
+
+export interface AnalyzedNutritionFacts {
+  // Values per 100 g, or per 100 ml for liquids
+  per100: AnalyzedNutrition | null;
+  perServing: AnalyzedNutrition | null;
+  basis: 'g' | 'ml';
+  servingSize: string | null;
+  // Nutrients estimated rather than read from the label
+  estimatedNutrients: NutrientKey[];
+  nutriScoreCategory: NutriScoreCategory;
+}
+
+// The 14 allergens that must be declared in the EU (Regulation (EU) No 1169/2011, Annex II)
+export const EU_ALLERGENS = [
+  'gluten', 'crustaceans', 'eggs', 'fish', 'peanuts', 'soy', 'milk',
+  'nuts', 'celery', 'mustard', 'sesame', 'sulphites', 'lupin', 'molluscs',
+] as const;
+
+export type AllergenId = typeof EU_ALLERGENS[number];
+
+// DLC ("à consommer jusqu'au") or DDM ("à consommer de préférence avant")
+export type ExpiryDateType = 'use_by' | 'best_before';
+
+// Raw analysis as returned by the model
+export interface ProductAnalysisResponse {
+  name: string;
+  brand: string | null;
+  gtin: string | null;
+  lotNumber: string | null;
+  expiryDate: string | null; // YYYY-MM-DD
+  expiryDateType: ExpiryDateType | null;
+  category: string;
+  isFood: boolean;
+  description: string;
+  // Ingredient list as printed on the pack
+  ingredients: string | null;
+  // Allergens listed as ingredients, and those in "may contain" / traces statements
+  allergens: AllergenId[];
+  mayContainAllergens: AllergenId[];
+  nutrition: AnalyzedNutritionFacts | null;
+  confidence: number;
+}
+
+// Error thrown when the model response does not match the expected schema
+export class ProductAnalysisValidationError extends Error {
+  problems: string[];
+
+  constructor(problems: string[]) {
+    super(`Product analysis response is invalid: ${problems.join('; ')}`);
+    this.name = 'ProductAnalysisValidationError';
+    this.problems = problems;
+  }
+}
+
+// Instructions given to the vision model (shared with the analysis proxy)
+export const PRODUCT_ANALYSIS_SYSTEM_PROMPT = `You are an expert product identification assistant specializing in food products sold in France.
+Your task is to analyze a product image and fill in the requested JSON fields accurately.
+
+- Identify the exact product name and brand (be specific).
+- Only report a GTIN (barcode digits) or lot number if it is clearly legible in the image; never invent one.
+- Look for the lot/batch code and the use-by (DLC) or best-before (DDM) date printed on the pack, usually near each other.
+- Copy the ingredient list if it is legible, and report the EU regulated allergens it contains (usually in bold).
+- Report allergens from "may contain" or "traces" statements separately; never guess allergens that are not printed.
+- For food products, give the full nutrition declaration (energy in kJ and kcal, fat, saturates, carbohydrate, sugars, fibre, protein, salt) per 100 g/ml and per serving when printed on the label.
+- If a value is not visible, estimate it from similar products and list it in "estimatedNutrients".
+- Pick the Nutri-Score category: "beverage" for drinks, "fats" for fats, oils, nuts and seeds, "cheese" for cheeses, "water" for plain water, otherwise "food".
+- Use null for anything you cannot determine, and set "nutrition" to null for non-food products.
+- "confidence" reflects how sure you are about the product identification, from 0 to 1.
+BE PRECISE WITH NUMBERS - users will rely on this information for health tracking.`;
+
+export const PRODUCT_ANALYSIS_PROMPT = 'What product is shown in this image? Identify it and provide its nutritional information.';
+
+const nullableNumber = { type: ['number', 'null'] };
+const nullableString = { type: ['string', 'null'] };
+
+const nutritionSchema = {
+  type: ['object', 'null'],
+  additionalProperties: false,
+  required: [...NUTRIENT_KEYS],
+  properties: Object.fromEntries(NUTRIENT_KEYS.map(key => [key, nullableNumber])),
+};
+
+// JSON schema used for the model's structured output (strict mode)
+export const PRODUCT_ANALYSIS_SCHEMA = {
+  type: 'object',
+  additionalProperties: false,
+  required: [
+    'name', 'brand', 'gtin', 'lotNumber', 'expiryDate', 'expiryDateType',
+    'category', 'isFood', 'description', 'ingredients', 'allergens', 'mayContainAllergens',
+    'nutrition', 'confidence',
+  ],
+  properties: {
+    name: { type: 'string', description: 'Product name without the brand' },
+    brand: { ...nullableString, description: 'Brand name, null if not visible' },
+    gtin: { ...nullableString, description: 'Barcode digits (EAN/UPC) if clearly visible, otherwise null' },
+    lotNumber: { ...nullableString, description: 'Lot or batch code printed on the pack (e.g. "L23145B"), otherwise null' },
+    expiryDate: { ...nullableString, description: 'Use-by (DLC) or best-before (DDM) date printed on the pack, as YYYY-MM-DD, otherwise null' },
+    expiryDateType: {
+      type: ['string', 'null'],
+      enum: ['use_by', 'best_before', null],
+      description: '"use_by" for a DLC (à consommer jusqu\'au), "best_before" for a DDM (à consommer de préférence avant)',
+    },
+    category: { type: 'string', description: 'Short product category, e.g. "dairy", "beverage", "cosmetics"' },
+    isFood: { type: 'boolean' },
+    description: { type: 'string', description: 'One or two sentence description of the product' },
+    ingredients: { ...nullableString, description: 'Ingredient list as printed on the pack, null if not visible' },
+    allergens: {
+      type: 'array',
+      items: { type: 'string', enum: [...EU_ALLERGENS] },
+      description: 'EU regulated allergens contained in the product according to the ingredient list',
+    },
+    mayContainAllergens: {
+      type: 'array',
+      items: { type: 'string', enum: [...EU_ALLERGENS] },
+      description: 'Allergens from "may contain" or "traces" statements',
+    },
+    nutrition: {
+      type: ['object', 'null'],
+      additionalProperties: false,
+      required: ['per100', 'perServing', 'basis', 'servingSize', 'estimatedNutrients', 'nutriScoreCategory'],
+      properties: {
+        per100: { ...nutritionSchema, description: 'Values per 100 g, or per 100 ml for liquids' },
+        perServing: nutritionSchema,
+        basis: { type: 'string', enum: ['g', 'ml'], description: '"ml" when values are per 100 ml (drinks), otherwise "g"' },
+        servingSize: { ...nullableString, description: 'Serving size as printed, e.g. "30 g"' },
+        estimatedNutrients: {
+          type: 'array',
+          items: { type: 'string', enum: [...NUTRIENT_KEYS] },
+          description: 'Nutrients whose values are estimated rather than read from the label',
+        },
+        nutriScoreCategory: {
+          type: 'string',
+          enum: [...NUTRI_SCORE_CATEGORIES],
+          description: '"beverage" for drinks (including milk), "fats" for fats, oils, nuts and seeds, "cheese" for cheeses, "water" for plain water, otherwise "food"',
+        },
+      },
+    },
+    confidence: { type: 'number', description: 'Confidence in the identification, from 0 to 1' },
+  },
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const checkNullableString = (value: unknown, path: string, problems: string[]) => {
+  if (value !== null && typeof value !== 'string') {
+    problems.push(`${path} must be a string or null`);
+  }
+};
+
+const checkAllergens = (value: unknown, path: string, problems: string[]) => {
+  if (!Array.isArray(value) || value.some(item => !(EU_ALLERGENS as readonly unknown[]).includes(item))) {
+    problems.push(`${path} must be an array of EU allergens`);
+  }
+};
+
+const checkNutrition = (value: unknown, path: string, problems: string[]) => {
+  if (value === null) return;
+  if (!isObject(value)) {
+    problems.push(`${path} must be an object or null`);
+    return;
+  }
+  NUTRIENT_KEYS.forEach(key => {
+    const field = value[key];
+    if (field !== null && (typeof field !== 'number' || !Number.isFinite(field) || field < 0)) {
+      problems.push(`${path}.${key} must be a non-negative number or null`);
+    }
+  });
+};
+
+/**
+ * Parse and validate the raw JSON text returned by the model
+ * @throws ProductAnalysisValidationError when the response does not match the schema
+ */
+export const parseProductAnalysis = (text: string): ProductAnalysisResponse => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new ProductAnalysisValidationError(['response is not valid JSON']);
+  }
+
+  if (!isObject(data)) {
+    throw new ProductAnalysisValidationError(['response must be a JSON object']);
+  }
+
+  const problems: string[] = [];
+
+  if (typeof data.name !== 'string' || !data.name.trim()) {
+    problems.push('name must be a non-empty string');
+  }
+  checkNullableString(data.brand, 'brand', problems);
+  checkNullableString(data.gtin, 'gtin', problems);
+  checkNullableString(data.lotNumber, 'lotNumber', problems);
+  if (data.expiryDate !== null && (typeof data.expiryDate !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(data.expiryDate))) {
+    problems.push('expiryDate must be a YYYY-MM-DD string or null');
+  }
+  if (data.expiryDateType !== null && data.expiryDateType !== 'use_by' && data.expiryDateType !== 'best_before') {
+    problems.push('expiryDateType must be "use_by", "best_before" or null');
+  }
+  if (typeof data.category !== 'string') {
+    problems.push('category must be a string');
+  }
+  if (typeof data.isFood !== 'boolean') {
+    problems.push('isFood must be a boolean');
+  }
+  if (typeof data.description !== 'string') {
+    problems.push('description must be a string');
+  }
+  checkNullableString(data.ingredients, 'ingredients', problems);
+  checkAllergens(data.allergens, 'allergens', problems);
+  checkAllergens(data.mayContainAllergens, 'mayContainAllergens', problems);
+  if (typeof data.confidence !== 'number' || data.confidence < 0 || data.confidence > 1) {
+    problems.push('confidence must be a number between 0 and 1');
+  }
+
+  if (data.nutrition !== null) {
+    if (!isObject(data.nutrition)) {
+      problems.push('nutrition must be an object or null');
+    } else {
+      checkNutrition(data.nutrition.per100, 'nutrition.per100', problems);
+      checkNutrition(data.nutrition.perServing, 'nutrition.perServing', problems);
+      if (data.nutrition.basis !== 'g' && data.nutrition.basis !== 'ml') {
+        problems.push('nutrition.basis must be "g" or "ml"');
+      }
+      checkNullableString(data.nutrition.servingSize, 'nutrition.servingSize', problems);
+      const estimated = data.nutrition.estimatedNutrients;
+      if (!Array.isArray(estimated) || estimated.some(key => !(NUTRIENT_KEYS as readonly unknown[]).includes(key))) {
+        problems.push('nutrition.estimatedNutrients must be an array of nutrient names');
+      }
+      if (!(NUTRI_SCORE_CATEGORIES as readonly unknown[]).includes(data.nutrition.nutriScoreCategory)) {
+        problems.push(`nutrition.nutriScoreCategory must be one of ${NUTRI_SCORE_CATEGORIES.join(', ')}`);
+      }
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new ProductAnalysisValidationError(problems);
+  }
+
+  return data as unknown as ProductAnalysisResponse;
+};
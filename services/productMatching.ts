@@ -0,0 +1,316 @@
+import type { RecallRecord } from './rappelConso';
+
+/**
+ * Fuzzy matching between what we know about a scanned product (vision output,
+ * barcode, lot) and recall records. Strings are normalized (accents, casing,
+ * English/French synonyms, packaging sizes) before being compared.
+ */
+
+// What we know about the product being checked
+export interface ProductMatchQuery {
+  name: string;
+  brand?: string | null;
+  gtin?: string | null;
+  lotNumber?: string | null;
+  expiryDate?: string | null; // YYYY-MM-DD
+}
+
+// Whether the user's own pack falls within the recall's affected lots/dates
+export type LotStatus = 'affected' | 'not_listed' | 'unknown';
+
+export interface LotCheck {
+  status: LotStatus;
+  affectedLots: string[];
+  affectedDates: string[];
+}
+
+// 'confirmed' means the recall certainly applies (same GTIN, or same lot with a strong
+// name/brand match), 'possible' that it may apply
+export type MatchLevel = 'confirmed' | 'possible';
+
+export interface MatchCandidate {
+  record: RecallRecord;
+  score: number; // 0 to 1
+  level: MatchLevel;
+  matchedOn: ('gtin' | 'brand' | 'name' | 'lot')[];
+}
+
+// Score thresholds for each match level
+const CONFIRMED_THRESHOLD = 0.85;
+const POSSIBLE_THRESHOLD = 0.5;
+
+// Score weights (GTIN matches short-circuit to a confirmed match)
+const BRAND_WEIGHT = 0.35;
+const NAME_WEIGHT = 0.55;
+const LOT_WEIGHT = 0.1;
+
+// English words mapped to the French wording used in RappelConso records
+const SYNONYMS: Record<string, string> = {
+  apple: 'pomme',
+  apples: 'pomme',
+  pommes: 'pomme',
+  orange: 'orange',
+  juice: 'jus',
+  organic: 'bio',
+  biologique: 'bio',
+  milk: 'lait',
+  cheese: 'fromage',
+  cheeses: 'fromage',
+  fromages: 'fromage',
+  chocolate: 'chocolat',
+  chocolates: 'chocolat',
+  chocolats: 'chocolat',
+  butter: 'beurre',
+  cream: 'creme',
+  yogurt: 'yaourt',
+  yoghurt: 'yaourt',
+  yaourts: 'yaourt',
+  chicken: 'poulet',
+  beef: 'boeuf',
+  pork: 'porc',
+  ham: 'jambon',
+  sausage: 'saucisse',
+  sausages: 'saucisse',
+  saucisses: 'saucisse',
+  fish: 'poisson',
+  salmon: 'saumon',
+  tuna: 'thon',
+  bread: 'pain',
+  cookie: 'biscuit',
+  cookies: 'biscuit',
+  biscuits: 'biscuit',
+  flour: 'farine',
+  sugar: 'sucre',
+  salt: 'sel',
+  egg: 'oeuf',
+  eggs: 'oeuf',
+  oeufs: 'oeuf',
+  strawberry: 'fraise',
+  strawberries: 'fraise',
+  fraises: 'fraise',
+  vegetables: 'legume',
+  legumes: 'legume',
+  salad: 'salade',
+  pasta: 'pate',
+  pates: 'pate',
+  rice: 'riz',
+  water: 'eau',
+  honey: 'miel',
+  baby: 'bebe',
+  infant: 'bebe',
+  frozen: 'surgele',
+  surgeles: 'surgele',
+};
+
+// Words that carry no meaning for matching
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'by', 'for', 'from', 'of', 'the', 'with',
+  'au', 'aux', 'avec', 'd', 'de', 'des', 'du', 'en', 'et', 'l', 'la', 'le', 'les', 'par', 'pour', 'sans', 'un', 'une',
+]);
+
+// Packaging sizes and multipacks, e.g. "1L", "500 g", "33 cl", "x6", "6x125g"
+const PACKAGING_PATTERN = /\b\d+(?:[.,]\d+)?\s*(?:x\s*\d+(?:[.,]\d+)?\s*)?(?:kg|g|gr|mg|l|cl|ml|oz|lb|pcs|pieces|unites)\b|\bx\s*\d+\b|\b\d+\s*x\b/g;
+
+/**
+ * Lowercase, strip accents, packaging sizes and punctuation
+ */
+export const normalizeText = (value: string): string => {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/œ/g, 'oe')
+    .replace(PACKAGING_PATTERN, ' ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+};
+
+/**
+ * Normalize a string into its meaningful, synonym-mapped tokens
+ */
+export const tokenize = (value: string): string[] => {
+  const tokens = normalizeText(value)
+    .split(' ')
+    .filter(token => token && !STOP_WORDS.has(token))
+    .map(token => SYNONYMS[token] || token);
+  return Array.from(new Set(tokens));
+};
+
+/**
+ * Character trigrams of a string, used to tolerate typos and OCR mistakes
+ */
+const trigrams = (value: string): Set<string> => {
+  const padded = `  ${value} `;
+  const grams = new Set<string>();
+  for (let i = 0; i < padded.length - 2; i++) {
+    grams.add(padded.slice(i, i + 3));
+  }
+  return grams;
+};
+
+/**
+ * Dice coefficient between two sets
+ */
+const dice = <T>(a: Set<T>, b: Set<T>): number => {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach(item => {
+    if (b.has(item)) shared++;
+  });
+  return (2 * shared) / (a.size + b.size);
+};
+
+/**
+ * Similarity between two product strings, from 0 to 1
+ */
+export const textSimilarity = (a: string, b: string): number => {
+  const tokensA = tokenize(a);
+  const tokensB = tokenize(b);
+  if (tokensA.length === 0 || tokensB.length === 0) return 0;
+
+  // Token overlap, measured against the shorter string so "Jus de pomme bio" fully
+  // matches "Apple Juice Organic 1L by X"
+  const setA = new Set(tokensA);
+  const setB = new Set(tokensB);
+  let shared = 0;
+  setA.forEach(token => {
+    if (setB.has(token)) shared++;
+  });
+  const overlap = shared / Math.min(setA.size, setB.size);
+
+  const fuzzy = dice(trigrams(tokensA.sort().join(' ')), trigrams(tokensB.sort().join(' ')));
+
+  return Math.max(overlap * 0.8 + fuzzy * 0.2, fuzzy);
+};
+
+/**
+ * Normalize a lot code for comparison ("LOT: 12-345 B" -> "12345B")
+ */
+export const normalizeLot = (lot: string): string => {
+  return lot
+    .toUpperCase()
+    .replace(/^(LOT|BATCH)\b\s*[:#N°.]*\s*/, '')
+    .replace(/[^A-Z0-9]/g, '');
+};
+
+/**
+ * Extract ISO dates (YYYY-MM-DD) from free text such as "DLC$24/05/2024" or
+ * "Date de durabilité minimale entre le 2024-01-01 et le 2024-03-31"
+ */
+export const extractDates = (text: string): string[] => {
+  const dates: string[] = [];
+  const pattern = /(\d{4})-(\d{2})-(\d{2})|(\d{2})\/(\d{2})\/(\d{4})/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    dates.push(match[1] ? `${match[1]}-${match[2]}-${match[3]}` : `${match[6]}-${match[5]}-${match[4]}`);
+  }
+  return dates;
+};
+
+/**
+ * Compare the lot and expiry date printed on the user's pack with the lots and
+ * dates listed in the recall. Identifiers are narrowed to the scanned GTIN when known.
+ */
+export const checkLot = (query: ProductMatchQuery, record: RecallRecord): LotCheck => {
+  const gtin = query.gtin ? query.gtin.replace(/\D/g, '') : '';
+  const sameGtin = record.identifiers.filter(identifier => identifier.gtin === gtin);
+  const identifiers = sameGtin.length > 0 ? sameGtin : record.identifiers;
+
+  const affectedLots = Array.from(new Set(identifiers.flatMap(identifier => identifier.lots)));
+  const affectedDates = Array.from(new Set(identifiers.flatMap(identifier => extractDates(identifier.dateInfo))));
+
+  let status: LotStatus = 'unknown';
+  if (query.lotNumber && affectedLots.length > 0) {
+    const lot = normalizeLot(query.lotNumber);
+    status = affectedLots.some(affected => normalizeLot(affected) === lot) ? 'affected' : 'not_listed';
+  } else if (query.expiryDate && identifiers.length > 0) {
+    // Each identifier lists either exact dates or a "between X and Y" range
+    const isAffected = identifiers.some(identifier => {
+      const dates = extractDates(identifier.dateInfo);
+      if (dates.length === 2 && /entre|between|du .* au/i.test(identifier.dateInfo)) {
+        return query.expiryDate! >= dates[0] && query.expiryDate! <= dates[1];
+      }
+      return dates.includes(query.expiryDate!);
+    });
+    if (isAffected) {
+      status = 'affected';
+    } else if (affectedDates.length > 0) {
+      status = 'not_listed';
+    }
+  }
+
+  return { status, affectedLots, affectedDates };
+};
+
+/**
+ * Score a single recall record against the product query
+ */
+export const scoreRecallMatch = (query: ProductMatchQuery, record: RecallRecord): MatchCandidate => {
+  const matchedOn: MatchCandidate['matchedOn'] = [];
+  const gtin = query.gtin ? query.gtin.replace(/\D/g, '') : '';
+
+  if (gtin && record.identifiers.some(identifier => identifier.gtin === gtin)) {
+    return { record, score: 1, level: 'confirmed', matchedOn: ['gtin'] };
+  }
+
+  // Brand may be part of the name when the vision model could not separate them
+  const brandSimilarity = record.brand
+    ? query.brand
+      ? textSimilarity(query.brand, record.brand)
+      : tokenize(record.brand).every(token => tokenize(query.name).includes(token)) ? 1 : 0
+    : 0;
+  if (brandSimilarity >= 0.8) matchedOn.push('brand');
+
+  const nameSimilarity = textSimilarity(query.name, record.productName);
+  if (nameSimilarity >= 0.6) matchedOn.push('name');
+
+  const lotMatches = !!query.lotNumber && record.identifiers.some(identifier =>
+    identifier.lots.some(lot => normalizeLot(lot) === normalizeLot(query.lotNumber!))
+  );
+  if (lotMatches) matchedOn.push('lot');
+
+  // Without a brand on the record, the name carries the brand weight too
+  const score = record.brand
+    ? brandSimilarity * BRAND_WEIGHT + nameSimilarity * NAME_WEIGHT + (lotMatches ? LOT_WEIGHT : 0)
+    : nameSimilarity * (BRAND_WEIGHT + NAME_WEIGHT) + (lotMatches ? LOT_WEIGHT : 0);
+
+  const rounded = Math.round(Math.min(score, 1) * 100) / 100;
+  return {
+    record,
+    score: rounded,
+    // Name and brand similarity alone are never enough to confirm a recall
+    level: lotMatches && rounded >= CONFIRMED_THRESHOLD ? 'confirmed' : 'possible',
+    matchedOn,
+  };
+};
+
+/**
+ * Rank recall records against the product query, best first.
+ * Records below the "possible match" threshold are dropped.
+ */
+export const matchRecallRecords = (query: ProductMatchQuery, records: RecallRecord[]): MatchCandidate[] => {
+  const seen = new Set<string>();
+  return records
+    .filter(record => {
+      if (seen.has(record.id)) return false;
+      seen.add(record.id);
+      return true;
+    })
+    .map(record => scoreRecallMatch(query, record))
+    .filter(candidate => candidate.score >= POSSIBLE_THRESHOLD)
+    .sort((a, b) => b.score - a.score || b.record.publicationDate.localeCompare(a.record.publicationDate));
+};
+
+/**
+ * Build the text queries used to fetch candidate records from a recall source
+ */
+export const buildCandidateQueries = (query: ProductMatchQuery): string[] => {
+  const nameTokens = tokenize(query.name);
+  // Sources require every term to match, so also try the two leading terms alone
+  const queries = [
+    nameTokens.join(' '),
+    nameTokens.slice(0, 2).join(' '),
+    query.brand ? normalizeText(query.brand) : '',
+  ];
+  return Array.from(new Set(queries.filter(Boolean)));
+};
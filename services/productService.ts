@@ -1,6 +1,60 @@
 import { db } from './firebaseConfig';
-import { collection, addDoc, query, where, getDocs, Timestamp } from 'firebase/firestore';
+import {
+  collection,
+  doc,
+  setDoc,
+  updateDoc,
+  deleteDoc,
+  query,
+  where,
+  orderBy,
+  limit,
+  startAfter,
+  getDocs,
+  onSnapshot,
+  writeBatch,
+  Timestamp,
+  type DocumentData,
+  type QueryDocumentSnapshot,
+  type Unsubscribe,
+} from 'firebase/firestore';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getRecallSource, type RecallRecord, type RecallSource } from './rappelConso';
+import { hasFreshLocalRecallData, hasLocalRecallData, localRecallSource } from './recallStore';
+import {
+  buildCandidateQueries,
+  matchRecallRecords,
+  scoreRecallMatch,
+  checkLot,
+  normalizeText,
+  type LotStatus,
+  type MatchCandidate,
+  type MatchLevel,
+  type ProductMatchQuery,
+} from './productMatching';
+import { RequestCancelledError } from './requestPolicy';
+import type { AllergenId } from './productAnalysis';
+import { isLegacyNutritionalInfo, migrateNutritionalInfo, type NutritionalInfo } from './nutrition';
+import { computeNutriScore, inferNutriScoreCategory, type NutriScoreResult } from './nutriScore';
+import {
+  generateScanId,
+  getLocalScans,
+  getPendingScanChanges,
+  isRetryableFirestoreError,
+  applyScanUpdate,
+  toFirestoreUpdate,
+  queueScanCreate,
+  queueScanUpdate,
+  queueScanDelete,
+  updateLocalScan,
+  deleteLocalScan,
+  syncScanHistory,
+  rewriteLocalScans,
+  type ScanUpdate,
+} from './scanSync';
+
+export type { ScanUpdate } from './scanSync';
+export type { NutritionalInfo } from './nutrition';
 
 // Define types
 export interface RecallInfo {
@@ -10,121 +64,264 @@ export interface RecallInfo {
   lotNumber: string;
   recallDate: string;
   recallReason: string;
-}
-
-export interface NutritionalInfo {
-  calories: string;
-  fats: string;
-  carbs: string;
-  proteins: string;
+  recallId?: string;
+  gtin?: string;
+  risk?: string;
+  consumerAction?: string;
+  recallUrl?: string;
+  category?: string;
+  // How sure we are that the recall applies to this product
+  matchLevel?: MatchLevel;
+  matchConfidence?: number;
+  // Lot and expiry date read on the user's pack, compared with the recall's affected lots
+  scannedLotNumber?: string;
+  scannedExpiryDate?: string;
+  lotStatus?: LotStatus;
 }
 
 export interface ProductDetails {
+  // Firestore document id, or the local id for scans kept in local storage
+  id?: string;
   recallInfo: RecallInfo;
   nutritionalInfo?: NutritionalInfo;
+  nutriScore?: NutriScoreResult;
   description?: string;
+  // Photo on this device, or product image URL
   imageUri?: string;
+  // Firebase Storage path of the photo uploaded for analysis, readable by its owner only
+  imagePath?: string;
+  // Whether the product is a food, when known (from the image analysis)
+  isFood?: boolean;
+  // Ingredient list and EU allergens read on the pack
+  ingredients?: string;
+  allergens?: AllergenId[];
+  mayContainAllergens?: AllergenId[];
   scanDate: Date;
+  // Saved on this device and waiting to be uploaded to Firestore
+  pendingSync?: boolean;
 }
 
-// Mock function to verify if a product is recalled
-// In a real app, this would call an API to check against official recall databases
-export const verifyProductRecall = async (productIdentifier: string): Promise<RecallInfo> => {
+// Identifiers made only of 8 to 14 digits are treated as barcodes (GTIN)
+const GTIN_PATTERN = /^\d{8,14}$/;
+
+/**
+ * Convert a recall record from the recall source into the RecallInfo shape used by the UI
+ */
+export const recallRecordToRecallInfo = (
+  record: RecallRecord,
+  gtin?: string,
+  match?: Pick<MatchCandidate, 'level' | 'score'>,
+  pack?: Pick<ProductMatchQuery, 'lotNumber' | 'expiryDate'>
+): RecallInfo => {
+  const identifier = record.identifiers.find(item => item.gtin === gtin) || record.identifiers[0];
+  const lotCheck = checkLot({ name: '', gtin, ...pack }, record);
+
+  return {
+    isRecalled: true,
+    productName: record.productName,
+    manufacturer: record.brand,
+    lotNumber: lotCheck.affectedLots.join(', '),
+    recallDate: record.publicationDate,
+    recallReason: record.reason,
+    recallId: record.id,
+    gtin: identifier?.gtin || undefined,
+    risk: record.risk || undefined,
+    consumerAction: record.consumerAction || undefined,
+    recallUrl: record.recallUrl || undefined,
+    category: record.category || undefined,
+    matchLevel: match?.level,
+    matchConfidence: match?.score,
+    scannedLotNumber: pack?.lotNumber || undefined,
+    scannedExpiryDate: pack?.expiryDate || undefined,
+    lotStatus: lotCheck.status,
+  };
+};
+
+/**
+ * Answer from the remote source, and from the stale local store only when the remote
+ * source cannot be reached: outdated recalls are better than none when offline
+ */
+const withLocalFallback = (remote: RecallSource): RecallSource => {
+  const fallback = <T>(error: unknown, lookup: () => Promise<T>): Promise<T> => {
+    if (error instanceof RequestCancelledError) throw error;
+    console.warn('⚠️ RappelConso unreachable, using the out of date local recall store:', error);
+    return lookup();
+  };
+
+  return {
+    findByGtin: (gtin, options) => remote.findByGtin(gtin, options)
+      .catch(error => fallback(error, () => localRecallSource.findByGtin(gtin, options))),
+    search: (text, options) => remote.search(text, options)
+      .catch(error => fallback(error, () => localRecallSource.search(text, options))),
+  };
+};
+
+/**
+ * Pick the recall source for a lookup: the local store when it has been synced recently,
+ * so scans work offline, otherwise the remote RappelConso source
+ */
+const getLookupSource = async (): Promise<RecallSource> => {
   try {
-    // This is a mock implementation
-    // In reality, you would make an API call to an official recall database
-    // or use web scraping to check if the product is recalled
-    
-    // For demo purposes, let's pretend some products are recalled
-    const mockRecalledProducts = [
-      'TestProduct123',
-      '5901234123457',
-      'Apple Juice Organic',
-    ];
-    
-    const isRecalled = mockRecalledProducts.some(
-      product => productIdentifier.toLowerCase().includes(product.toLowerCase())
-    );
-    
-    if (isRecalled) {
-      return {
-        isRecalled: true,
-        productName: productIdentifier,
-        manufacturer: 'Sample Manufacturer',
-        lotNumber: 'LOT-2023-1234',
-        recallDate: new Date().toISOString().split('T')[0], // Today's date
-        recallReason: 'Potential contamination with foreign materials',
-      };
+    if (await hasFreshLocalRecallData()) {
+      return localRecallSource;
     }
-    
+    if (await hasLocalRecallData()) {
+      return withLocalFallback(getRecallSource());
+    }
+  } catch (error) {
+    console.error('Error checking local recall store:', error);
+  }
+  return getRecallSource();
+};
+
+// Verify if a product is recalled against the official RappelConso data.
+// Accepts a barcode or product name, or everything known about the product.
+export const verifyProductRecall = async (
+  product: string | ProductMatchQuery,
+  options: { signal?: AbortSignal } = {}
+): Promise<RecallInfo> => {
+  const { signal } = options;
+  const query: ProductMatchQuery = typeof product === 'string'
+    ? GTIN_PATTERN.test(product.trim()) ? { name: '', gtin: product.trim() } : { name: product.trim() }
+    : product;
+
+  try {
+    const source = await getLookupSource();
+
+    // A GTIN match is authoritative
+    if (query.gtin) {
+      const records = await source.findByGtin(query.gtin, { limit: 5, signal });
+      if (records.length > 0) {
+        const [best] = matchRecallRecords(query, records);
+        return recallRecordToRecallInfo(best?.record || records[0], query.gtin, { level: 'confirmed', score: 1 }, query);
+      }
+    }
+
+    // Otherwise fetch candidates by name/brand and rank them
+    if (query.name) {
+      const candidateLists = await Promise.all(
+        buildCandidateQueries(query).map(text => source.search(text, { limit: 20, signal }))
+      );
+      const [best] = matchRecallRecords(query, candidateLists.flat());
+      if (best) {
+        return recallRecordToRecallInfo(best.record, query.gtin || undefined, best, query);
+      }
+    }
+
     return {
       isRecalled: false,
-      productName: productIdentifier,
+      productName: query.name || query.gtin || '',
       manufacturer: '',
       lotNumber: '',
       recallDate: '',
       recallReason: '',
+      scannedLotNumber: query.lotNumber || undefined,
+      scannedExpiryDate: query.expiryDate || undefined,
     };
   } catch (error) {
+    if (error instanceof RequestCancelledError) {
+      throw error;
+    }
     console.error('Error verifying product recall:', error);
     throw new Error('Failed to verify if the product is recalled');
   }
 };
 
-// Function to save scan history to Firestore
+// Search recalls by product name, brand or barcode, best matches first
+export const searchRecalls = async (searchText: string, limit = 20): Promise<RecallInfo[]> => {
+  try {
+    const trimmed = searchText.trim();
+    if (!trimmed) return [];
+
+    const source = await getLookupSource();
+
+    if (GTIN_PATTERN.test(trimmed)) {
+      const records = await source.findByGtin(trimmed, { limit });
+      return records.map(record => recallRecordToRecallInfo(record, trimmed));
+    }
+
+    const records = await source.search(trimmed, { limit: limit * 2 });
+    return records
+      .map(record => scoreRecallMatch({ name: trimmed }, record))
+      .sort((a, b) => b.score - a.score || b.record.publicationDate.localeCompare(a.record.publicationDate))
+      .slice(0, limit)
+      .map(candidate => recallRecordToRecallInfo(candidate.record, undefined, candidate));
+  } catch (error) {
+    console.error('Error searching recalls:', error);
+    throw new Error('Failed to search recalls');
+  }
+};
+
+// Firestore rejects undefined field values, so drop optional fields that are not set
+const removeUndefinedFields = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+/**
+ * Save a scan to Firestore, or queue it in local storage when Firestore is unreachable.
+ * Passing the id of a saved scan (`productDetails.id`) replaces that scan, e.g. to complete
+ * an unknown barcode with what a photo of the product told us.
+ * @returns Id of the saved scan, null when it could not be saved
+ */
 export const saveScanHistory = async (
   userId: string,
   productDetails: ProductDetails
-): Promise<void> => {
+): Promise<string | null> => {
   try {
     // Check if user ID exists
     if (!userId) {
       console.log('No user ID provided, skipping scan history save');
-      return;
+      return null;
     }
     
+    // Client-generated id, so a scan uploaded later by the outbox is never duplicated
+    const scanId = productDetails.id || generateScanId();
+
     // Create a Firestore-friendly object (no circular references)
     const firestoreData = {
       userId,
-      recallInfo: productDetails.recallInfo,
+      recallInfo: removeUndefinedFields(productDetails.recallInfo),
       nutritionalInfo: productDetails.nutritionalInfo || null,
+      nutriScore: productDetails.nutriScore || null,
       description: productDetails.description || '',
       imageUri: productDetails.imageUri || '',
+      imagePath: productDetails.imagePath || null,
+      isFood: productDetails.isFood ?? null,
+      ingredients: productDetails.ingredients || null,
+      allergens: productDetails.allergens || [],
+      mayContainAllergens: productDetails.mayContainAllergens || [],
       scanDate: Timestamp.fromDate(productDetails.scanDate),
       createdAt: Timestamp.now(), // Add timestamp for when this was created
     };
     
     // Try to save to Firestore
     try {
-      await addDoc(collection(db, 'scanHistory'), firestoreData);
+      await setDoc(doc(db, 'scanHistory', scanId), firestoreData);
       console.log('✅ Scan history saved successfully to Firestore');
+
+      // A replaced scan may still wait in the outbox: its older version must not be uploaded over this one
+      if (productDetails.id) {
+        await deleteLocalScan(userId, scanId);
+      }
+
+      // Firestore is reachable again: upload anything saved while it was not
+      syncScanHistory(userId);
     } catch (firestoreError: unknown) {
       // If there's a permissions error, log it but don't throw
       console.error('Firebase error saving scan history:', firestoreError);
       
-      // Save to AsyncStorage as a fallback
-      console.log('⚠️ Could not save to Firestore, saving to local storage instead');
+      // Keep the scan locally and upload it once Firestore is reachable
+      console.log('⚠️ Could not save to Firestore, queueing the scan in local storage instead');
       
       try {
-        // Get existing history from AsyncStorage
-        const localHistoryStr = await AsyncStorage.getItem(`scanHistory_${userId}`);
-        const localHistory = localHistoryStr ? JSON.parse(localHistoryStr) : [];
-        
-        // Add new scan to history
-        const localScanData = {
+        await queueScanCreate(userId, {
           ...firestoreData,
-          id: `local_${Date.now()}`,
+          id: scanId,
           scanDate: productDetails.scanDate.toISOString(),
           createdAt: new Date().toISOString(),
-        };
-        
-        localHistory.push(localScanData);
-        
-        // Save updated history back to AsyncStorage
-        await AsyncStorage.setItem(`scanHistory_${userId}`, JSON.stringify(localHistory));
+        });
         console.log('✅ Scan history saved successfully to local storage');
       } catch (asyncStorageError) {
         console.error('Error saving to AsyncStorage:', asyncStorageError);
+        return null;
       }
       
       // Try to determine if it's a permissions error
@@ -134,66 +331,409 @@ export const saveScanHistory = async (
       }
       
       // Don't throw the error to prevent blocking the app flow
-      return;
+      return scanId;
     }
+
+    return scanId;
   } catch (error) {
     console.error('Error in saveScanHistory function:', error);
     // Don't throw to avoid breaking the app flow
-    return;
+    return null;
+  }
+};
+
+/**
+ * Correct the product name, manufacturer or description of a saved scan.
+ * When Firestore is unreachable, the correction is queued and sent later.
+ */
+export const updateScan = async (userId: string, scanId: string, changes: ScanUpdate): Promise<void> => {
+  try {
+    if (await updateLocalScan(userId, scanId, changes)) {
+      console.log('✅ Scan updated in local storage');
+      return;
+    }
+  } catch (error) {
+    console.error('Error updating scan:', error);
+    throw new Error('Failed to update the scan');
+  }
+
+  try {
+    await updateDoc(doc(db, 'scanHistory', scanId), toFirestoreUpdate(changes));
+    console.log('✅ Scan updated in Firestore');
+  } catch (error) {
+    console.error('Error updating scan:', error);
+    if (!isRetryableFirestoreError(error)) {
+      throw new Error('Failed to update the scan');
+    }
+    await queueScanUpdate(userId, scanId, changes);
+  }
+};
+
+/**
+ * Delete a saved scan.
+ * When Firestore is unreachable, the deletion is queued and sent later.
+ */
+export const deleteScan = async (userId: string, scanId: string): Promise<void> => {
+  try {
+    if (await deleteLocalScan(userId, scanId)) {
+      console.log('✅ Scan deleted from local storage');
+      return;
+    }
+  } catch (error) {
+    console.error('Error deleting scan:', error);
+    throw new Error('Failed to delete the scan');
   }
+
+  try {
+    await deleteDoc(doc(db, 'scanHistory', scanId));
+    console.log('✅ Scan deleted from Firestore');
+  } catch (error) {
+    console.error('Error deleting scan:', error);
+    if (!isRetryableFirestoreError(error)) {
+      throw new Error('Failed to delete the scan');
+    }
+    await queueScanDelete(userId, scanId);
+  }
+};
+
+// Number of scans loaded per page on the Scan History tab
+const SCAN_HISTORY_PAGE_SIZE = 20;
+
+// Position in the scan history, returned with each page to load the next one
+export type ScanHistoryCursor =
+  | { source: 'firestore'; lastDoc: QueryDocumentSnapshot }
+  | { source: 'local'; offset: number };
+
+export interface ScanHistoryPage {
+  items: ProductDetails[];
+  // Where the page came from; only Firestore pages can be followed live
+  source: 'firestore' | 'local';
+  // Null when there is nothing more to load
+  cursor: ScanHistoryCursor | null;
+}
+
+// Scans saved before the Nutri-Score only have the nutrition declaration to compute it from
+const storedNutriScore = (data: DocumentData, nutritionalInfo: NutritionalInfo | null): NutriScoreResult | undefined => {
+  if (data.nutriScore) return data.nutriScore;
+  if (!nutritionalInfo || data.isFood === false) return undefined;
+  const category = inferNutriScoreCategory(nutritionalInfo, data.recallInfo?.category);
+  return computeNutriScore(nutritionalInfo, category) || undefined;
+};
+
+// Convert a stored scan (Firestore document or local entry) into ProductDetails
+const toProductDetails = (id: string | undefined, data: DocumentData): ProductDetails => {
+  // Scans saved before the numeric nutrition declaration hold display strings
+  const nutritionalInfo = migrateNutritionalInfo(data.nutritionalInfo);
+  return {
+    id,
+    recallInfo: data.recallInfo,
+    nutritionalInfo: nutritionalInfo || undefined,
+    nutriScore: storedNutriScore(data, nutritionalInfo),
+    description: data.description || undefined,
+    imageUri: data.imageUri || undefined,
+    imagePath: data.imagePath || undefined,
+    isFood: data.isFood ?? undefined,
+    ingredients: data.ingredients || undefined,
+    allergens: data.allergens || undefined,
+    mayContainAllergens: data.mayContainAllergens || undefined,
+    scanDate: data.scanDate instanceof Timestamp ? data.scanDate.toDate() : new Date(data.scanDate),
+    pendingSync: data.pendingSync || undefined,
+  };
+};
+
+const byNewestFirst = (a: ProductDetails, b: ProductDetails) => b.scanDate.getTime() - a.scanDate.getTime();
+
+// Scans saved to local storage when Firestore was unavailable, newest first
+const getLocalScanHistory = async (userId: string): Promise<ProductDetails[]> => {
+  const localHistory = await getLocalScans(userId);
+  return localHistory.map(item => toProductDetails(item.id, item)).sort(byNewestFirst);
+};
+
+/**
+ * Merge changes not uploaded yet into scans read from Firestore: queued deletions are
+ * hidden, queued corrections applied and local scans added (local copy wins, by id)
+ * @param includeLocal Which local scans belong to this list (e.g. to one page)
+ */
+const mergePendingScans = async (
+  userId: string,
+  remote: ProductDetails[],
+  includeLocal: (scan: ProductDetails) => boolean = () => true
+): Promise<ProductDetails[]> => {
+  const pending = await getPendingScanChanges(userId);
+  const local = pending.scans.map(item => toProductDetails(item.id, item)).filter(includeLocal);
+  const localIds = new Set(local.map(scan => scan.id));
+
+  const merged = remote
+    .filter(scan => !scan.id || (!pending.deletes.has(scan.id) && !localIds.has(scan.id)))
+    .map(scan => {
+      const changes = scan.id ? pending.updates.get(scan.id) : undefined;
+      return changes ? applyScanUpdate(scan, changes) : scan;
+    });
+
+  return [...merged, ...local].sort(byNewestFirst);
 };
 
 // Function to get scan history from Firestore or local storage
 export const getScanHistory = async (userId: string): Promise<ProductDetails[]> => {
   try {
     try {
-      // Try to get from Firestore first
+      // Try to get from Firestore first, newest first
       const scanHistoryRef = collection(db, 'scanHistory');
-      const q = query(scanHistoryRef, where('userId', '==', userId));
+      const q = query(scanHistoryRef, where('userId', '==', userId), orderBy('scanDate', 'desc'));
       const querySnapshot = await getDocs(q);
       
-      const scanHistory: ProductDetails[] = [];
-      querySnapshot.forEach((doc) => {
-        const data = doc.data();
-        scanHistory.push({
-          recallInfo: data.recallInfo,
-          nutritionalInfo: data.nutritionalInfo || undefined,
-          description: data.description || undefined,
-          imageUri: data.imageUri || undefined,
-          scanDate: (data.scanDate as Timestamp).toDate(),
-        } as ProductDetails);
-      });
-      
+      const scanHistory = querySnapshot.docs.map(doc => toProductDetails(doc.id, doc.data()));
       console.log('✅ Successfully retrieved scan history from Firestore');
-      
-      // Sort by scan date (newest first)
-      return scanHistory.sort((a: ProductDetails, b: ProductDetails) => b.scanDate.getTime() - a.scanDate.getTime());
+      return await mergePendingScans(userId, scanHistory);
     } catch (firestoreError) {
       console.error('Error getting scan history from Firestore:', firestoreError);
       console.log('Falling back to local storage for scan history');
       
       // Fallback to AsyncStorage
-      const localHistoryStr = await AsyncStorage.getItem(`scanHistory_${userId}`);
-      if (!localHistoryStr) return [];
-      
-      const localHistory = JSON.parse(localHistoryStr);
-      
-      // Convert to ProductDetails format
-      const scanHistory = localHistory.map((item: any) => ({
-        recallInfo: item.recallInfo,
-        nutritionalInfo: item.nutritionalInfo || undefined,
-        description: item.description || undefined,
-        imageUri: item.imageUri || undefined,
-        scanDate: new Date(item.scanDate),
-      } as ProductDetails));
-      
+      const scanHistory = await getLocalScanHistory(userId);
       console.log('✅ Successfully retrieved scan history from local storage');
-      
-      // Sort by scan date (newest first)
-      return scanHistory.sort((a: ProductDetails, b: ProductDetails) => b.scanDate.getTime() - a.scanDate.getTime());
+      return scanHistory;
     }
   } catch (error) {
     console.error('Error getting scan history:', error);
     return []; // Return empty array instead of throwing
   }
-}; 
\ No newline at end of file
+};
+
+/**
+ * Get one page of scan history, newest first
+ * @param cursor Cursor returned with the previous page, null for the first page
+ */
+export const getScanHistoryPage = async (
+  userId: string,
+  cursor: ScanHistoryCursor | null = null,
+  pageSize = SCAN_HISTORY_PAGE_SIZE
+): Promise<ScanHistoryPage> => {
+  // Local pages are sliced from the stored list
+  const getLocalPage = async (offset: number): Promise<ScanHistoryPage> => {
+    const history = await getLocalScanHistory(userId);
+    const items = history.slice(offset, offset + pageSize);
+    const nextOffset = offset + items.length;
+    return {
+      items,
+      source: 'local',
+      cursor: nextOffset < history.length ? { source: 'local', offset: nextOffset } : null,
+    };
+  };
+
+  if (cursor?.source === 'local') {
+    return getLocalPage(cursor.offset);
+  }
+
+  try {
+    // Uses the (userId, scanDate desc) composite index
+    const constraints = [
+      where('userId', '==', userId),
+      orderBy('scanDate', 'desc'),
+      ...(cursor ? [startAfter(cursor.lastDoc)] : []),
+      limit(pageSize),
+    ];
+    const querySnapshot = await getDocs(query(collection(db, 'scanHistory'), ...constraints));
+    const docs = querySnapshot.docs;
+    const nextCursor: ScanHistoryCursor | null = docs.length === pageSize
+      ? { source: 'firestore', lastDoc: docs[docs.length - 1] }
+      : null;
+
+    // Local scans go to the page covering their date
+    const newerThan = nextCursor ? toProductDetails(undefined, nextCursor.lastDoc.data()).scanDate : null;
+    const olderThan = cursor ? toProductDetails(undefined, cursor.lastDoc.data()).scanDate : null;
+    const items = await mergePendingScans(
+      userId,
+      docs.map(doc => toProductDetails(doc.id, doc.data())),
+      scan => (!newerThan || scan.scanDate >= newerThan) && (!olderThan || scan.scanDate < olderThan)
+    );
+
+    return {
+      items,
+      source: 'firestore',
+      cursor: nextCursor,
+    };
+  } catch (firestoreError) {
+    // Only the first page can switch to local storage; later pages must stay consistent
+    if (cursor) {
+      console.error('Error loading scan history page:', firestoreError);
+      throw new Error('Failed to load more scan history');
+    }
+    console.error('Error getting scan history page from Firestore:', firestoreError);
+    console.log('Falling back to local storage for scan history');
+    return getLocalPage(0);
+  }
+};
+
+/**
+ * Listen for scans saved after a given date (e.g. from another device)
+ * @param since Only scans newer than this are reported; null for every scan
+ * @param onScans Called with every matching scan, newest first, each time they change
+ * @returns Function to stop listening
+ */
+export const subscribeToNewScans = (
+  userId: string,
+  since: Date | null,
+  onScans: (items: ProductDetails[]) => void
+): Unsubscribe => {
+  const constraints = [
+    where('userId', '==', userId),
+    ...(since ? [where('scanDate', '>', Timestamp.fromDate(since))] : []),
+    orderBy('scanDate', 'desc'),
+    // Without a lower bound, the newest page is enough
+    ...(since ? [] : [limit(SCAN_HISTORY_PAGE_SIZE)]),
+  ];
+
+  return onSnapshot(
+    query(collection(db, 'scanHistory'), ...constraints),
+    snapshot => onScans(snapshot.docs.map(doc => toProductDetails(doc.id, doc.data()))),
+    error => console.error('Error listening to scan history:', error)
+  );
+};
+
+// Set once the user's stored scans use the numeric nutrition declaration
+const NUTRITION_MIGRATED_KEY_PREFIX = 'nutritionMigrated_';
+
+// Firestore allows up to 500 writes per batch
+const MIGRATION_BATCH_SIZE = 400;
+
+/**
+ * Rewrite scans saved with the old nutrition display strings in the numeric format.
+ * Runs once per user and device; scans are converted when read anyway, so this only
+ * keeps the stored data consistent.
+ * @returns Number of scans rewritten
+ */
+export const migrateScanHistoryNutrition = async (userId: string): Promise<number> => {
+  const migratedKey = `${NUTRITION_MIGRATED_KEY_PREFIX}${userId}`;
+  let migrated = 0;
+  try {
+    if (await AsyncStorage.getItem(migratedKey)) return 0;
+
+    await rewriteLocalScans(userId, scans => scans.map(scan => {
+      if (!isLegacyNutritionalInfo(scan.nutritionalInfo)) return scan;
+      migrated++;
+      return { ...scan, nutritionalInfo: migrateNutritionalInfo(scan.nutritionalInfo) };
+    }));
+
+    const querySnapshot = await getDocs(query(collection(db, 'scanHistory'), where('userId', '==', userId)));
+    const legacyDocs = querySnapshot.docs.filter(doc => isLegacyNutritionalInfo(doc.data().nutritionalInfo));
+
+    for (let i = 0; i < legacyDocs.length; i += MIGRATION_BATCH_SIZE) {
+      const batch = writeBatch(db);
+      legacyDocs.slice(i, i + MIGRATION_BATCH_SIZE).forEach(doc => {
+        const nutritionalInfo = migrateNutritionalInfo(doc.data().nutritionalInfo);
+        batch.update(doc.ref, { nutritionalInfo: nutritionalInfo ? removeUndefinedFields(nutritionalInfo) : null });
+      });
+      await batch.commit();
+    }
+    migrated += legacyDocs.length;
+
+    await AsyncStorage.setItem(migratedKey, new Date().toISOString());
+    console.log(`✅ Migrated nutrition of ${migrated} scans`);
+  } catch (error) {
+    // Tried again next time; scans still display correctly meanwhile
+    console.error('Error migrating scan history nutrition:', error);
+  }
+  return migrated;
+};
+
+// Sort orders available on the Scan History tab
+export type ScanHistorySort = 'newest' | 'oldest' | 'name' | 'recalledFirst';
+
+// Filters applied to the scan history
+export interface ScanHistoryQuery {
+  // Matched against product name, manufacturer and description
+  search?: string;
+  recalledOnly?: boolean;
+  foodOnly?: boolean;
+  // Inclusive date range
+  from?: Date | null;
+  to?: Date | null;
+  sort?: ScanHistorySort;
+}
+
+// Scans made on the same (local) day
+export interface ScanHistoryDayGroup {
+  day: string; // YYYY-MM-DD
+  date: Date;
+  items: ProductDetails[];
+}
+
+/**
+ * Whether a scan is a food product. Older scans have no `isFood` flag, so fall back
+ * on the recall category or the presence of nutrition facts.
+ */
+const isFoodScan = (item: ProductDetails): boolean => {
+  if (item.isFood !== undefined) return item.isFood;
+  if (item.recallInfo.category) return /aliment/i.test(item.recallInfo.category);
+  return !!item.nutritionalInfo;
+};
+
+const compareScans: Record<ScanHistorySort, (a: ProductDetails, b: ProductDetails) => number> = {
+  newest: (a, b) => b.scanDate.getTime() - a.scanDate.getTime(),
+  oldest: (a, b) => a.scanDate.getTime() - b.scanDate.getTime(),
+  name: (a, b) => a.recallInfo.productName.localeCompare(b.recallInfo.productName),
+  recalledFirst: (a, b) =>
+    Number(b.recallInfo.isRecalled) - Number(a.recallInfo.isRecalled) || b.scanDate.getTime() - a.scanDate.getTime(),
+};
+
+/**
+ * Apply filters, search and sorting to scan history entries
+ */
+export const filterScanHistory = (history: ProductDetails[], historyQuery: ScanHistoryQuery = {}): ProductDetails[] => {
+  const terms = normalizeText(historyQuery.search || '').split(' ').filter(Boolean);
+
+  return history
+    .filter(item => {
+      if (historyQuery.recalledOnly && !item.recallInfo.isRecalled) return false;
+      if (historyQuery.foodOnly && !isFoodScan(item)) return false;
+      if (historyQuery.from && item.scanDate < historyQuery.from) return false;
+      if (historyQuery.to && item.scanDate > historyQuery.to) return false;
+
+      if (terms.length > 0) {
+        // Accent and case insensitive, every term must appear somewhere
+        const haystack = normalizeText(
+          [item.recallInfo.productName, item.recallInfo.manufacturer, item.description].filter(Boolean).join(' ')
+        );
+        return terms.every(term => haystack.includes(term));
+      }
+      return true;
+    })
+    .sort(compareScans[historyQuery.sort || 'newest']);
+};
+
+/**
+ * Group scans by local calendar day, keeping the order of the input
+ */
+export const groupScanHistoryByDay = (history: ProductDetails[]): ScanHistoryDayGroup[] => {
+  const groups: ScanHistoryDayGroup[] = [];
+  const byDay = new Map<string, ScanHistoryDayGroup>();
+
+  history.forEach(item => {
+    const date = new Date(item.scanDate.getFullYear(), item.scanDate.getMonth(), item.scanDate.getDate());
+    const day = [
+      date.getFullYear(),
+      String(date.getMonth() + 1).padStart(2, '0'),
+      String(date.getDate()).padStart(2, '0'),
+    ].join('-');
+
+    let group = byDay.get(day);
+    if (!group) {
+      group = { day, date, items: [] };
+      byDay.set(day, group);
+      groups.push(group);
+    }
+    group.items.push(item);
+  });
+
+  return groups;
+};
+
+// Load the user's scan history (Firestore or local fallback) and apply a query to it
+export const queryScanHistory = async (
+  userId: string,
+  historyQuery: ScanHistoryQuery = {}
+): Promise<ProductDetails[]> => {
+  const history = await getScanHistory(userId);
+  return filterScanHistory(history, historyQuery);
+};
@@ -0,0 +1,270 @@
+import { ensureOk, runWithPolicy } from './requestPolicy';
+
+/**
+ * Client for the official RappelConso open-data export (rappel.conso.gouv.fr)
+ * published on data.economie.gouv.fr through the Opendatasoft Explore API.
+ *
+ * The client is pluggable: the base URL can be overridden with
+ * EXPO_PUBLIC_RAPPELCONSO_API_URL (e.g. a local fixture server), and a
+ * completely different source can be injected with setRecallSource().
+ */
+
+// Default Explore API v2.1 endpoint and dataset
+const DEFAULT_BASE_URL = 'https://data.economie.gouv.fr/api/explore/v2.1';
+const DEFAULT_DATASET = 'rappelconso-v2-gtin-espaces';
+const DEFAULT_PAGE_SIZE = 20;
+
+// Total time allowed per request, retries included
+const LOOKUP_DEADLINE = 20 * 1000; // 20 seconds
+const EXPORT_DEADLINE = 3 * 60 * 1000; // 3 minutes, the full export is large
+
+// Raw record as exported by the RappelConso dataset (only the fields we use)
+export interface RappelConsoRecord {
+  id?: number | string;
+  numero_fiche?: string;
+  rappel_guid?: string;
+  libelle?: string;
+  marque_produit?: string;
+  modeles_ou_references?: string;
+  identification_produits?: string;
+  categorie_produit?: string;
+  sous_categorie_produit?: string;
+  motif_rappel?: string;
+  risques_encourus?: string;
+  conduites_a_tenir_par_le_consommateur?: string;
+  date_publication?: string;
+  date_fin_procedure_de_rappel?: string;
+  lien_vers_la_fiche_rappel?: string;
+  liens_vers_les_images?: string;
+}
+
+// Product identification parsed from `identification_produits`
+export interface RecallProductIdentifier {
+  gtin: string;
+  lots: string[];
+  dateInfo: string;
+}
+
+// Normalized recall record used by the rest of the app
+export interface RecallRecord {
+  id: string;
+  productName: string;
+  brand: string;
+  category: string;
+  identifiers: RecallProductIdentifier[];
+  reason: string;
+  risk: string;
+  consumerAction: string;
+  publicationDate: string;
+  recallEndDate: string;
+  recallUrl: string;
+  imageUrl: string;
+}
+
+export interface RecallSearchOptions {
+  limit?: number;
+  // Only return records published on or after this ISO date (YYYY-MM-DD)
+  publishedSince?: string;
+  // Cancels the request (ignored by local sources)
+  signal?: AbortSignal;
+}
+
+// Anything able to answer recall queries (live API, fixture server, local store...)
+export interface RecallSource {
+  findByGtin: (gtin: string, options?: RecallSearchOptions) => Promise<RecallRecord[]>;
+  search: (text: string, options?: RecallSearchOptions) => Promise<RecallRecord[]>;
+}
+
+// A source able to export the whole dataset, used to feed the local recall store
+export interface RecallFeed {
+  exportRecords: (options?: { publishedSince?: string; signal?: AbortSignal }) => Promise<RecallRecord[]>;
+}
+
+export interface RappelConsoClientOptions {
+  baseUrl?: string;
+  dataset?: string;
+  fetchImpl?: typeof fetch;
+}
+
+/**
+ * Split a multi-value field (values are separated by `|` in the export)
+ */
+const splitValues = (value?: string): string[] => {
+  if (!value) return [];
+  return value
+    .split('|')
+    .map(part => part.trim())
+    .filter(Boolean);
+};
+
+/**
+ * Parse `identification_produits`, formatted as `GTIN$lots$date type$date|...`
+ */
+export const parseProductIdentifiers = (value?: string): RecallProductIdentifier[] => {
+  return splitValues(value).map(entry => {
+    const [gtin = '', lots = '', ...dateParts] = entry.split('$').map(part => part.trim());
+    return {
+      gtin: gtin.replace(/\D/g, ''),
+      lots: lots
+        .split(/[\s,;]+/)
+        .map(lot => lot.trim())
+        .filter(Boolean),
+      dateInfo: dateParts.filter(Boolean).join(' '),
+    };
+  });
+};
+
+/**
+ * Map a raw dataset record into a RecallRecord
+ */
+export const mapRappelConsoRecord = (record: RappelConsoRecord): RecallRecord => {
+  const productName = [record.libelle, record.modeles_ou_references]
+    .find(value => value && value.trim()) || '';
+
+  return {
+    id: String(record.rappel_guid || record.numero_fiche || record.id || ''),
+    productName: productName.trim(),
+    brand: (record.marque_produit || '').trim(),
+    category: [record.categorie_produit, record.sous_categorie_produit].filter(Boolean).join(' / '),
+    identifiers: parseProductIdentifiers(record.identification_produits),
+    reason: (record.motif_rappel || '').trim(),
+    risk: (record.risques_encourus || '').trim(),
+    consumerAction: (record.conduites_a_tenir_par_le_consommateur || '').trim(),
+    publicationDate: record.date_publication ? record.date_publication.split('T')[0] : '',
+    recallEndDate: record.date_fin_procedure_de_rappel || '',
+    recallUrl: record.lien_vers_la_fiche_rappel || '',
+    imageUrl: splitValues(record.liens_vers_les_images)[0] || '',
+  };
+};
+
+// Text fields of RappelConsoRecord
+const RECORD_TEXT_FIELDS = [
+  'numero_fiche', 'rappel_guid', 'libelle', 'marque_produit', 'modeles_ou_references',
+  'identification_produits', 'categorie_produit', 'sous_categorie_produit', 'motif_rappel',
+  'risques_encourus', 'conduites_a_tenir_par_le_consommateur', 'date_publication',
+  'date_fin_procedure_de_rappel', 'lien_vers_la_fiche_rappel', 'liens_vers_les_images',
+] as const;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Keep the records of an API response, with only the fields that have the expected type
+ */
+const toRappelConsoRecords = (value: unknown): RappelConsoRecord[] => {
+  if (!Array.isArray(value)) return [];
+
+  return value.filter(isObject).map(raw => {
+    const record: RappelConsoRecord = {};
+    if (typeof raw.id === 'number' || typeof raw.id === 'string') record.id = raw.id;
+    RECORD_TEXT_FIELDS.forEach(field => {
+      const fieldValue = raw[field];
+      if (typeof fieldValue === 'string') record[field] = fieldValue;
+    });
+    return record;
+  });
+};
+
+/**
+ * Escape a value for use inside an ODSQL string literal
+ */
+const escapeOdsql = (value: string): string => value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+
+/**
+ * Create a RecallSource backed by the RappelConso Explore API
+ */
+export const createRappelConsoClient = (options: RappelConsoClientOptions = {}): RecallSource & RecallFeed => {
+  const baseUrl = (options.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, '');
+  const dataset = options.dataset || DEFAULT_DATASET;
+  const fetchImpl = options.fetchImpl || fetch;
+
+  const dateClause = (publishedSince?: string): string[] =>
+    publishedSince ? [`date_publication >= date'${escapeOdsql(publishedSince)}'`] : [];
+
+  const fetchJson = (url: string, signal?: AbortSignal, deadlineMs = LOOKUP_DEADLINE): Promise<unknown> => {
+    return runWithPolicy(async attempt => {
+      const response = await fetchImpl(url, { headers: { Accept: 'application/json' }, signal: attempt.signal });
+      ensureOk(response, 'RappelConso request');
+      return response.json();
+    }, { signal, deadlineMs });
+  };
+
+  const queryRecords = async (where: string[], searchOptions: RecallSearchOptions = {}): Promise<RecallRecord[]> => {
+    const clauses = [...where, ...dateClause(searchOptions.publishedSince)];
+
+    const params = new URLSearchParams({
+      limit: String(searchOptions.limit || DEFAULT_PAGE_SIZE),
+      order_by: 'date_publication desc',
+    });
+    if (clauses.length > 0) {
+      params.set('where', clauses.join(' AND '));
+    }
+
+    const body = await fetchJson(`${baseUrl}/catalog/datasets/${dataset}/records?${params.toString()}`, searchOptions.signal);
+    // Records API: { total_count, results: [...] }
+    return toRappelConsoRecords(isObject(body) ? body.results : null).map(mapRappelConsoRecord);
+  };
+
+  return {
+    findByGtin: async (gtin, searchOptions) => {
+      const digits = gtin.replace(/\D/g, '');
+      const records = await queryRecords([`search(identification_produits, "${escapeOdsql(digits)}")`], searchOptions);
+      // Full-text search may be fuzzy, so keep only records that really list this GTIN
+      return records.filter(record => record.identifiers.some(identifier => identifier.gtin === digits));
+    },
+    search: async (text, searchOptions) => {
+      const trimmed = text.trim();
+      if (!trimmed) return [];
+      return queryRecords([`"${escapeOdsql(trimmed)}"`], searchOptions);
+    },
+    exportRecords: async (exportOptions = {}) => {
+      // The export endpoint is not paginated, so it returns the full (or delta) dataset at once
+      const params = new URLSearchParams({ order_by: 'date_publication asc' });
+      const clauses = dateClause(exportOptions.publishedSince);
+      if (clauses.length > 0) {
+        params.set('where', clauses.join(' AND '));
+      }
+
+      const body = await fetchJson(
+        `${baseUrl}/catalog/datasets/${dataset}/exports/json?${params.toString()}`,
+        exportOptions.signal,
+        EXPORT_DEADLINE
+      );
+      // Export API: a bare array of records
+      return toRappelConsoRecords(body).map(mapRappelConsoRecord);
+    },
+  };
+};
+
+// Live (or env-configured) RappelConso API client
+const rappelConsoClient = createRappelConsoClient({
+  baseUrl: process.env.EXPO_PUBLIC_RAPPELCONSO_API_URL,
+});
+
+// Active recall source, defaulting to the RappelConso API
+let recallSource: RecallSource = rappelConsoClient;
+let recallFeed: RecallFeed = rappelConsoClient;
+
+/**
+ * Get the recall source currently used for lookups
+ */
+export const getRecallSource = (): RecallSource => recallSource;
+
+/**
+ * Replace the recall source (fixture server, local database, test double...)
+ */
+export const setRecallSource = (source: RecallSource): void => {
+  recallSource = source;
+};
+
+/**
+ * Get the feed used to synchronize the local recall store
+ */
+export const getRecallFeed = (): RecallFeed => recallFeed;
+
+/**
+ * Replace the feed used to synchronize the local recall store
+ */
+export const setRecallFeed = (feed: RecallFeed): void => {
+  recallFeed = feed;
+};
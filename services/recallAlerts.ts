@@ -0,0 +1,220 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Notifications from 'expo-notifications';
+import * as BackgroundFetch from 'expo-background-fetch';
+import * as TaskManager from 'expo-task-manager';
+import { Platform } from 'react-native';
+import { getScanHistory, verifyProductRecall, type ProductDetails, type RecallInfo } from './productService';
+import { syncRecallStoreIfStale } from './recallStore';
+import { getStoredUserData } from './authPersistence';
+import { translate, type Language } from '../contexts/LanguageContext';
+
+/**
+ * Recall alerts: periodically re-checks every product in the user's scan history
+ * against newly published recalls and sends a local notification when one is found.
+ */
+
+// Background task name
+export const RECALL_ALERTS_TASK = 'recall-alerts-check';
+
+// Storage keys
+const ALERTS_ENABLED_KEY = 'recallAlertsEnabled';
+const NOTIFIED_KEY_PREFIX = 'recallAlerts_notified_';
+
+// How often the OS should wake the app to check (best effort)
+const CHECK_INTERVAL_SECONDS = 6 * 60 * 60; // 6 hours
+
+// Name-only matches below this confidence are too uncertain to alert about
+const MIN_POSSIBLE_MATCH_CONFIDENCE = 0.75;
+
+// Show alerts even when the app is in the foreground
+Notifications.setNotificationHandler({
+  handleNotification: async () => ({
+    shouldShowAlert: true,
+    shouldPlaySound: true,
+    shouldSetBadge: false,
+  }),
+});
+
+/**
+ * Key identifying a product across scans (barcode when known, otherwise its name)
+ */
+const getProductKey = (recallInfo: RecallInfo): string => {
+  return recallInfo.gtin || recallInfo.productName.trim().toLowerCase();
+};
+
+/**
+ * Recall ids we already notified this user about, to avoid repeated alerts
+ */
+const getNotifiedRecallIds = async (userId: string): Promise<string[]> => {
+  const stored = await AsyncStorage.getItem(`${NOTIFIED_KEY_PREFIX}${userId}`);
+  return stored ? JSON.parse(stored) : [];
+};
+
+const getLanguage = async (): Promise<Language> => {
+  const savedLanguage = await AsyncStorage.getItem('language');
+  return savedLanguage === 'fr' ? 'fr' : 'en';
+};
+
+/**
+ * Send a local notification for a newly recalled product
+ */
+const notifyRecall = async (recall: RecallInfo, language: Language): Promise<void> => {
+  const details = [
+    recall.recallReason,
+    recall.consumerAction && `${translate(language, 'whatToDo')}: ${recall.consumerAction}`,
+  ].filter(Boolean).join('\n');
+
+  await Notifications.scheduleNotificationAsync({
+    content: {
+      title: `${translate(language, 'recallAlertTitle')}: ${recall.productName}`,
+      body: details || translate(language, 'recallAlertBody'),
+      data: { recallId: recall.recallId, gtin: recall.gtin },
+    },
+    trigger: null, // Deliver immediately
+  });
+};
+
+/**
+ * Re-evaluate every product in the user's scan history against the current recalls
+ * @returns Recalls that triggered a notification
+ */
+export const checkScanHistoryForRecalls = async (userId: string): Promise<RecallInfo[]> => {
+  if (!userId) return [];
+
+  // Make sure lookups run against fresh data (and offline when possible)
+  try {
+    await syncRecallStoreIfStale();
+  } catch (error) {
+    console.error('Recall sync before alert check failed, using remote lookups:', error);
+  }
+
+  const history = await getScanHistory(userId);
+  const notifiedIds = await getNotifiedRecallIds(userId);
+  const language = await getLanguage();
+
+  // Each product only needs to be checked once, using its most recent scan
+  const latestScans = new Map<string, ProductDetails>();
+  history.forEach(item => {
+    const key = getProductKey(item.recallInfo);
+    if (key && !latestScans.has(key)) {
+      latestScans.set(key, item);
+    }
+  });
+
+  const newRecalls: RecallInfo[] = [];
+  for (const item of latestScans.values()) {
+    try {
+      // Same lookup as the Home screen
+      const recall = await verifyProductRecall({
+        name: item.recallInfo.gtin ? '' : item.recallInfo.productName,
+        gtin: item.recallInfo.gtin,
+        lotNumber: item.recallInfo.scannedLotNumber,
+        expiryDate: item.recallInfo.scannedExpiryDate,
+      });
+
+      const isConfident = recall.matchLevel !== 'possible'
+        || (recall.matchConfidence ?? 0) >= MIN_POSSIBLE_MATCH_CONFIDENCE;
+      const isNew = recall.isRecalled
+        && isConfident
+        && !!recall.recallId
+        && recall.recallId !== item.recallInfo.recallId
+        && !notifiedIds.includes(recall.recallId)
+        && recall.lotStatus !== 'not_listed';
+
+      if (isNew) {
+        await notifyRecall({ ...recall, productName: item.recallInfo.productName || recall.productName }, language);
+        notifiedIds.push(recall.recallId!);
+        newRecalls.push(recall);
+      }
+    } catch (error) {
+      console.error('Error re-checking scanned product:', error);
+    }
+  }
+
+  await AsyncStorage.setItem(`${NOTIFIED_KEY_PREFIX}${userId}`, JSON.stringify(notifiedIds));
+  console.log(`✅ Recall alert check complete: ${newRecalls.length} new recall(s)`);
+  return newRecalls;
+};
+
+// Background task, defined at module load so the OS can run it without the UI
+TaskManager.defineTask(RECALL_ALERTS_TASK, async () => {
+  try {
+    const storedUser = await getStoredUserData();
+    if (!storedUser?.uid || !(await areRecallAlertsEnabled())) {
+      return BackgroundFetch.BackgroundFetchResult.NoData;
+    }
+
+    const newRecalls = await checkScanHistoryForRecalls(storedUser.uid);
+    return newRecalls.length > 0
+      ? BackgroundFetch.BackgroundFetchResult.NewData
+      : BackgroundFetch.BackgroundFetchResult.NoData;
+  } catch (error) {
+    console.error('Recall alerts background task failed:', error);
+    return BackgroundFetch.BackgroundFetchResult.Failed;
+  }
+});
+
+/**
+ * Whether the user enabled recall alerts (enabled by default)
+ */
+export const areRecallAlertsEnabled = async (): Promise<boolean> => {
+  const value = await AsyncStorage.getItem(ALERTS_ENABLED_KEY);
+  return value !== 'false';
+};
+
+/**
+ * Ask for notification permission and register the periodic background check
+ * @returns Whether alerts are active
+ */
+export const enableRecallAlerts = async (): Promise<boolean> => {
+  try {
+    await AsyncStorage.setItem(ALERTS_ENABLED_KEY, 'true');
+
+    if (Platform.OS === 'web') {
+      return false;
+    }
+
+    const { status } = await Notifications.requestPermissionsAsync();
+    if (status !== 'granted') {
+      console.log('⚠️ Notification permission not granted, recall alerts disabled');
+      return false;
+    }
+
+    if (Platform.OS === 'android') {
+      await Notifications.setNotificationChannelAsync('default', {
+        name: 'Recall alerts',
+        importance: Notifications.AndroidImportance.HIGH,
+      });
+    }
+
+    const isRegistered = await TaskManager.isTaskRegisteredAsync(RECALL_ALERTS_TASK);
+    if (!isRegistered) {
+      await BackgroundFetch.registerTaskAsync(RECALL_ALERTS_TASK, {
+        minimumInterval: CHECK_INTERVAL_SECONDS,
+        stopOnTerminate: false,
+        startOnBoot: true,
+      });
+    }
+
+    console.log('✅ Recall alerts enabled');
+    return true;
+  } catch (error) {
+    console.error('Error enabling recall alerts:', error);
+    return false;
+  }
+};
+
+/**
+ * Stop the periodic background check
+ */
+export const disableRecallAlerts = async (): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(ALERTS_ENABLED_KEY, 'false');
+    if (await TaskManager.isTaskRegisteredAsync(RECALL_ALERTS_TASK)) {
+      await BackgroundFetch.unregisterTaskAsync(RECALL_ALERTS_TASK);
+    }
+    console.log('✅ Recall alerts disabled');
+  } catch (error) {
+    console.error('Error disabling recall alerts:', error);
+  }
+};
@@ -0,0 +1,252 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system';
+import { getRecallFeed, type RecallRecord, type RecallSearchOptions, type RecallSource } from './rappelConso';
+import { tokenize } from './productMatching';
+
+/**
+ * Local, offline copy of the RappelConso dataset.
+ * Records are kept in a JSON file in the document directory (the full export is too
+ * large for AsyncStorage, capped at about 6 MB on Android) and indexed in memory by
+ * id and GTIN. Only the small sync status lives in AsyncStorage.
+ */
+
+// Storage keys
+const META_KEY = 'recallStore_meta';
+const RECORDS_FILE = `${FileSystem.documentDirectory}recallStore.json`;
+
+// Sync automatically, and stop answering lookups from the local copy, when the
+// last successful sync is older than this
+const STALE_AFTER = 12 * 60 * 60 * 1000; // 12 hours in milliseconds
+
+// Sync status shown in Settings
+export interface RecallSyncStatus {
+  lastSyncAt: string | null;
+  lastPublicationDate: string | null;
+  recordCount: number;
+}
+
+const EMPTY_STATUS: RecallSyncStatus = {
+  lastSyncAt: null,
+  lastPublicationDate: null,
+  recordCount: 0,
+};
+
+// In-memory index, loaded lazily from the records file
+interface RecallIndex {
+  byId: Map<string, RecallRecord>;
+  byGtin: Map<string, string[]>;
+}
+
+let indexPromise: Promise<RecallIndex> | null = null;
+let syncPromise: Promise<RecallSyncStatus> | null = null;
+
+/**
+ * Build the in-memory index from a list of records
+ */
+const buildIndex = (records: Iterable<RecallRecord>): RecallIndex => {
+  const byId = new Map<string, RecallRecord>();
+  const byGtin = new Map<string, string[]>();
+
+  for (const record of records) {
+    byId.set(record.id, record);
+  }
+
+  byId.forEach(record => {
+    record.identifiers.forEach(identifier => {
+      if (!identifier.gtin) return;
+      const ids = byGtin.get(identifier.gtin) || [];
+      if (!ids.includes(record.id)) {
+        ids.push(record.id);
+      }
+      byGtin.set(identifier.gtin, ids);
+    });
+  });
+
+  return { byId, byGtin };
+};
+
+/**
+ * Get the current sync status
+ */
+export const getRecallSyncStatus = async (): Promise<RecallSyncStatus> => {
+  try {
+    const metaStr = await AsyncStorage.getItem(META_KEY);
+    return metaStr ? { ...EMPTY_STATUS, ...JSON.parse(metaStr) } : EMPTY_STATUS;
+  } catch (error) {
+    console.error('Error reading recall store status:', error);
+    return EMPTY_STATUS;
+  }
+};
+
+/**
+ * Load the records file into the in-memory index
+ */
+const loadIndex = async (): Promise<RecallIndex> => {
+  const info = await FileSystem.getInfoAsync(RECORDS_FILE);
+  const records: RecallRecord[] = info.exists
+    ? JSON.parse(await FileSystem.readAsStringAsync(RECORDS_FILE))
+    : [];
+
+  console.log(`✅ Loaded ${records.length} recall records from local store`);
+  return buildIndex(records);
+};
+
+const getIndex = (): Promise<RecallIndex> => {
+  if (!indexPromise) {
+    indexPromise = loadIndex().catch(error => {
+      indexPromise = null;
+      throw error;
+    });
+  }
+  return indexPromise;
+};
+
+/**
+ * Persist the full index back to the records file
+ */
+const persistIndex = async (index: RecallIndex, status: RecallSyncStatus): Promise<RecallSyncStatus> => {
+  const records = Array.from(index.byId.values());
+
+  // Write next to the current file and swap, so an interrupted write keeps the previous copy
+  const tempFile = `${RECORDS_FILE}.tmp`;
+  await FileSystem.writeAsStringAsync(tempFile, JSON.stringify(records));
+  await FileSystem.deleteAsync(RECORDS_FILE, { idempotent: true });
+  await FileSystem.moveAsync({ from: tempFile, to: RECORDS_FILE });
+
+  const nextStatus: RecallSyncStatus = {
+    ...status,
+    recordCount: records.length,
+  };
+
+  await AsyncStorage.setItem(META_KEY, JSON.stringify(nextStatus));
+  return nextStatus;
+};
+
+/**
+ * Download new and updated recalls since the last sync and merge them into the local store.
+ * A first sync downloads the full dataset.
+ */
+export const syncRecallStore = (): Promise<RecallSyncStatus> => {
+  // Only one sync at a time
+  if (syncPromise) return syncPromise;
+
+  syncPromise = (async () => {
+    try {
+      const index = await getIndex();
+      const storedStatus = await getRecallSyncStatus();
+      // The records file is gone (e.g. cleared by the system): download everything again
+      const status = index.byId.size > 0 ? storedStatus : { ...storedStatus, lastPublicationDate: null };
+      console.log(`🔄 Syncing recall store since ${status.lastPublicationDate || 'the beginning'}`);
+
+      const updates = await getRecallFeed().exportRecords({
+        publishedSince: status.lastPublicationDate || undefined,
+      });
+
+      const merged = buildIndex([...index.byId.values(), ...updates]);
+
+      // Delta sync restarts from the most recent publication day we have seen
+      const lastPublicationDate = updates.reduce<string | null>(
+        (latest, record) => (record.publicationDate && (!latest || record.publicationDate > latest) ? record.publicationDate : latest),
+        status.lastPublicationDate
+      );
+
+      const nextStatus = await persistIndex(merged, {
+        ...status,
+        lastSyncAt: new Date().toISOString(),
+        lastPublicationDate,
+      });
+
+      indexPromise = Promise.resolve(merged);
+      console.log(`✅ Recall store synced: ${updates.length} updates, ${nextStatus.recordCount} records`);
+      return nextStatus;
+    } catch (error) {
+      console.error('Error syncing recall store:', error);
+      throw new Error('Failed to sync the recall database');
+    } finally {
+      syncPromise = null;
+    }
+  })();
+
+  return syncPromise;
+};
+
+// The last successful sync is older than STALE_AFTER, or there never was one
+const isStale = (status: RecallSyncStatus): boolean => {
+  const lastSync = status.lastSyncAt ? new Date(status.lastSyncAt).getTime() : 0;
+  return Date.now() - lastSync >= STALE_AFTER;
+};
+
+/**
+ * Sync only if the local store has never been synced or is out of date
+ */
+export const syncRecallStoreIfStale = async (): Promise<RecallSyncStatus> => {
+  const status = await getRecallSyncStatus();
+  if (!isStale(status)) {
+    return status;
+  }
+  return syncRecallStore();
+};
+
+/**
+ * Whether the local store holds data and can answer lookups offline
+ */
+export const hasLocalRecallData = async (): Promise<boolean> => {
+  const status = await getRecallSyncStatus();
+  return status.recordCount > 0;
+};
+
+/**
+ * Whether the local store holds data recent enough to answer lookups instead of RappelConso
+ */
+export const hasFreshLocalRecallData = async (): Promise<boolean> => {
+  const status = await getRecallSyncStatus();
+  return status.recordCount > 0 && !isStale(status);
+};
+
+/**
+ * Remove every locally stored recall record
+ */
+export const clearRecallStore = async (): Promise<void> => {
+  await AsyncStorage.removeItem(META_KEY);
+  await FileSystem.deleteAsync(RECORDS_FILE, { idempotent: true });
+  indexPromise = null;
+};
+
+/**
+ * Sort records newest first and apply the search options
+ */
+const applyOptions = (records: RecallRecord[], options: RecallSearchOptions = {}): RecallRecord[] => {
+  const filtered = options.publishedSince
+    ? records.filter(record => record.publicationDate >= options.publishedSince!)
+    : records;
+  const sorted = [...filtered].sort((a, b) => b.publicationDate.localeCompare(a.publicationDate));
+  return options.limit ? sorted.slice(0, options.limit) : sorted;
+};
+
+// RecallSource answering entirely from the local store
+export const localRecallSource: RecallSource = {
+  findByGtin: async (gtin, options) => {
+    const digits = gtin.replace(/\D/g, '');
+    const index = await getIndex();
+    const ids = index.byGtin.get(digits) || [];
+    const records = ids
+      .map(id => index.byId.get(id))
+      .filter((record): record is RecallRecord => !!record);
+    return applyOptions(records, options);
+  },
+  search: async (text, options) => {
+    // Compare normalized tokens so accents, casing and synonyms do not matter
+    const terms = tokenize(text);
+    if (terms.length === 0) return [];
+
+    const index = await getIndex();
+    const records: RecallRecord[] = [];
+    index.byId.forEach(record => {
+      const haystack = tokenize(`${record.productName} ${record.brand}`).join(' ');
+      if (terms.every(term => haystack.includes(term))) {
+        records.push(record);
+      }
+    });
+    return applyOptions(records, options);
+  },
+};
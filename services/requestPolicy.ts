@@ -0,0 +1,236 @@
+/**
+ * Request policy shared by AI and recall requests: classifies errors as retryable or
+ * fatal, backs off exponentially (honouring Retry-After), can be cancelled with an
+ * AbortSignal, enforces a total deadline and reports progress to the UI.
+ */
+
+export interface RequestProgress {
+  attempt: number; // 1-based
+  maxAttempts: number;
+  // Set while waiting before the next attempt
+  retryInMs?: number;
+}
+
+export interface RequestPolicyOptions {
+  maxRetries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  // Total time allowed for every attempt and wait, in milliseconds
+  deadlineMs?: number;
+  signal?: AbortSignal;
+  onProgress?: (progress: RequestProgress) => void;
+}
+
+export interface ErrorClassification {
+  retryable: boolean;
+  // Delay requested by the server (Retry-After), if any
+  retryAfterMs: number | null;
+}
+
+// Passed to each attempt so it can forward cancellation to fetch/SDK calls
+export interface RequestAttempt {
+  attempt: number;
+  signal: AbortSignal;
+}
+
+// Thrown when the caller cancelled the request (e.g. "scan another")
+export class RequestCancelledError extends Error {
+  constructor() {
+    super('Request was cancelled');
+    this.name = 'RequestCancelledError';
+  }
+}
+
+// Thrown when the total deadline is reached before a successful attempt
+export class RequestDeadlineError extends Error {
+  lastError: unknown;
+
+  constructor(deadlineMs: number, lastError?: unknown) {
+    super(`Request did not complete within ${Math.round(deadlineMs / 1000)} seconds`);
+    this.name = 'RequestDeadlineError';
+    this.lastError = lastError;
+  }
+}
+
+// HTTP error carrying the status and Retry-After of the response
+export class HttpStatusError extends Error {
+  status: number;
+  retryAfterMs: number | null;
+
+  constructor(message: string, status: number, retryAfterMs: number | null = null) {
+    super(message);
+    this.name = 'HttpStatusError';
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+const DEFAULT_OPTIONS = {
+  maxRetries: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000, // Cap at 30 seconds
+  deadlineMs: 60000,
+};
+
+/**
+ * Parse a Retry-After header (delay in seconds or HTTP date)
+ * @returns Delay in milliseconds, or null when missing or invalid
+ */
+export const parseRetryAfter = (value: string | null | undefined): number | null => {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(seconds * 1000, 0);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(date - Date.now(), 0);
+};
+
+/**
+ * Check a fetch response and throw an HttpStatusError when it failed
+ */
+export const ensureOk = (response: Response, description: string): Response => {
+  if (!response.ok) {
+    throw new HttpStatusError(
+      `${description} failed with status ${response.status}`,
+      response.status,
+      parseRetryAfter(response.headers.get('Retry-After'))
+    );
+  }
+  return response;
+};
+
+/**
+ * Whether an HTTP status is worth retrying: timeouts, rate limiting and server errors
+ */
+const isRetryableStatus = (status: number): boolean => {
+  return status === 408 || status === 425 || status === 429 || status >= 500;
+};
+
+/**
+ * Decide whether an error may go away by retrying
+ */
+export const classifyError = (error: unknown): ErrorClassification => {
+  if (error instanceof RequestCancelledError || error instanceof RequestDeadlineError) {
+    return { retryable: false, retryAfterMs: null };
+  }
+  if (!error || typeof error !== 'object') {
+    return { retryable: true, retryAfterMs: null };
+  }
+
+  const { name, status, retryable, retryAfterMs, headers } = error as {
+    name?: string;
+    status?: number | null;
+    retryable?: boolean;
+    retryAfterMs?: number | null;
+    headers?: Record<string, string | undefined> | null;
+  };
+
+  if (name === 'AbortError') {
+    return { retryable: false, retryAfterMs: null };
+  }
+
+  // OpenAI SDK errors expose the raw response headers
+  const serverDelay = retryAfterMs ?? (headers
+    ? (headers['retry-after-ms'] ? Number(headers['retry-after-ms']) : parseRetryAfter(headers['retry-after']))
+    : null);
+
+  // Errors that know whether they can be retried (e.g. VisionProviderError)
+  if (typeof retryable === 'boolean') {
+    return { retryable, retryAfterMs: serverDelay };
+  }
+
+  if (typeof status === 'number') {
+    return { retryable: isRetryableStatus(status), retryAfterMs: serverDelay };
+  }
+
+  // No status: network failures, timeouts or invalid responses, which may succeed next time
+  return { retryable: true, retryAfterMs: null };
+};
+
+/**
+ * Exponential backoff with jitter: 2^retries * (0.5-1.5 random factor) * base
+ */
+const getBackoffTime = (retries: number, baseDelayMs: number, maxDelayMs: number): number => {
+  const jitter = 0.5 + Math.random();
+  return Math.min(Math.pow(2, retries) * jitter * baseDelayMs, maxDelayMs);
+};
+
+/**
+ * Wait, waking up early if the signal is aborted
+ */
+const sleep = (ms: number, signal: AbortSignal): Promise<void> => {
+  return new Promise(resolve => {
+    const timer = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      signal.removeEventListener('abort', done);
+      resolve();
+    }
+    signal.addEventListener('abort', done);
+  });
+};
+
+/**
+ * Run a request with the retry policy
+ * @param fn The request; it should pass `signal` on to fetch or the SDK call
+ * @throws RequestCancelledError when cancelled, RequestDeadlineError when out of time,
+ * or the request's own error when it is fatal or retries are exhausted
+ */
+export const runWithPolicy = async <T>(
+  fn: (attempt: RequestAttempt) => Promise<T>,
+  options: RequestPolicyOptions = {}
+): Promise<T> => {
+  const { maxRetries, baseDelayMs, maxDelayMs, deadlineMs } = { ...DEFAULT_OPTIONS, ...options };
+  const maxAttempts = maxRetries + 1;
+  const deadline = Date.now() + deadlineMs;
+
+  // Aborted when the caller cancels or the deadline passes
+  const controller = new AbortController();
+  const onCallerAbort = () => controller.abort();
+  if (options.signal?.aborted) {
+    throw new RequestCancelledError();
+  }
+  options.signal?.addEventListener('abort', onCallerAbort);
+  const deadlineTimer = setTimeout(() => controller.abort(), deadlineMs);
+
+  const stopReason = (lastError: unknown): Error => {
+    return options.signal?.aborted ? new RequestCancelledError() : new RequestDeadlineError(deadlineMs, lastError);
+  };
+
+  try {
+    for (let attempt = 1; ; attempt++) {
+      options.onProgress?.({ attempt, maxAttempts });
+
+      try {
+        return await fn({ attempt, signal: controller.signal });
+      } catch (error) {
+        if (controller.signal.aborted) {
+          throw stopReason(error);
+        }
+
+        const { retryable, retryAfterMs } = classifyError(error);
+        console.error(`Request attempt ${attempt}/${maxAttempts} failed:`, (error as Error)?.message || error);
+
+        if (!retryable || attempt >= maxAttempts) {
+          throw error;
+        }
+
+        const delay = retryAfterMs ?? getBackoffTime(attempt, baseDelayMs, maxDelayMs);
+        if (Date.now() + delay >= deadline) {
+          throw new RequestDeadlineError(deadlineMs, error);
+        }
+
+        console.log(`Retrying in ${delay / 1000} seconds... (Retry ${attempt}/${maxRetries})`);
+        options.onProgress?.({ attempt, maxAttempts, retryInMs: delay });
+        await sleep(delay, controller.signal);
+        if (controller.signal.aborted) {
+          throw stopReason(error);
+        }
+      }
+    }
+  } finally {
+    clearTimeout(deadlineTimer);
+    options.signal?.removeEventListener('abort', onCallerAbort);
+  }
+};
@@ -0,0 +1,456 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AppState } from 'react-native';
+import * as Crypto from 'expo-crypto';
+import { doc, setDoc, updateDoc, deleteDoc, Timestamp } from 'firebase/firestore';
+import { db } from './firebaseConfig';
+import type { RecallInfo } from './productService';
+import type { NutritionalInfo } from './nutrition';
+import type { NutriScoreResult } from './nutriScore';
+import type { AllergenId } from './productAnalysis';
+
+/**
+ * Outbox for scan history writes that could not reach Firestore.
+ * Every scan gets a client-generated id that is also its Firestore document id, so
+ * replaying a write that already reached the server never creates a duplicate.
+ * Scans waiting to be uploaded stay in local storage (`scanHistory_${userId}`) and are
+ * merged with Firestore results; queued operations are replayed in order when the
+ * app comes back online.
+ */
+
+// Storage keys
+const localScansKey = (userId: string) => `scanHistory_${userId}`;
+const outboxKey = (userId: string) => `scanOutbox_${userId}`;
+
+// A scan as kept in local storage, with dates as ISO strings
+export interface LocalScan {
+  id: string;
+  userId: string;
+  recallInfo: RecallInfo;
+  nutritionalInfo: NutritionalInfo | null;
+  // Missing on scans saved before the Nutri-Score
+  nutriScore?: NutriScoreResult | null;
+  description: string;
+  imageUri: string;
+  // Missing on scans saved before uploaded photos were recorded
+  imagePath?: string | null;
+  isFood: boolean | null;
+  // Missing on scans saved before allergens were extracted
+  ingredients?: string | null;
+  allergens?: AllergenId[];
+  mayContainAllergens?: AllergenId[];
+  scanDate: string;
+  createdAt: string;
+  updatedAt?: string;
+  // True while the scan waits to be uploaded; false when Firestore rejected it for good
+  // and it stays on this device only. Missing on scans saved before the outbox existed.
+  pendingSync?: boolean;
+}
+
+// Fields of a saved scan the user can correct
+export interface ScanUpdate {
+  productName?: string;
+  manufacturer?: string;
+  description?: string;
+}
+
+export type OutboxOperationType = 'create' | 'update' | 'delete';
+
+interface OutboxOperation {
+  // Changes whenever the operation is rewritten, so a replay only removes what it sent
+  id: string;
+  type: OutboxOperationType;
+  scanId: string;
+  // Only for updates
+  changes?: ScanUpdate;
+  queuedAt: string;
+  attempts: number;
+  lastError?: string;
+}
+
+// Queued changes that are not in Firestore yet
+export interface PendingScanChanges {
+  scans: LocalScan[];
+  updates: Map<string, ScanUpdate>;
+  deletes: Set<string>;
+}
+
+export interface ScanSyncResult {
+  synced: number;
+  // Operations Firestore rejected for good (e.g. permission denied)
+  dropped: number;
+  // Operations still waiting, e.g. because the device is offline
+  pending: number;
+}
+
+// Firestore errors that will not go away by retrying
+const PERMANENT_ERROR_CODES = [
+  'permission-denied',
+  'invalid-argument',
+  'not-found',
+  'already-exists',
+  'failed-precondition',
+  'out-of-range',
+  'unimplemented',
+];
+
+let storageLock: Promise<unknown> = Promise.resolve();
+// Running sync of each user
+const syncPromises = new Map<string, Promise<ScanSyncResult>>();
+
+/**
+ * Run read-modify-write steps on the local scans and outbox one at a time
+ */
+const withStorageLock = <T>(fn: () => Promise<T>): Promise<T> => {
+  const run = storageLock.then(fn, fn);
+  storageLock = run.catch(() => undefined);
+  return run;
+};
+
+const readJson = async <T>(key: string): Promise<T[]> => {
+  const value = await AsyncStorage.getItem(key);
+  return value ? JSON.parse(value) : [];
+};
+
+const getOutbox = (userId: string) => readJson<OutboxOperation>(outboxKey(userId));
+const saveOutbox = (userId: string, outbox: OutboxOperation[]) =>
+  AsyncStorage.setItem(outboxKey(userId), JSON.stringify(outbox));
+
+/**
+ * Scans kept in local storage, in the order they were saved
+ */
+export const getLocalScans = (userId: string) => readJson<LocalScan>(localScansKey(userId));
+const saveLocalScans = (userId: string, scans: LocalScan[]) =>
+  AsyncStorage.setItem(localScansKey(userId), JSON.stringify(scans));
+
+const newOperation = (type: OutboxOperationType, scanId: string, changes?: ScanUpdate): OutboxOperation => ({
+  id: Crypto.randomUUID(),
+  type,
+  scanId,
+  ...(changes && { changes }),
+  queuedAt: new Date().toISOString(),
+  attempts: 0,
+});
+
+/**
+ * New id for a scan, used both locally and as its Firestore document id
+ */
+export const generateScanId = (): string => Crypto.randomUUID();
+
+/**
+ * Whether a Firestore error is worth retrying later (offline, timeout, server busy)
+ */
+export const isRetryableFirestoreError = (error: unknown): boolean => {
+  const code = (error as { code?: string } | null)?.code;
+  return !code || !PERMANENT_ERROR_CODES.includes(code);
+};
+
+/**
+ * Apply a user correction to a scan (local entry or ProductDetails)
+ */
+export const applyScanUpdate = <T extends { recallInfo: RecallInfo; description?: string }>(
+  scan: T,
+  changes: ScanUpdate
+): T => ({
+  ...scan,
+  recallInfo: {
+    ...scan.recallInfo,
+    ...(changes.productName !== undefined && { productName: changes.productName }),
+    ...(changes.manufacturer !== undefined && { manufacturer: changes.manufacturer }),
+  },
+  ...(changes.description !== undefined && { description: changes.description }),
+});
+
+/**
+ * Firestore update for a user correction; dotted paths only touch the edited fields
+ */
+export const toFirestoreUpdate = (changes: ScanUpdate) => ({
+  ...(changes.productName !== undefined && { 'recallInfo.productName': changes.productName }),
+  ...(changes.manufacturer !== undefined && { 'recallInfo.manufacturer': changes.manufacturer }),
+  ...(changes.description !== undefined && { description: changes.description }),
+  updatedAt: Timestamp.now(),
+});
+
+/**
+ * Convert a local scan into the document stored in Firestore
+ */
+const toFirestoreData = (scan: LocalScan) => {
+  const { id, pendingSync, updatedAt, ...data } = scan;
+  return {
+    ...data,
+    scanDate: Timestamp.fromDate(new Date(scan.scanDate)),
+    createdAt: Timestamp.fromDate(new Date(scan.createdAt)),
+    ...(updatedAt && { updatedAt: Timestamp.fromDate(new Date(updatedAt)) }),
+  };
+};
+
+/**
+ * Keep a scan Firestore could not save and queue its upload
+ */
+export const queueScanCreate = (userId: string, scan: LocalScan): Promise<void> =>
+  withStorageLock(async () => {
+    const scans = await getLocalScans(userId);
+    await saveLocalScans(userId, [...scans.filter(item => item.id !== scan.id), { ...scan, pendingSync: true }]);
+
+    const outbox = await getOutbox(userId);
+    if (!outbox.some(operation => operation.type === 'create' && operation.scanId === scan.id)) {
+      await saveOutbox(userId, [...outbox, newOperation('create', scan.id)]);
+    }
+    console.log('📥 Scan queued for upload:', scan.id);
+  });
+
+/**
+ * Queue a correction of a scan that is already in Firestore
+ */
+export const queueScanUpdate = (userId: string, scanId: string, changes: ScanUpdate): Promise<void> =>
+  withStorageLock(async () => {
+    const outbox = await getOutbox(userId);
+    const queued = outbox.find(operation => operation.type === 'update' && operation.scanId === scanId);
+
+    // Later corrections of the same scan are merged into one update
+    const next = queued
+      ? outbox.map(operation => operation === queued
+        ? { ...newOperation('update', scanId, { ...queued.changes, ...changes }), queuedAt: queued.queuedAt }
+        : operation)
+      : [...outbox, newOperation('update', scanId, changes)];
+
+    await saveOutbox(userId, next);
+    console.log('📥 Scan update queued:', scanId);
+  });
+
+/**
+ * Queue the deletion of a scan that is already in Firestore
+ */
+export const queueScanDelete = (userId: string, scanId: string): Promise<void> =>
+  withStorageLock(async () => {
+    const outbox = await getOutbox(userId);
+    // Pending corrections of a deleted scan are pointless
+    await saveOutbox(userId, [
+      ...outbox.filter(operation => operation.scanId !== scanId),
+      newOperation('delete', scanId),
+    ]);
+    console.log('📥 Scan deletion queued:', scanId);
+  });
+
+/**
+ * Correct a scan kept in local storage; a queued upload sends the corrected version
+ * @returns false when the scan is not stored locally
+ */
+export const updateLocalScan = (userId: string, scanId: string, changes: ScanUpdate): Promise<boolean> =>
+  withStorageLock(async () => {
+    const scans = await getLocalScans(userId);
+    if (!scans.some(scan => scan.id === scanId)) return false;
+
+    await saveLocalScans(userId, scans.map(scan => scan.id !== scanId ? scan : {
+      ...applyScanUpdate(scan, changes),
+      updatedAt: new Date().toISOString(),
+    }));
+    return true;
+  });
+
+/**
+ * Remove a scan kept in local storage and its queued upload
+ * @returns false when the scan is not stored locally
+ */
+export const deleteLocalScan = (userId: string, scanId: string): Promise<boolean> =>
+  withStorageLock(async () => {
+    const scans = await getLocalScans(userId);
+    if (!scans.some(scan => scan.id === scanId)) return false;
+
+    await saveLocalScans(userId, scans.filter(scan => scan.id !== scanId));
+    const outbox = await getOutbox(userId);
+    await saveOutbox(userId, outbox.filter(operation => operation.scanId !== scanId));
+    return true;
+  });
+
+/**
+ * Rewrite every scan kept in local storage (e.g. to migrate a stored format)
+ */
+export const rewriteLocalScans = (userId: string, rewrite: (scans: LocalScan[]) => LocalScan[]): Promise<void> =>
+  withStorageLock(async () => {
+    await saveLocalScans(userId, rewrite(await getLocalScans(userId)));
+  });
+
+/**
+ * Forget every scan and queued operation kept on this device for the user.
+ * Waits for a running sync so no upload lands after the local data is gone.
+ */
+export const clearLocalScanData = async (userId: string): Promise<void> => {
+  await syncPromises.get(userId);
+
+  await withStorageLock(async () => {
+    await AsyncStorage.multiRemove([localScansKey(userId), outboxKey(userId)]);
+    console.log('🗑️ Local scan history cleared');
+  });
+};
+
+/**
+ * Scans waiting to be uploaded, plus queued corrections and deletions
+ */
+export const getPendingScanChanges = async (userId: string): Promise<PendingScanChanges> => {
+  const [scans, outbox] = await Promise.all([getLocalScans(userId), getOutbox(userId)]);
+  const updates = new Map<string, ScanUpdate>();
+  const deletes = new Set<string>();
+
+  outbox.forEach(operation => {
+    if (operation.type === 'update' && operation.changes) updates.set(operation.scanId, operation.changes);
+    if (operation.type === 'delete') deletes.add(operation.scanId);
+  });
+
+  return { scans, updates, deletes };
+};
+
+/**
+ * Number of queued operations, e.g. to tell the user some scans are not backed up yet
+ */
+export const getPendingSyncCount = async (userId: string): Promise<number> => {
+  return (await getOutbox(userId)).length;
+};
+
+/**
+ * Queue the upload of scans saved locally before the outbox existed
+ */
+const queueLegacyScans = (userId: string): Promise<void> =>
+  withStorageLock(async () => {
+    const scans = await getLocalScans(userId);
+    const legacy = scans.filter(scan => scan.pendingSync === undefined);
+    if (legacy.length === 0) return;
+
+    const outbox = await getOutbox(userId);
+    await saveLocalScans(userId, scans.map(scan => scan.pendingSync === undefined ? { ...scan, pendingSync: true } : scan));
+    await saveOutbox(userId, [...outbox, ...legacy.map(scan => newOperation('create', scan.id))]);
+    console.log(`📥 Queued ${legacy.length} locally saved scans for upload`);
+  });
+
+/**
+ * Send one queued operation to Firestore
+ */
+const replay = async (userId: string, operation: OutboxOperation): Promise<void> => {
+  const ref = doc(db, 'scanHistory', operation.scanId);
+
+  if (operation.type === 'create') {
+    const scan = (await getLocalScans(userId)).find(item => item.id === operation.scanId);
+    // Deleted while waiting: nothing to upload
+    if (!scan) return;
+
+    // Same document id every time, so a replay overwrites instead of duplicating
+    await setDoc(ref, toFirestoreData(scan));
+
+    await withStorageLock(async () => {
+      const outbox = await getOutbox(userId);
+      // Deleted while the upload was in flight: remove it from Firestore too
+      if (!outbox.some(item => item.id === operation.id)) {
+        await saveOutbox(userId, [...outbox, newOperation('delete', scan.id)]);
+        return;
+      }
+      // Corrected while the upload was in flight: upload again next time
+      const scans = await getLocalScans(userId);
+      const current = scans.find(item => item.id === scan.id);
+      if (current && current.updatedAt !== scan.updatedAt) return;
+
+      await saveLocalScans(userId, scans.filter(item => item.id !== scan.id));
+      await saveOutbox(userId, outbox.filter(item => item.id !== operation.id));
+    });
+    return;
+  }
+
+  if (operation.type === 'update') {
+    await updateDoc(ref, toFirestoreUpdate(operation.changes || {}));
+  } else {
+    await deleteDoc(ref);
+  }
+
+  await withStorageLock(async () => {
+    const outbox = await getOutbox(userId);
+    await saveOutbox(userId, outbox.filter(item => item.id !== operation.id));
+  });
+};
+
+/**
+ * Record a failed replay; permanent failures are dropped so they do not block the queue
+ * @returns true when the operation was dropped
+ */
+const recordFailure = (userId: string, operation: OutboxOperation, error: unknown): Promise<boolean> =>
+  withStorageLock(async () => {
+    const permanent = !isRetryableFirestoreError(error);
+    const outbox = await getOutbox(userId);
+
+    if (permanent) {
+      await saveOutbox(userId, outbox.filter(item => item.id !== operation.id));
+      // The scan stays on this device only
+      if (operation.type === 'create') {
+        const scans = await getLocalScans(userId);
+        await saveLocalScans(userId, scans.map(scan => scan.id === operation.scanId ? { ...scan, pendingSync: false } : scan));
+      }
+      return true;
+    }
+
+    await saveOutbox(userId, outbox.map(item => item.id !== operation.id ? item : {
+      ...item,
+      attempts: item.attempts + 1,
+      lastError: String((error as Error)?.message || error),
+    }));
+    return false;
+  });
+
+/**
+ * Replay queued scan history writes in order.
+ * Stops at the first retryable failure (most likely the device is still offline).
+ */
+export const syncScanHistory = (userId: string): Promise<ScanSyncResult> => {
+  // Only one sync at a time per user
+  const running = syncPromises.get(userId);
+  if (running) return running;
+
+  const syncPromise = (async () => {
+    const result: ScanSyncResult = { synced: 0, dropped: 0, pending: 0 };
+
+    try {
+      await queueLegacyScans(userId);
+      const outbox = await getOutbox(userId);
+      if (outbox.length === 0) return result;
+
+      console.log(`🔄 Syncing ${outbox.length} queued scan history changes...`);
+      for (const operation of outbox) {
+        try {
+          await replay(userId, operation);
+          result.synced++;
+        } catch (error) {
+          console.error(`Error replaying queued scan ${operation.type}:`, error);
+          if (await recordFailure(userId, operation, error)) {
+            result.dropped++;
+            continue;
+          }
+          break;
+        }
+      }
+
+      result.pending = await getPendingSyncCount(userId);
+      console.log(`✅ Scan history sync done: ${result.synced} synced, ${result.dropped} dropped, ${result.pending} pending`);
+    } catch (error) {
+      console.error('Error syncing scan history:', error);
+    } finally {
+      syncPromises.delete(userId);
+    }
+
+    return result;
+  })();
+
+  syncPromises.set(userId, syncPromise);
+  return syncPromise;
+};
+
+/**
+ * Sync now and every time the app comes back to the foreground
+ * @returns Function to stop syncing
+ */
+export const startScanSync = (userId: string): (() => void) => {
+  syncScanHistory(userId);
+
+  const subscription = AppState.addEventListener('change', state => {
+    if (state === 'active') {
+      syncScanHistory(userId);
+    }
+  });
+
+  return () => subscription.remove();
+};
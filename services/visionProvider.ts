@@ -0,0 +1,293 @@
+import OpenAI from 'openai';
+import { auth } from './firebaseConfig';
+import type { ProductAnalysisResponse } from './productAnalysis';
+import { parseRetryAfter } from './requestPolicy';
+
+/**
+ * Vision/LLM backends able to analyze a product image.
+ *
+ * The provider and model are picked from EXPO_PUBLIC_VISION_PROVIDER
+ * ("proxy", "openai" or "mock") and EXPO_PUBLIC_VISION_MODEL, and a different
+ * provider can be injected at runtime with setVisionProvider().
+ *
+ * The default "proxy" provider calls our analysis Cloud Function so the OpenAI
+ * key stays on the server; "openai" calls OpenAI directly and is meant for local
+ * development only, since EXPO_PUBLIC_ variables ship in the app bundle.
+ */
+
+export type VisionProviderName = 'proxy' | 'openai' | 'mock';
+
+// What to ask the model about an image
+export interface VisionRequest {
+  imageUrl: string;
+  // Firebase Storage path of the image, when it was uploaded
+  imagePath?: string | null;
+  systemPrompt: string;
+  prompt: string;
+  // JSON schema the response must follow (structured output)
+  schemaName: string;
+  schema: Record<string, unknown>;
+  // Cancels the underlying network call
+  signal?: AbortSignal;
+}
+
+// Anything able to answer a vision request with raw JSON text
+export interface VisionProvider {
+  name: VisionProviderName;
+  model: string;
+  // Whether the provider has everything it needs (API key...) to be called
+  isConfigured: () => boolean;
+  // Whether the image must be reachable by URL (uploaded) before analysis
+  requiresImageUpload: boolean;
+  analyzeImage: (request: VisionRequest) => Promise<string>;
+}
+
+export interface VisionProviderConfig {
+  provider?: string;
+  model?: string;
+  apiKey?: string;
+  proxyUrl?: string;
+}
+
+// Error raised by a provider; non-retryable errors (auth, quota...) are not retried
+export class VisionProviderError extends Error {
+  status: number | null;
+  retryable: boolean;
+  retryAfterMs: number | null;
+
+  constructor(
+    message: string,
+    options: { status?: number | null; retryable?: boolean; retryAfterMs?: number | null } = {}
+  ) {
+    super(message);
+    this.name = 'VisionProviderError';
+    this.status = options.status ?? null;
+    this.retryable = options.retryable ?? true;
+    this.retryAfterMs = options.retryAfterMs ?? null;
+  }
+}
+
+// Defaults used when nothing is configured
+const DEFAULT_PROVIDER: VisionProviderName = 'proxy';
+const DEFAULT_OPENAI_MODEL = 'gpt-4o'; // Model with vision support
+const MOCK_MODEL = 'mock-vision';
+
+/**
+ * OpenAI chat completions with vision input and strict JSON schema output
+ */
+export const createOpenAIVisionProvider = (
+  options: { apiKey?: string; model?: string } = {}
+): VisionProvider => {
+  const model = options.model || DEFAULT_OPENAI_MODEL;
+  let client: OpenAI | null = null;
+
+  // Created lazily so a missing key only fails when the provider is used
+  const getClient = (): OpenAI => {
+    if (!client) {
+      client = new OpenAI({
+        apiKey: options.apiKey,
+        dangerouslyAllowBrowser: true, // Needed for client-side browser usage
+      });
+    }
+    return client;
+  };
+
+  return {
+    name: 'openai',
+    model,
+    isConfigured: () => !!options.apiKey,
+    requiresImageUpload: true,
+    analyzeImage: async request => {
+      if (!options.apiKey) {
+        throw new VisionProviderError('OpenAI API key is missing. Please check your configuration.', { retryable: false });
+      }
+
+      const response = await getClient().chat.completions.create({
+        model,
+        messages: [
+          { role: 'system', content: request.systemPrompt },
+          {
+            role: 'user',
+            content: [
+              { type: 'text', text: request.prompt },
+              { type: 'image_url', image_url: { url: request.imageUrl } },
+            ],
+          },
+        ],
+        max_tokens: 800,
+        temperature: 0.1, // Lower temperature for more factual responses
+        response_format: {
+          type: 'json_schema',
+          json_schema: {
+            name: request.schemaName,
+            schema: request.schema,
+            strict: true,
+          },
+        },
+      }, { signal: request.signal, maxRetries: 0 }); // Retries are handled by the request policy
+
+      const message = response.choices[0]?.message;
+      if (message?.refusal) {
+        throw new VisionProviderError(`The model refused to analyze this image: ${message.refusal}`, { retryable: false });
+      }
+      return message?.content || '';
+    },
+  };
+};
+
+/**
+ * Our analysis Cloud Function: authenticates the user with their Firebase ID token,
+ * enforces per-user quotas and calls the model with the server-side key
+ */
+export const createProxyVisionProvider = (options: {
+  url?: string;
+  model?: string;
+  getIdToken: () => Promise<string | null>;
+  fetchImpl?: typeof fetch;
+}): VisionProvider => {
+  const fetchImpl = options.fetchImpl || fetch;
+
+  return {
+    name: 'proxy',
+    model: options.model || DEFAULT_OPENAI_MODEL,
+    isConfigured: () => !!options.url,
+    requiresImageUpload: true,
+    analyzeImage: async request => {
+      if (!options.url) {
+        throw new VisionProviderError('The analysis proxy URL is not configured.', { retryable: false });
+      }
+
+      const idToken = await options.getIdToken();
+      if (!idToken) {
+        throw new VisionProviderError('You need to be signed in to analyze images.', { status: 401, retryable: false });
+      }
+
+      // The proxy owns the prompt and schema; only the image reference is sent
+      const response = await fetchImpl(options.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${idToken}`,
+        },
+        body: JSON.stringify(
+          request.imagePath
+            ? { imagePath: request.imagePath, model: options.model }
+            : { imageBase64: request.imageUrl.replace(/^data:[^,]*,/, ''), model: options.model }
+        ),
+        signal: request.signal,
+      });
+
+      const body = await response.json().catch(() => null);
+      if (!response.ok) {
+        const message = body?.error || `Analysis proxy request failed (HTTP ${response.status})`;
+        // Server errors and rate limiting may succeed later, client errors, an exhausted quota
+        // and an invalid analysis of the image (already counted against the quota) will not
+        const retryable = (response.status >= 500 && !body?.invalidAnalysis)
+          || (response.status === 429 && !body?.quotaExceeded);
+        throw new VisionProviderError(message, {
+          status: response.status,
+          retryable,
+          retryAfterMs: parseRetryAfter(response.headers.get('Retry-After')),
+        });
+      }
+
+      return JSON.stringify(body?.analysis ?? null);
+    },
+  };
+};
+
+// Fixed analysis returned by the mock provider
+export const MOCK_PRODUCT_ANALYSIS: ProductAnalysisResponse = {
+  name: 'Camembert de Normandie AOP',
+  brand: 'Président',
+  gtin: '3228021170022',
+  lotNumber: 'L23145B',
+  expiryDate: '2025-06-30',
+  expiryDateType: 'use_by',
+  category: 'dairy',
+  isFood: true,
+  description: 'Soft cow\'s milk cheese from Normandy, 250 g.',
+  ingredients: 'Lait de vache cru, sel, ferments lactiques, présure, ferments d\'affinage.',
+  allergens: ['milk'],
+  mayContainAllergens: [],
+  nutrition: {
+    per100: { energyKj: 1242, energyKcal: 299, fat: 24, saturatedFat: 16, carbohydrate: 0.5, sugars: 0.5, fibre: null, protein: 20, salt: 1.5 },
+    perServing: { energyKj: 373, energyKcal: 90, fat: 7.2, saturatedFat: 4.8, carbohydrate: 0.2, sugars: 0.2, fibre: null, protein: 6, salt: 0.45 },
+    basis: 'g',
+    servingSize: '30 g',
+    estimatedNutrients: [],
+    nutriScoreCategory: 'cheese',
+  },
+  confidence: 0.95,
+};
+
+/**
+ * Deterministic provider for tests and demos: never calls the network and always
+ * answers the same request with the same response
+ */
+export const createMockVisionProvider = (
+  options: { respond?: (request: VisionRequest) => unknown; delayMs?: number } = {}
+): VisionProvider => ({
+  name: 'mock',
+  model: MOCK_MODEL,
+  isConfigured: () => true,
+  requiresImageUpload: false,
+  analyzeImage: async request => {
+    if (options.delayMs) {
+      await new Promise(resolve => setTimeout(resolve, options.delayMs));
+    }
+    const response = options.respond ? options.respond(request) : MOCK_PRODUCT_ANALYSIS;
+    return typeof response === 'string' ? response : JSON.stringify(response);
+  },
+});
+
+/**
+ * Build the provider described by the configuration
+ */
+export const createVisionProvider = (config: VisionProviderConfig = {}): VisionProvider => {
+  const provider = (config.provider || DEFAULT_PROVIDER).toLowerCase();
+
+  switch (provider) {
+    case 'proxy':
+      return createProxyVisionProvider({
+        url: config.proxyUrl,
+        model: config.model,
+        getIdToken: async () => (auth.currentUser ? auth.currentUser.getIdToken() : null),
+      });
+    case 'mock':
+      return createMockVisionProvider();
+    case 'openai':
+      return createOpenAIVisionProvider({ apiKey: config.apiKey, model: config.model });
+    default:
+      console.warn(`Unknown vision provider "${provider}", falling back to ${DEFAULT_PROVIDER}`);
+      return createVisionProvider({ ...config, provider: DEFAULT_PROVIDER });
+  }
+};
+
+/**
+ * URL of the deployed analysis function, unless overridden (e.g. by the emulator URL)
+ */
+const getDefaultProxyUrl = (): string | undefined => {
+  const projectId = process.env.EXPO_PUBLIC_FIREBASE_PROJECT_ID;
+  return projectId ? `https://us-central1-${projectId}.cloudfunctions.net/analyzeProduct` : undefined;
+};
+
+// Active provider, configured from the environment
+let visionProvider: VisionProvider = createVisionProvider({
+  provider: process.env.EXPO_PUBLIC_VISION_PROVIDER,
+  model: process.env.EXPO_PUBLIC_VISION_MODEL,
+  apiKey: process.env.EXPO_PUBLIC_OPENAI_API_KEY,
+  proxyUrl: process.env.EXPO_PUBLIC_AI_PROXY_URL || getDefaultProxyUrl(),
+});
+
+/**
+ * Get the provider currently used for image analysis
+ */
+export const getVisionProvider = (): VisionProvider => visionProvider;
+
+/**
+ * Replace the provider used for image analysis (mock, another backend...)
+ */
+export const setVisionProvider = (provider: VisionProvider): void => {
+  visionProvider = provider;
+};